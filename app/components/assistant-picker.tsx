@@ -0,0 +1,276 @@
+import { useEffect, useState } from "react"
+import { Bot, Pencil, Plus } from "lucide-react"
+import { Button } from "~/components/ui/button"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "~/components/ui/dialog"
+import { Input } from "~/components/ui/input"
+import { Label } from "~/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "~/components/ui/select"
+import { Textarea } from "~/components/ui/textarea"
+import { AVAILABLE_LLMS } from "~/lib/ai/models.config"
+import { PARAM_LIMITS } from "~/lib/ai/params"
+import type { Assistant } from "~/lib/db/schema"
+
+// Radix Select can't use an empty value, so "no fixed model" gets a sentinel
+const HEADER_MODEL = "__header__"
+
+type AssistantPickerProps = {
+  selectedId: string | null
+  onSelect: (assistant: Assistant | null) => void
+}
+
+/**
+ * Lets the user start a chat from one of their assistants (system prompt
+ * presets) and create, edit or delete them. Renders nothing when signed out.
+ */
+export function AssistantPicker({ selectedId, onSelect }: AssistantPickerProps) {
+  const [assistants, setAssistants] = useState<Assistant[] | null>(null)
+  const [editing, setEditing] = useState<Assistant | "new" | null>(null)
+
+  useEffect(() => {
+    const loadAssistants = async () => {
+      try {
+        const response = await fetch("/api/assistants", { headers: { Accept: "application/json" } })
+        if (!response.ok) return
+        const data = await response.json()
+        setAssistants(data.assistants || [])
+      } catch {
+        // Signed out (the route redirects) or offline: keep the picker hidden
+      }
+    }
+    loadAssistants()
+  }, [])
+
+  if (!assistants) return null
+
+  const handleSaved = (saved: Assistant) => {
+    setAssistants(prev => [saved, ...(prev || []).filter(a => a.id !== saved.id)])
+    if (saved.id === selectedId) onSelect(saved)
+    setEditing(null)
+  }
+
+  const handleDeleted = (id: string) => {
+    setAssistants(prev => (prev || []).filter(a => a.id !== id))
+    if (id === selectedId) onSelect(null)
+    setEditing(null)
+  }
+
+  return (
+    <div className="w-full max-w-2xl mt-6">
+      <div className="flex flex-wrap justify-center gap-2">
+        <Button
+          variant={selectedId === null ? "secondary" : "outline"}
+          size="sm"
+          className="rounded-full"
+          onClick={() => onSelect(null)}
+        >
+          Default
+        </Button>
+        {assistants.map(assistant => (
+          <div key={assistant.id} className="group relative">
+            <Button
+              variant={selectedId === assistant.id ? "secondary" : "outline"}
+              size="sm"
+              className="rounded-full pr-8"
+              title={assistant.description || assistant.system_prompt}
+              onClick={() => onSelect(assistant)}
+            >
+              <Bot className="size-4" />
+              {assistant.name}
+            </Button>
+            <button
+              type="button"
+              className="absolute right-2 top-1/2 -translate-y-1/2 text-muted-foreground hover:text-foreground"
+              aria-label={`Edit ${assistant.name}`}
+              onClick={() => setEditing(assistant)}
+            >
+              <Pencil className="size-3" />
+            </button>
+          </div>
+        ))}
+        <Button variant="ghost" size="sm" className="rounded-full" onClick={() => setEditing("new")}>
+          <Plus className="size-4" />
+          New assistant
+        </Button>
+      </div>
+
+      <AssistantDialog
+        assistant={editing === "new" ? null : editing}
+        open={editing !== null}
+        onOpenChange={(open) => !open && setEditing(null)}
+        onSaved={handleSaved}
+        onDeleted={handleDeleted}
+      />
+    </div>
+  )
+}
+
+type AssistantDialogProps = {
+  assistant: Assistant | null // null creates a new one
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onSaved: (assistant: Assistant) => void
+  onDeleted: (id: string) => void
+}
+
+function AssistantDialog({ assistant, open, onOpenChange, onSaved, onDeleted }: AssistantDialogProps) {
+  const [name, setName] = useState("")
+  const [description, setDescription] = useState("")
+  const [systemPrompt, setSystemPrompt] = useState("")
+  const [modelId, setModelId] = useState(HEADER_MODEL)
+  const [temperature, setTemperature] = useState("")
+  const [topP, setTopP] = useState("")
+  const [error, setError] = useState<string | null>(null)
+  const [isSaving, setIsSaving] = useState(false)
+
+  // Fill the form from the assistant being edited
+  useEffect(() => {
+    if (!open) return
+    setName(assistant?.name || "")
+    setDescription(assistant?.description || "")
+    setSystemPrompt(assistant?.system_prompt || "")
+    setModelId(assistant?.model_id || HEADER_MODEL)
+    setTemperature(assistant?.params?.temperature?.toString() ?? "")
+    setTopP(assistant?.params?.top_p?.toString() ?? "")
+    setError(null)
+  }, [open, assistant])
+
+  const submit = async (formData: FormData) => {
+    setIsSaving(true)
+    setError(null)
+    try {
+      const response = await fetch("/api/assistants", { method: "POST", body: formData })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || `API Error: ${response.status}`)
+      return data
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save assistant")
+      return null
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleSave = async () => {
+    const formData = new FormData()
+    formData.append("intent", assistant ? "update" : "create")
+    if (assistant) formData.append("assistantId", assistant.id)
+    formData.append("name", name)
+    formData.append("description", description)
+    formData.append("systemPrompt", systemPrompt)
+    if (modelId !== HEADER_MODEL) formData.append("modelId", modelId)
+    formData.append("params", JSON.stringify({
+      ...(temperature.trim() ? { temperature: Number(temperature) } : {}),
+      ...(topP.trim() ? { top_p: Number(topP) } : {}),
+    }))
+
+    const data = await submit(formData)
+    if (data?.assistant) onSaved(data.assistant)
+  }
+
+  const handleDelete = async () => {
+    if (!assistant || !confirm(`Delete "${assistant.name}"?`)) return
+    const formData = new FormData()
+    formData.append("intent", "delete")
+    formData.append("assistantId", assistant.id)
+
+    const data = await submit(formData)
+    if (data?.success) onDeleted(assistant.id)
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{assistant ? "Edit assistant" : "New assistant"}</DialogTitle>
+          <DialogDescription>
+            A system prompt with a default model and settings, picked when you start a chat.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="assistant-name">Name</Label>
+            <Input id="assistant-name" value={name} onChange={(e) => setName(e.target.value)} placeholder="Code reviewer" />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="assistant-description">Description</Label>
+            <Input
+              id="assistant-description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="Optional"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="assistant-prompt">System prompt</Label>
+            <Textarea
+              id="assistant-prompt"
+              rows={6}
+              maxLength={PARAM_LIMITS.systemPromptLength}
+              value={systemPrompt}
+              onChange={(e) => setSystemPrompt(e.target.value)}
+              placeholder="You are a meticulous code reviewer..."
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Model</Label>
+            <Select value={modelId} onValueChange={setModelId}>
+              <SelectTrigger className="w-full"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value={HEADER_MODEL}>Model selected in the header</SelectItem>
+                {AVAILABLE_LLMS.map((llm) => (<SelectItem key={llm.id} value={llm.id}>{llm.name}</SelectItem>))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="assistant-temperature">Temperature</Label>
+              <Input
+                id="assistant-temperature"
+                type="number"
+                min={PARAM_LIMITS.temperature.min}
+                max={PARAM_LIMITS.temperature.max}
+                step={PARAM_LIMITS.temperature.step}
+                placeholder="Default"
+                value={temperature}
+                onChange={(e) => setTemperature(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="assistant-top-p">Top-p</Label>
+              <Input
+                id="assistant-top-p"
+                type="number"
+                min={PARAM_LIMITS.topP.min}
+                max={PARAM_LIMITS.topP.max}
+                step={PARAM_LIMITS.topP.step}
+                placeholder="Default"
+                value={topP}
+                onChange={(e) => setTopP(e.target.value)}
+              />
+            </div>
+          </div>
+          {error && <p className="text-sm text-destructive">{error}</p>}
+        </div>
+
+        <DialogFooter className="sm:justify-between">
+          {assistant ? (
+            <Button variant="ghost" className="text-destructive" onClick={handleDelete} disabled={isSaving}>
+              Delete
+            </Button>
+          ) : <span />}
+          <Button onClick={handleSave} disabled={isSaving || !name.trim() || !systemPrompt.trim()}>
+            {isSaving ? "Saving..." : "Save"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
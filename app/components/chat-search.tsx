@@ -0,0 +1,163 @@
+import { useEffect, useState } from "react"
+import { useNavigate } from "@remix-run/react"
+import { MessageSquare, Search } from "lucide-react"
+import { Button } from "~/components/ui/button"
+import {
+  CommandDialog,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from "~/components/ui/command"
+import { Tooltip, TooltipContent, TooltipTrigger } from "~/components/ui/tooltip"
+import type { ChatSearchResult } from "~/lib/db/schema"
+
+// Wait for a pause in typing before searching
+const SEARCH_DEBOUNCE_MS = 250
+
+/**
+ * Text from search_chats with the matched words highlighted. The <mark> tags
+ * come from ts_headline; everything else is rendered as plain text.
+ */
+function Highlighted({ text }: { text: string }) {
+  const parts = text.split(/(<mark>.*?<\/mark>)/g)
+  return (
+    <>
+      {parts.map((part, index) =>
+        part.startsWith("<mark>") && part.endsWith("</mark>") ? (
+          <mark key={index} className="rounded-sm bg-yellow-200 px-0.5 text-foreground dark:bg-yellow-700/60">
+            {part.slice(6, -7)}
+          </mark>
+        ) : (
+          part
+        )
+      )}
+    </>
+  )
+}
+
+/**
+ * Search across chat titles and messages (Ctrl/Cmd+K). Picking a message
+ * opens its chat on the branch that contains it, scrolled to the message.
+ */
+export function ChatSearch({ onNavigate }: { onNavigate?: () => void }) {
+  const navigate = useNavigate()
+  const [open, setOpen] = useState(false)
+  const [query, setQuery] = useState("")
+  const [results, setResults] = useState<ChatSearchResult[]>([])
+  const [isSearching, setIsSearching] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === "k" && (event.metaKey || event.ctrlKey)) {
+        event.preventDefault()
+        setOpen(value => !value)
+      }
+    }
+    window.addEventListener("keydown", handleKeyDown)
+    return () => window.removeEventListener("keydown", handleKeyDown)
+  }, [])
+
+  useEffect(() => {
+    const trimmed = query.trim()
+    if (trimmed.length < 2) {
+      setResults([])
+      setError(null)
+      return
+    }
+
+    const controller = new AbortController()
+    const timer = setTimeout(async () => {
+      setIsSearching(true)
+      try {
+        const response = await fetch(`/api/search?q=${encodeURIComponent(trimmed)}`, {
+          headers: { Accept: "application/json" },
+          signal: controller.signal,
+        })
+        const data = await response.json()
+        if (!response.ok) throw new Error(data.error || `API Error: ${response.status}`)
+        setResults(data.results || [])
+        setError(null)
+      } catch (err) {
+        if (controller.signal.aborted) return
+        setError(err instanceof Error ? err.message : "Search failed")
+      } finally {
+        if (!controller.signal.aborted) setIsSearching(false)
+      }
+    }, SEARCH_DEBOUNCE_MS)
+
+    return () => {
+      clearTimeout(timer)
+      controller.abort()
+    }
+  }, [query])
+
+  const openResult = (result: ChatSearchResult) => {
+    setOpen(false)
+    onNavigate?.()
+    navigate(result.message_id ? `/chat/${result.chat_id}?message=${result.message_id}` : `/chat/${result.chat_id}`)
+  }
+
+  const chatResults = results.filter(result => !result.message_id)
+  const messageResults = results.filter(result => result.message_id)
+
+  return (
+    <>
+      <Tooltip>
+        <TooltipTrigger asChild>
+          <Button variant="ghost" type="button" className="p-2 h-fit" onClick={() => setOpen(true)}>
+            <Search className="size-4" />
+            <span className="sr-only">Search chats</span>
+          </Button>
+        </TooltipTrigger>
+        <TooltipContent align="end">Search chats (Ctrl+K)</TooltipContent>
+      </Tooltip>
+
+      <CommandDialog open={open} onOpenChange={setOpen} shouldFilter={false}>
+        <CommandInput placeholder="Search chats and messages..." value={query} onValueChange={setQuery} />
+        <CommandList className="max-h-[60vh]">
+          {error && <p className="px-4 py-3 text-sm text-destructive">{error}</p>}
+          {!error && query.trim().length >= 2 && !isSearching && (
+            <CommandEmpty>No matches.</CommandEmpty>
+          )}
+
+          {chatResults.length > 0 && (
+            <CommandGroup heading="Chats">
+              {chatResults.map(result => (
+                <CommandItem key={result.chat_id} value={`chat-${result.chat_id}`} onSelect={() => openResult(result)}>
+                  <MessageSquare className="mr-2 shrink-0" />
+                  <span className="truncate"><Highlighted text={result.chat_title} /></span>
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          )}
+
+          {messageResults.length > 0 && (
+            <CommandGroup heading="Messages">
+              {messageResults.map(result => (
+                <CommandItem
+                  key={result.message_id}
+                  value={`message-${result.message_id}`}
+                  onSelect={() => openResult(result)}
+                  className="flex-col items-start gap-1"
+                >
+                  <span className="flex w-full items-center gap-2 text-xs text-muted-foreground">
+                    <span className="truncate font-medium"><Highlighted text={result.chat_title} /></span>
+                    <span className="shrink-0">
+                      {result.role === "user" ? "You" : "AI"} · {new Date(result.created_at).toLocaleDateString()}
+                    </span>
+                  </span>
+                  <span className="line-clamp-2 text-sm">
+                    <Highlighted text={result.snippet || ""} />
+                  </span>
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          )}
+        </CommandList>
+      </CommandDialog>
+    </>
+  )
+}
@@ -0,0 +1,162 @@
+import { useEffect, useState } from "react"
+import { SlidersHorizontal } from "lucide-react"
+import { Button } from "~/components/ui/button"
+import { Input } from "~/components/ui/input"
+import { Label } from "~/components/ui/label"
+import { Popover, PopoverContent, PopoverTrigger } from "~/components/ui/popover"
+import { Slider } from "~/components/ui/slider"
+import { Textarea } from "~/components/ui/textarea"
+import { useChat } from "~/context/chat-context"
+import { findLlmById } from "~/lib/ai/models.config"
+import { PARAM_LIMITS, validateModelParams } from "~/lib/ai/params"
+import type { ModelParams } from "~/lib/db/schema"
+
+type SliderField = "temperature" | "top_p"
+
+// apiDefault is what the APIs use when neither the provider adapter nor the model sets a value
+const SLIDERS: { key: SliderField; param: "temperature" | "topP"; label: string; limits: { min: number; max: number; step: number }; apiDefault: number }[] = [
+  { key: "temperature", param: "temperature", label: "Temperature", limits: PARAM_LIMITS.temperature, apiDefault: 1 },
+  { key: "top_p", param: "topP", label: "Top-p", limits: PARAM_LIMITS.topP, apiDefault: 1 },
+]
+
+/**
+ * Per-chat generation settings. Values are checked against the selected
+ * model's limits here and again by /api/stream, which saves them on the chat.
+ */
+export function ChatSettings() {
+  const { chatSettings, setChatSettings, selectedModel } = useChat()
+  const [open, setOpen] = useState(false)
+  const [draft, setDraft] = useState<ModelParams>(chatSettings)
+  const [error, setError] = useState<string | null>(null)
+  const llm = findLlmById(selectedModel)
+
+  // Start from the saved settings whenever the panel opens
+  useEffect(() => {
+    if (open) {
+      setDraft(chatSettings)
+      setError(null)
+    }
+  }, [open, chatSettings])
+
+  const updateDraft = (changes: Partial<ModelParams>) => {
+    setDraft(prev => ({ ...prev, ...changes }))
+    setError(null)
+  }
+
+  const parseNumber = (value: string) => (value.trim() === "" ? undefined : Number(value))
+
+  const handleApply = () => {
+    if (!llm) return
+    const { params, error: validationError } = validateModelParams(draft, llm)
+    if (validationError) {
+      setError(validationError)
+      return
+    }
+    setChatSettings(params)
+    setOpen(false)
+  }
+
+  const handleReset = () => {
+    setDraft({})
+    setError(null)
+  }
+
+  const isCustomized = Object.keys(chatSettings).length > 0
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="icon"
+          className={`h-9 w-9 rounded-full ${isCustomized ? "bg-muted text-foreground" : ""}`}
+          aria-label="Chat settings"
+        >
+          <SlidersHorizontal className="size-4" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 space-y-4">
+        <div>
+          <h3 className="font-semibold text-sm">Chat settings</h3>
+          <p className="text-xs text-muted-foreground">
+            Applied to new replies in this chat{llm ? ` (${llm.name})` : ""}. Empty fields use the model default.
+          </p>
+        </div>
+
+        {SLIDERS.map(({ key, param, label, limits, apiDefault }) => (
+          <div key={key} className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label htmlFor={`chat-setting-${key}`}>{label}</Label>
+              <button
+                type="button"
+                className="text-xs text-muted-foreground hover:text-foreground"
+                onClick={() => updateDraft({ [key]: undefined })}
+              >
+                {draft[key] === undefined ? "Default" : `${draft[key]} · reset`}
+              </button>
+            </div>
+            <Slider
+              id={`chat-setting-${key}`}
+              min={limits.min}
+              max={limits.max}
+              step={limits.step}
+              value={[draft[key] ?? llm?.params?.[param] ?? apiDefault]}
+              onValueChange={([value]) => updateDraft({ [key]: value })}
+            />
+          </div>
+        ))}
+
+        <div className="grid grid-cols-2 gap-3">
+          <div className="space-y-2">
+            <Label htmlFor="chat-setting-top-k">Top-k</Label>
+            <Input
+              id="chat-setting-top-k"
+              type="number"
+              min={PARAM_LIMITS.topK.min}
+              max={PARAM_LIMITS.topK.max}
+              placeholder="Default"
+              value={draft.top_k ?? ""}
+              onChange={(e) => updateDraft({ top_k: parseNumber(e.target.value) })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="chat-setting-max-tokens">Max output tokens</Label>
+            <Input
+              id="chat-setting-max-tokens"
+              type="number"
+              min={1}
+              max={llm?.maxOutputTokens}
+              placeholder={llm ? `Up to ${llm.maxOutputTokens}` : "Default"}
+              value={draft.max_output_tokens ?? ""}
+              onChange={(e) => updateDraft({ max_output_tokens: parseNumber(e.target.value) })}
+            />
+          </div>
+        </div>
+        <p className="text-xs text-muted-foreground -mt-2">Top-k is only sent to models that support it.</p>
+
+        <div className="space-y-2">
+          <Label htmlFor="chat-setting-system-prompt">System prompt</Label>
+          <Textarea
+            id="chat-setting-system-prompt"
+            rows={4}
+            maxLength={PARAM_LIMITS.systemPromptLength}
+            placeholder="You are a helpful assistant..."
+            value={draft.system_prompt ?? ""}
+            onChange={(e) => updateDraft({ system_prompt: e.target.value })}
+          />
+        </div>
+
+        {error && <p className="text-sm text-destructive">{error}</p>}
+
+        <div className="flex justify-between">
+          <Button variant="ghost" size="sm" onClick={handleReset}>
+            Reset all
+          </Button>
+          <Button size="sm" onClick={handleApply} disabled={!llm}>
+            Apply
+          </Button>
+        </div>
+      </PopoverContent>
+    </Popover>
+  )
+}
@@ -8,6 +8,8 @@ import { ArrowUp, Square, X, Image, FileText, Film, Music, Paperclip } from "luc
 import { useRef, useState, useEffect } from "react"
 import { useChat } from "~/context/chat-context"
 import { PlusIcon } from "~/components/icons" // Import PlusIcon from icons.tsx
+import { findLlmById } from "~/lib/ai/models.config"
+import { validateAttachmentFiles } from "~/lib/ai/attachments"
 
 // --- File Attach Dropdown Component ---
 function FileAttachDropdown({
@@ -98,7 +100,7 @@ function FileAttachDropdown({
       />
       <input
         type="file"
-        accept=".pdf,.doc,.docx,.txt,.ppt,.pptx,.xls,.xlsx,application/msword,application/vnd.openxmlformats-officedocument.wordprocessingml.document"
+        accept=".pdf,.doc,.docx,.txt,.md,.csv,.ppt,.pptx,.xls,.xlsx,application/msword,application/vnd.openxmlformats-officedocument.wordprocessingml.document"
         multiple
         ref={refs.document}
         className="hidden"
@@ -167,7 +169,7 @@ export function PromptInputWithActions({
   placeholder = "Type a message...", // New prop
 }: {
   initialMessage?: string;
-  onSubmit?: (message: string) => void;
+  onSubmit?: (message: string, files: File[]) => void;
   value?: string;
   onChange?: (e: React.ChangeEvent<HTMLTextAreaElement>) => void;
   disabled?: boolean; // New prop
@@ -181,6 +183,7 @@ export function PromptInputWithActions({
 
   // --- State and Refs ---
   const [files, setFiles] = useState<File[]>([])
+  const [attachmentError, setAttachmentError] = useState<string | null>(null)
   const [isSubmitting, setIsSubmitting] = useState(false)
   const [dropdownOpen, setDropdownOpen] = useState(false)
   const uploadInputRef = useRef<HTMLInputElement>(null)
@@ -189,7 +192,7 @@ export function PromptInputWithActions({
   const videoInputRef = useRef<HTMLInputElement>(null)
   const audioInputRef = useRef<HTMLInputElement>(null)
   const dropdownRef = useRef<HTMLDivElement>(null)
-  const { sendMessage, isLoading, stopGeneration } = useChat() // Get stopGeneration from context
+  const { sendMessage, isLoading, stopGeneration, selectedModel } = useChat() // Get stopGeneration from context
   const initialRender = useRef(true)
 
   // Auto-submit initialMessage if provided
@@ -220,22 +223,31 @@ export function PromptInputWithActions({
   // --- Handlers ---
   const handleSend = async () => {
     if ((inputValue.trim() || files.length > 0) && !isSubmitting) {
+      // Catch files the selected model can't read before anything is uploaded
+      const llm = findLlmById(selectedModel)
+      const fileError = llm && files.length > 0 ? validateAttachmentFiles(files, llm) : null
+      if (fileError) {
+        setAttachmentError(fileError)
+        return
+      }
+
       setIsSubmitting(true);
       const currentInput = inputValue.trim();
+      const currentFiles = files;
       
       if (!isControlled) {
         setLocalInput("");
       }
       
       if (onSubmit) {
-        onSubmit(currentInput);
+        onSubmit(currentInput, currentFiles);
         setFiles([]);
         setIsSubmitting(false);
         return;
       }
       
       try {
-        await sendMessage(currentInput);
+        await sendMessage(currentInput, true, undefined, false, currentFiles);
       } finally {
         setFiles([]);
         setIsSubmitting(false);
@@ -247,12 +259,14 @@ export function PromptInputWithActions({
     if (event.target.files) {
       const newFiles = Array.from(event.target.files)
       setFiles((prev) => [...prev, ...newFiles])
+      setAttachmentError(null)
     }
     event.target.value = ""
   }
 
   const handleRemoveFile = (index: number) => {
     setFiles((prev) => prev.filter((_, i) => i !== index))
+    setAttachmentError(null)
     if (uploadInputRef?.current) {
       uploadInputRef.current.value = ""
     }
@@ -276,6 +290,7 @@ export function PromptInputWithActions({
       className="w-full max-w-(--breakpoint-md)"
     >
       <FileList files={files} onRemove={handleRemoveFile} />
+      {attachmentError && <p className="text-destructive pb-2 text-sm">{attachmentError}</p>}
 
       <PromptInputTextarea 
         placeholder={placeholder} // Use custom placeholder
@@ -0,0 +1,42 @@
+import { Download } from "lucide-react"
+import { Button } from "~/components/ui/button"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuTrigger,
+} from "~/components/ui/dropdown-menu"
+import { EXPORT_FORMATS, type ChatExportFormat } from "~/lib/export/chat-export"
+
+export const EXPORT_FORMAT_OPTIONS = Object.entries(EXPORT_FORMATS) as [ChatExportFormat, (typeof EXPORT_FORMATS)[ChatExportFormat]][]
+
+export function getExportUrl(chatId: string, format: ChatExportFormat): string {
+  return `/api/chats/${chatId}/export?format=${format}`
+}
+
+/**
+ * Downloads the chat as Markdown, JSON (every branch, lossless) or a
+ * standalone HTML page.
+ */
+export function ExportChat({ chatId }: { chatId: string }) {
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" size="icon" className="h-9 w-9" aria-label="Export chat">
+          <Download className="size-4" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuLabel>Export as</DropdownMenuLabel>
+        {EXPORT_FORMAT_OPTIONS.map(([format, { label }]) => (
+          <DropdownMenuItem key={format} asChild>
+            <a href={getExportUrl(chatId, format)} download>
+              {label}
+            </a>
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
@@ -0,0 +1,92 @@
+import { useEffect, useState } from "react"
+import { ThumbsDown, ThumbsUp } from "lucide-react"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "~/components/ui/dialog"
+import { findLlmById } from "~/lib/ai/models.config"
+import type { ModelFeedback } from "~/lib/db/schema"
+
+type FeedbackReportDialogProps = {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+/**
+ * Votes of all users on replies, grouped by the model that wrote them, with
+ * the latest reasons given for downvotes. Admins only; others see the error.
+ */
+export function FeedbackReportDialog({ open, onOpenChange }: FeedbackReportDialogProps) {
+  const [report, setReport] = useState<ModelFeedback[] | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!open) return
+    const loadReport = async () => {
+      try {
+        const response = await fetch("/api/votes", { headers: { Accept: "application/json" } })
+        const data = await response.json()
+        if (!response.ok) throw new Error(data.error || `API Error: ${response.status}`)
+        setReport(data.report || [])
+        setError(null)
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to load feedback report")
+      }
+    }
+    loadReport()
+  }, [open])
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Model feedback</DialogTitle>
+          <DialogDescription>
+            How users rated the replies of each model.
+          </DialogDescription>
+        </DialogHeader>
+
+        {error && <p className="text-sm text-destructive">{error}</p>}
+
+        <ul className="max-h-[60vh] space-y-2 overflow-y-auto">
+          {report?.map(row => {
+            const total = row.upvotes + row.downvotes
+            return (
+              <li key={row.model} className="rounded-lg border p-3 text-sm">
+                <div className="flex items-center gap-3">
+                  <span className="flex-1 truncate font-medium">
+                    {row.model === "unknown" ? "Unknown model" : findLlmById(row.model)?.name ?? row.model}
+                  </span>
+                  <span className="flex items-center gap-1 text-green-600">
+                    <ThumbsUp className="size-3.5" />
+                    {row.upvotes}
+                  </span>
+                  <span className="flex items-center gap-1 text-red-600">
+                    <ThumbsDown className="size-3.5" />
+                    {row.downvotes}
+                  </span>
+                  <span className="w-12 text-right text-xs text-muted-foreground">
+                    {total > 0 ? `${Math.round((row.upvotes / total) * 100)}%` : "-"}
+                  </span>
+                </div>
+                {row.recent_reasons && row.recent_reasons.length > 0 && (
+                  <ul className="mt-2 space-y-1 border-l-2 pl-3 text-xs text-muted-foreground">
+                    {row.recent_reasons.map((reason, index) => (
+                      <li key={index} className="line-clamp-2">{reason}</li>
+                    ))}
+                  </ul>
+                )}
+              </li>
+            )
+          })}
+          {report?.length === 0 && (
+            <li className="py-6 text-center text-sm text-muted-foreground">No votes yet.</li>
+          )}
+        </ul>
+      </DialogContent>
+    </Dialog>
+  )
+}
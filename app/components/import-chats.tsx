@@ -0,0 +1,138 @@
+import { useEffect, useRef, useState } from "react"
+import { Link } from "@remix-run/react"
+import { AlertCircle, Loader2, MessageSquare, Upload } from "lucide-react"
+import { Button } from "~/components/ui/button"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "~/components/ui/dialog"
+import type { ImportIssue } from "~/lib/export/chat-import"
+
+type ImportReport = {
+  imported: { chatId: string; title: string; messages: number; skippedMessages: number; skippedAttachments: number }[]
+  skipped: ImportIssue[]
+}
+
+type ImportChatsDialogProps = {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+/**
+ * Imports conversations from a ChatGPT export (conversations.json) or from
+ * this app's JSON export, and reports what couldn't be imported.
+ */
+export function ImportChatsDialog({ open, onOpenChange }: ImportChatsDialogProps) {
+  const [report, setReport] = useState<ImportReport | null>(null)
+  const [importing, setImporting] = useState<string | null>(null) // Name of the file being imported
+  const [error, setError] = useState<string | null>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  useEffect(() => {
+    if (open) {
+      setReport(null)
+      setError(null)
+    }
+  }, [open])
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return
+    setImporting(file.name)
+    setError(null)
+    setReport(null)
+    try {
+      const formData = new FormData()
+      formData.append("file", file)
+      const response = await fetch("/api/chats/import", { method: "POST", body: formData })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || `API Error: ${response.status}`)
+      setReport(data)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : `Failed to import ${file.name}`)
+    } finally {
+      setImporting(null)
+      if (fileInputRef.current) fileInputRef.current.value = ""
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Import chats</DialogTitle>
+          <DialogDescription>
+            Upload conversations.json from a ChatGPT data export, or a JSON export from this app.
+            Chats keep their original dates; files aren&apos;t imported.
+          </DialogDescription>
+        </DialogHeader>
+
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".json,application/json"
+          className="hidden"
+          onChange={(e) => handleFile(e.target.files?.[0])}
+        />
+        <Button
+          variant="outline"
+          className="w-full"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={!!importing}
+        >
+          {importing ? <Loader2 className="size-4 animate-spin" /> : <Upload className="size-4" />}
+          {importing ? `Importing ${importing}...` : "Choose file"}
+        </Button>
+
+        {error && <p className="text-sm text-destructive">{error}</p>}
+
+        {report && (
+          <div className="max-h-[50vh] space-y-3 overflow-y-auto text-sm">
+            <p className="font-medium">
+              Imported {report.imported.length} {report.imported.length === 1 ? "chat" : "chats"}
+              {report.skipped.length > 0 && `, skipped ${report.skipped.length}`}.
+            </p>
+
+            {report.imported.length > 0 && (
+              <ul className="space-y-1">
+                {report.imported.map(chat => (
+                  <li key={chat.chatId} className="flex items-center gap-2 rounded-lg border p-2">
+                    <MessageSquare className="size-4 shrink-0" />
+                    <Link
+                      to={`/chat/${chat.chatId}`}
+                      className="flex-1 truncate hover:underline"
+                      onClick={() => onOpenChange(false)}
+                    >
+                      {chat.title}
+                    </Link>
+                    <span className="shrink-0 text-xs text-muted-foreground">
+                      {chat.messages} messages
+                      {chat.skippedMessages > 0 && `, ${chat.skippedMessages} unreadable`}
+                      {chat.skippedAttachments > 0 && `, ${chat.skippedAttachments} files left out`}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            {report.skipped.length > 0 && (
+              <ul className="space-y-1">
+                {report.skipped.map(issue => (
+                  <li key={issue.index} className="flex items-start gap-2 rounded-lg border border-destructive/40 p-2">
+                    <AlertCircle className="mt-0.5 size-4 shrink-0 text-destructive" />
+                    <span className="flex-1">
+                      <span className="font-medium">{issue.title || `Entry ${issue.index + 1}`}</span>
+                      <span className="text-muted-foreground"> - {issue.reason}</span>
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
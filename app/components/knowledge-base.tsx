@@ -0,0 +1,189 @@
+import { useEffect, useRef, useState } from "react"
+import { AlertCircle, FileText, Loader2, RotateCw, Trash2, Upload } from "lucide-react"
+import { Button } from "~/components/ui/button"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "~/components/ui/dialog"
+import type { KnowledgeDocument } from "~/lib/db/schema"
+
+type KnowledgeBaseDialogProps = {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+}
+
+/**
+ * Manages the user's knowledge base: documents whose passages are retrieved
+ * for every chat turn and cited in replies.
+ */
+export function KnowledgeBaseDialog({ open, onOpenChange }: KnowledgeBaseDialogProps) {
+  const [documents, setDocuments] = useState<KnowledgeDocument[]>([])
+  const [error, setError] = useState<string | null>(null)
+  const [uploading, setUploading] = useState<string[]>([]) // Names of files being indexed
+  const [busyId, setBusyId] = useState<string | null>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  useEffect(() => {
+    if (!open) return
+    const loadDocuments = async () => {
+      try {
+        const response = await fetch("/api/knowledge", { headers: { Accept: "application/json" } })
+        const data = await response.json()
+        if (!response.ok) throw new Error(data.error || `API Error: ${response.status}`)
+        setDocuments(data.documents || [])
+        setError(null)
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to load knowledge base")
+      }
+    }
+    loadDocuments()
+  }, [open])
+
+  const post = async (formData: FormData) => {
+    const response = await fetch("/api/knowledge", { method: "POST", body: formData })
+    const data = await response.json()
+    if (!response.ok) throw new Error(data.error || `API Error: ${response.status}`)
+    return data
+  }
+
+  const handleFiles = async (files: FileList | null) => {
+    if (!files || files.length === 0) return
+    setError(null)
+    // One at a time: each upload is extracted and embedded before the request returns
+    for (const file of Array.from(files)) {
+      setUploading(prev => [...prev, file.name])
+      try {
+        const formData = new FormData()
+        formData.append("intent", "upload")
+        formData.append("file", file)
+        const data = await post(formData)
+        setDocuments(prev => [data.document, ...prev])
+      } catch (err) {
+        setError(err instanceof Error ? err.message : `Failed to upload ${file.name}`)
+      } finally {
+        setUploading(prev => prev.filter(name => name !== file.name))
+      }
+    }
+    if (fileInputRef.current) fileInputRef.current.value = ""
+  }
+
+  const handleAction = async (document: KnowledgeDocument, intent: "reindex" | "delete") => {
+    if (intent === "delete" && !confirm(`Remove "${document.name}" from your knowledge base?`)) return
+    setBusyId(document.id)
+    setError(null)
+    try {
+      const formData = new FormData()
+      formData.append("intent", intent)
+      formData.append("documentId", document.id)
+      const data = await post(formData)
+      setDocuments(prev => intent === "delete"
+        ? prev.filter(d => d.id !== document.id)
+        : prev.map(d => (d.id === document.id ? data.document : d)))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Request failed")
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Knowledge base</DialogTitle>
+          <DialogDescription>
+            Relevant passages from these documents are added to your chats, and replies cite them.
+          </DialogDescription>
+        </DialogHeader>
+
+        <input
+          ref={fileInputRef}
+          type="file"
+          multiple
+          accept=".pdf,.doc,.docx,.pptx,.xlsx,.txt,.md,.csv"
+          className="hidden"
+          onChange={(e) => handleFiles(e.target.files)}
+        />
+        <Button
+          variant="outline"
+          className="w-full"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={uploading.length > 0}
+        >
+          <Upload className="size-4" />
+          Add documents
+        </Button>
+
+        {error && <p className="text-sm text-destructive">{error}</p>}
+
+        <ul className="max-h-[50vh] space-y-2 overflow-y-auto">
+          {uploading.map(name => (
+            <li key={`uploading-${name}`} className="flex items-center gap-3 rounded-lg border p-3 text-sm">
+              <Loader2 className="size-4 animate-spin" />
+              <span className="flex-1 truncate">{name}</span>
+              <span className="text-xs text-muted-foreground">Indexing...</span>
+            </li>
+          ))}
+          {documents.map(document => (
+            <li key={document.id} className="flex items-center gap-3 rounded-lg border p-3 text-sm">
+              {document.status === "failed"
+                ? <AlertCircle className="size-4 shrink-0 text-destructive" />
+                : <FileText className="size-4 shrink-0" />}
+              <div className="min-w-0 flex-1">
+                <a
+                  href={`/api/knowledge/${document.id}`}
+                  target="_blank"
+                  rel="noreferrer"
+                  className="block truncate hover:underline"
+                >
+                  {document.name}
+                </a>
+                <p className="truncate text-xs text-muted-foreground" title={document.error || undefined}>
+                  {document.status === "failed"
+                    ? document.error || "Indexing failed"
+                    : document.status === "processing"
+                      ? "Indexing..."
+                      : `${formatSize(document.size)} · ${document.chunk_count} passages`}
+                </p>
+              </div>
+              {document.status === "failed" && (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="size-8"
+                  aria-label={`Retry ${document.name}`}
+                  disabled={busyId === document.id}
+                  onClick={() => handleAction(document, "reindex")}
+                >
+                  <RotateCw className="size-4" />
+                </Button>
+              )}
+              <Button
+                variant="ghost"
+                size="icon"
+                className="size-8"
+                aria-label={`Remove ${document.name}`}
+                disabled={busyId === document.id}
+                onClick={() => handleAction(document, "delete")}
+              >
+                <Trash2 className="size-4" />
+              </Button>
+            </li>
+          ))}
+          {documents.length === 0 && uploading.length === 0 && !error && (
+            <li className="py-6 text-center text-sm text-muted-foreground">No documents yet.</li>
+          )}
+        </ul>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -1,29 +1,30 @@
-import { ChatRequestOptions, Message } from 'ai';
 import { Button } from './ui/button';
 import { Dispatch, SetStateAction, useEffect, useRef, useState } from 'react';
 import { Textarea } from './ui/textarea';
-import { UseChatHelpers } from '@ai-sdk/react';
+import { useChat } from '~/context/chat-context';
 
 export type MessageEditorProps = {
-  message: Message;
+  message: { id: string; content: string };
   setMode: Dispatch<SetStateAction<'view' | 'edit'>>;
-  setMessages: UseChatHelpers['setMessages'];
-  reload: UseChatHelpers['reload'];
 };
 
+/**
+ * Inline editor for a sent user message. Sending saves the edit as a new
+ * version of the message (the original and its replies stay on their own
+ * branch) and streams a fresh reply to it.
+ */
 export function MessageEditor({
   message,
   setMode,
-  setMessages,
-  reload,
 }: MessageEditorProps) {
-  const [isSubmitting, setIsSubmitting] = useState<boolean>(false);
+  const { editMessage, isLoading } = useChat();
   const [draftContent, setDraftContent] = useState<string>(message.content);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
 
   useEffect(() => {
     if (textareaRef.current) {
       adjustHeight();
+      textareaRef.current.focus();
     }
   }, []);
 
@@ -39,6 +40,23 @@ export function MessageEditor({
     adjustHeight();
   };
 
+  const canSend = !isLoading && !!draftContent.trim() && draftContent !== message.content;
+
+  const handleSend = () => {
+    if (!canSend) return;
+    setMode('view');
+    editMessage(message.id, draftContent);
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (event.key === 'Escape') {
+      setMode('view');
+    } else if (event.key === 'Enter' && !event.shiftKey) {
+      event.preventDefault();
+      handleSend();
+    }
+  };
+
   return (
     <div className="flex flex-col gap-2 w-full">
       <Textarea
@@ -47,6 +65,7 @@ export function MessageEditor({
         className="bg-transparent outline-none overflow-hidden resize-none !text-base rounded-xl w-full"
         value={draftContent}
         onChange={handleInput}
+        onKeyDown={handleKeyDown}
       />
 
       <div className="flex flex-row gap-2 justify-end">
@@ -63,67 +82,8 @@ export function MessageEditor({
           data-testid="message-editor-send-button"
           variant="default"
           className="h-fit py-2 px-3"
-          disabled={isSubmitting}
-          onClick={async () => {
-            setIsSubmitting(true);
-
-            setMessages((messages) => {
-              const index = messages.findIndex((m) => m.id === message.id);
-
-              if (index !== -1) {
-                const updatedMessage = {
-                  ...message,
-                  content: draftContent,
-                  parts: [{ type: 'text', text: draftContent }],
-                };
-
-                return [...messages.slice(0, index), updatedMessage];
-              }
-
-              return messages;
-            });
-
-            setMode('view');
-            reload();
-          }}
-        >
-          {isSubmitting ? 'Sending...' : 'Send'}
-        </Button>
-      </div>
-    </div>
-  );
-}
-
-import React from 'react';
-
-export function ChatSection({ messages, onSendMessage }: { messages: Message[]; onSendMessage: (content: string) => void }) {
-  const [inputValue, setInputValue] = useState<string>('');
-
-  return (
-    <div className="flex flex-col h-full border rounded-lg overflow-hidden">
-      {/* Chat Messages */}
-      <div className="flex-1 overflow-y-auto p-4">
-        {messages.map((message, index) => (
-          <div key={index} className="mb-2">
-            <div className="p-2 bg-gray-100 rounded-lg">{message.content}</div>
-          </div>
-        ))}
-      </div>
-
-      {/* Input Box */}
-      <div className="p-2 border-t">
-        <Textarea
-          value={inputValue}
-          onChange={(e) => setInputValue(e.target.value)}
-          placeholder="Type your message..."
-          className="w-full resize-none rounded-lg"
-        />
-        <Button
-          onClick={() => {
-            onSendMessage(inputValue);
-            setInputValue('');
-          }}
-          className="mt-2 w-full"
+          disabled={!canSend}
+          onClick={handleSend}
         >
           Send
         </Button>
@@ -131,24 +91,3 @@ export function ChatSection({ messages, onSendMessage }: { messages: Message[];
     </div>
   );
 }
-
-export function TwoChatSections() {
-  const [messages1, setMessages1] = useState<Message[]>([]);
-  const [messages2, setMessages2] = useState<Message[]>([]);
-
-  return (
-    <div className="flex gap-4">
-      {/* First Chat Section */}
-      <ChatSection
-        messages={messages1}
-        onSendMessage={(content) => setMessages1([...messages1, { id: Date.now().toString(), content }])}
-      />
-
-      {/* Second Chat Section */}
-      <ChatSection
-        messages={messages2}
-        onSendMessage={(content) => setMessages2([...messages2, { id: Date.now().toString(), content }])}
-      />
-    </div>
-  );
-}
\ No newline at end of file
@@ -6,12 +6,25 @@ import {
   MessageContent,
 } from "~/components/ui/message"
 import { Button } from "~/components/ui/button"
-import { Copy, RefreshCcw, ThumbsDown, ThumbsUp, Check, History, ChevronLeft, ChevronRight } from "lucide-react" // Added ChevronLeft, ChevronRight
-import { useState, useMemo } from "react"
+import { Copy, RefreshCcw, ThumbsDown, ThumbsUp, Check, ChevronDown, ChevronLeft, ChevronRight, Brain, Paperclip, FileText, Download, Pencil } from "lucide-react" // Added ChevronLeft, ChevronRight
+import { useEffect, useRef, useState } from "react"
+import { useSearchParams } from "@remix-run/react"
 import { useChat } from "~/context/chat-context"
 import { Markdown } from "~/components/markdown"
+import { MessageEditor } from "~/components/message-editor"
+import { Textarea } from "~/components/ui/textarea"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "~/components/ui/dropdown-menu"
+import { AVAILABLE_LLMS, findLlmById } from "~/lib/ai/models.config"
 import { MarkdownStream } from "~/components/ui/markdown-stream"
-// Removed Pagination imports as they are no longer used in the history block
+import { Reasoning, ReasoningContent, ReasoningTrigger } from "~/components/ui/reasoning"
+import type { Citation, MessageAttachment, MessageMetadata, Vote } from "~/lib/db/schema"
 import { cn } from "~/lib/utils";
 
 // Define a type for the message object
@@ -19,13 +32,230 @@ interface ChatMessageData {
   id: string;
   role: 'user' | 'assistant';
   content: string;
-  history?: string[]; // Define history as an array of strings
+  created_at?: string;
   isStreaming?: boolean;
   streamingContent?: string;
+  streamingReasoning?: string;
+  metadata?: MessageMetadata;
+  attachments?: ChatMessageAttachment[] | null;
+  vote?: Pick<Vote, 'vote' | 'reason'> | null;
+}
+
+// Attachments of a message still being sent carry a local preview instead of a stored path
+type ChatMessageAttachment = MessageAttachment & { previewUrl?: string };
+
+// Where a stored file is served from; shared chats use a route that works without signing in
+export type AttachmentUrl = (messageId: string, attachmentId: string) => string
+
+const ownAttachmentUrl: AttachmentUrl = (messageId, attachmentId) => `/api/attachments/${messageId}/${attachmentId}`
+
+type AttachmentProps = { messageId: string; attachmentUrl?: AttachmentUrl }
+
+function AttachmentList({ messageId, attachments, attachmentUrl = ownAttachmentUrl }: AttachmentProps & { attachments: ChatMessageAttachment[] }) {
+  return (
+    <div className="flex flex-wrap justify-end gap-2 max-w-[85%] ml-auto">
+      {attachments.map((attachment) => {
+        const url = attachment.previewUrl || attachmentUrl(messageId, attachment.id)
+        if (attachment.kind === "image") {
+          return (
+            <a key={attachment.id} href={url} target="_blank" rel="noreferrer">
+              <img
+                src={url}
+                alt={attachment.name}
+                className="h-32 max-w-[240px] rounded-xl border object-cover"
+              />
+            </a>
+          )
+        }
+        return (
+          <a
+            key={attachment.id}
+            href={attachment.previewUrl || `${url}?download=1`}
+            download={attachment.name}
+            className="bg-secondary flex items-center gap-2 rounded-lg px-3 py-2 text-sm hover:bg-secondary/80"
+          >
+            <Paperclip className="size-4" />
+            <span className="max-w-[160px] truncate">{attachment.name}</span>
+          </a>
+        )
+      })}
+    </div>
+  )
+}
+
+// Images generated in a reply, shown at full width with a download link
+function GeneratedImages({ messageId, images, attachmentUrl = ownAttachmentUrl }: AttachmentProps & { images: ChatMessageAttachment[] }) {
+  return (
+    <div className="flex flex-col gap-3">
+      {images.map((image) => {
+        const url = image.previewUrl || attachmentUrl(messageId, image.id)
+        return (
+          <figure key={image.id} className="group relative w-fit">
+            <img
+              src={url}
+              alt={image.name}
+              className="max-h-[512px] max-w-full rounded-xl border object-contain"
+            />
+            <a
+              href={image.previewUrl || `${url}?download=1`}
+              download={image.name}
+              className="bg-background/90 absolute right-2 top-2 flex items-center gap-1 rounded-md border px-2 py-1 text-xs opacity-0 shadow-sm transition-opacity group-hover:opacity-100 focus:opacity-100"
+            >
+              <Download className="size-3.5" />
+              Download
+            </a>
+          </figure>
+        )
+      })}
+    </div>
+  )
+}
+
+// Knowledge base passages a reply cites; PDFs open at the cited page.
+// Unlinked on shared chats, where the documents stay private to their owner.
+function SourceList({ citations, linked = true }: { citations: Citation[]; linked?: boolean }) {
+  return (
+    <div className="flex flex-col gap-1 px-1">
+      <span className="text-xs font-medium text-muted-foreground">Sources</span>
+      <ol className="flex flex-wrap gap-2">
+        {citations.map((citation) => {
+          const label = (
+            <>
+              <span className="font-medium">[{citation.index}]</span>
+              <FileText className="size-3.5" />
+              <span className="max-w-[200px] truncate">{citation.document_name}</span>
+              {citation.label && <span className="text-muted-foreground">{citation.label}</span>}
+            </>
+          )
+          return (
+            <li key={citation.index}>
+              {linked && citation.document_id ? (
+                <a
+                  href={`/api/knowledge/${citation.document_id}${citation.page ? `#page=${citation.page}` : ""}`}
+                  target="_blank"
+                  rel="noreferrer"
+                  title={citation.snippet}
+                  className="bg-secondary flex items-center gap-2 rounded-lg px-3 py-1.5 text-xs hover:bg-secondary/80"
+                >
+                  {label}
+                </a>
+              ) : (
+                <span title={citation.snippet} className="bg-secondary flex items-center gap-2 rounded-lg px-3 py-1.5 text-xs">
+                  {label}
+                </span>
+              )}
+            </li>
+          )
+        })}
+      </ol>
+    </div>
+  )
+}
+
+// Steps between the versions of a message (edited prompts, regenerated replies), like "2 / 3"
+function BranchSwitcher({ messageId, className }: { messageId: string; className?: string }) {
+  const { getSiblingIds, switchBranch, isLoading } = useChat()
+  const siblingIds = getSiblingIds(messageId)
+  const index = siblingIds.indexOf(messageId)
+  if (siblingIds.length < 2 || index < 0) return null
+
+  return (
+    <div className={cn("flex items-center gap-1 text-sm text-muted-foreground", className)}>
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-7 w-7 rounded-full"
+        aria-label="Previous version"
+        onClick={() => switchBranch(siblingIds[index - 1])}
+        disabled={isLoading || index === 0}
+      >
+        <ChevronLeft className="size-4" />
+      </Button>
+      <span className="tabular-nums">
+        {index + 1} / {siblingIds.length}
+      </span>
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-7 w-7 rounded-full"
+        aria-label="Next version"
+        onClick={() => switchBranch(siblingIds[index + 1])}
+        disabled={isLoading || index === siblingIds.length - 1}
+      >
+        <ChevronRight className="size-4" />
+      </Button>
+    </div>
+  )
+}
+
+// Which model wrote this version of a reply, when, and its token usage
+function AlternativeDetails({ message }: { message: ChatMessageData }) {
+  const modelId = message.metadata?.model
+  const usage = message.metadata?.usage
+  const modelName = modelId ? findLlmById(modelId)?.name ?? modelId : "Unknown model"
+  const createdAt = message.created_at ? new Date(message.created_at).toLocaleString() : null
+  const details = [
+    createdAt,
+    usage && `${usage.input_tokens} tokens in, ${usage.output_tokens} out${usage.estimated ? " (estimated)" : ""}`,
+  ].filter(Boolean).join(" · ")
+
+  return (
+    <span className="max-w-[200px] truncate text-xs text-muted-foreground" title={details || undefined}>
+      {modelName}
+    </span>
+  )
+}
+
+// Optional explanation asked for after a downvote
+function DownvoteReasonForm({ onSubmit, onSkip }: { onSubmit: (reason: string) => void; onSkip: () => void }) {
+  const [reason, setReason] = useState("")
+
+  return (
+    <div className="flex flex-col gap-2 rounded-lg border p-3">
+      <span className="text-sm text-muted-foreground">What was wrong with this answer? (optional)</span>
+      <Textarea
+        value={reason}
+        onChange={(e) => setReason(e.target.value)}
+        maxLength={1000}
+        rows={2}
+        className="resize-none text-sm"
+      />
+      <div className="flex justify-end gap-2">
+        <Button variant="ghost" size="sm" onClick={onSkip}>
+          Skip
+        </Button>
+        <Button size="sm" onClick={() => onSubmit(reason)} disabled={!reason.trim()}>
+          Send feedback
+        </Button>
+      </div>
+    </div>
+  )
 }
 
 export function MessageWithActions() {
-  const { messages } = useChat()
+  const { messages, getSiblingIds, switchBranch } = useChat()
+  const [searchParams] = useSearchParams()
+  const targetId = searchParams.get("message")
+  const [highlightedId, setHighlightedId] = useState<string | null>(null)
+  const jumpedTo = useRef<string | null>(null)
+
+  // Jump to the message a search result points at (?message=<id>), switching to its branch first if needed
+  useEffect(() => {
+    if (!targetId || jumpedTo.current === targetId) return
+    if (!messages.some(m => m.id === targetId)) {
+      if (getSiblingIds(targetId).length > 0) switchBranch(targetId)
+      return
+    }
+    jumpedTo.current = targetId
+    document.getElementById(`message-${targetId}`)?.scrollIntoView({ block: "center" })
+    setHighlightedId(targetId)
+  }, [targetId, messages, getSiblingIds, switchBranch])
+
+  useEffect(() => {
+    if (!highlightedId) return
+    const timer = setTimeout(() => setHighlightedId(null), 2000)
+    return () => clearTimeout(timer)
+  }, [highlightedId])
 
   if (messages.length === 0) {
     return (
@@ -41,36 +271,104 @@ export function MessageWithActions() {
   return (
     <div className="flex flex-col gap-8 pb-8">
       {messages.map((message) => (
-        <ChatMessage key={message.id} message={message} />
+        <div
+          key={message.id}
+          id={`message-${message.id}`}
+          className={cn("rounded-2xl transition-colors duration-500", highlightedId === message.id && "bg-muted/60")}
+        >
+          <ChatMessage message={message} />
+        </div>
       ))}
     </div>
   )
 }
 
+// A message on a shared chat page: no actions, nothing that needs the owner's session
+export function ReadOnlyMessage({ message, attachmentUrl }: { message: ChatMessageData; attachmentUrl: AttachmentUrl }) {
+  const [showReasoning, setShowReasoning] = useState(false)
+  const reasoning = message.metadata?.reasoning
+  const citations = message.metadata?.citations
+
+  if (message.role === 'user') {
+    return (
+      <Message align="right" className="w-full">
+        <div className="flex flex-col gap-2 w-full">
+          {message.attachments && message.attachments.length > 0 && (
+            <AttachmentList messageId={message.id} attachments={message.attachments} attachmentUrl={attachmentUrl} />
+          )}
+          {message.content && (
+            <MessageContent
+              variant="primary"
+              className="rounded-2xl px-5 py-3 ml-auto w-fit max-w-[85%] text-[15px]"
+            >
+              {message.content}
+            </MessageContent>
+          )}
+        </div>
+      </Message>
+    )
+  }
+
+  return (
+    <Message align="left" className="w-full">
+      <MessageAvatar
+        src="/avatars/ai.png"
+        alt="AI"
+        className="w-9 h-9 flex-shrink-0"
+      />
+      <div className="flex flex-col gap-3 w-[85%]">
+        {reasoning && (
+          <Reasoning open={showReasoning} onOpenChange={setShowReasoning} className="px-1">
+            <ReasoningTrigger className="text-sm">
+              <span className="flex items-center gap-2">
+                <Brain className="size-4" />
+                Show reasoning
+              </span>
+            </ReasoningTrigger>
+            <ReasoningContent>
+              <div className="mt-2 border-l-2 pl-4 text-sm text-muted-foreground">
+                <Markdown content={reasoning} />
+              </div>
+            </ReasoningContent>
+          </Reasoning>
+        )}
+
+        {(message.content || !message.attachments?.length) && (
+          <MessageContent className="text-[15px] leading-relaxed rounded-2xl px-5 py-3">
+            <Markdown content={message.content} />
+          </MessageContent>
+        )}
+
+        {message.attachments && message.attachments.length > 0 && (
+          <GeneratedImages
+            messageId={message.id}
+            images={message.attachments.filter(a => a.kind === "image")}
+            attachmentUrl={attachmentUrl}
+          />
+        )}
+
+        {citations && citations.length > 0 && <SourceList citations={citations} linked={false} />}
+      </div>
+    </Message>
+  )
+}
+
 // Use the defined type for the message prop
 export function ChatMessage({ message }: { message: ChatMessageData }) {
-  const [liked, setLiked] = useState<boolean | null>(null)
+  const [showReasonForm, setShowReasonForm] = useState(false)
   const [copied, setCopied] = useState(false)
-  const [showHistory, setShowHistory] = useState(false)
-  const history = useMemo(() => message.history || [], [message.history])
-  const [page, setPage] = useState(1) // Start page at 1
-  const itemsPerPage = 1
-  const { regenerateMessage } = useChat() as { regenerateMessage?: (id: string) => Promise<void> }
-
-  const totalPages = Math.ceil(history.length / itemsPerPage)
-  // Adjust page calculation to be 1-based for display, but 0-based for slicing
-  const currentPageIndex = page - 1;
-  const paginatedHistory = history.slice(currentPageIndex * itemsPerPage, (currentPageIndex + 1) * itemsPerPage)
+  const [showReasoning, setShowReasoning] = useState(false)
+  const [mode, setMode] = useState<'view' | 'edit'>('view')
+  const { regenerateMessage, getSiblingIds, voteMessage, isLoading } = useChat()
+  const vote = message.vote?.vote ?? null
+  const hasAlternatives = getSiblingIds(message.id).length > 1
   const mainContent = message.content
+  const reasoning = message.isStreaming ? message.streamingReasoning : message.metadata?.reasoning
+  // Thinking is shown while it streams, then collapsed behind the trigger
+  const isThinking = !!message.isStreaming && !message.streamingContent
 
-  const handleRegenerate = () => {
-    setPage(1) // Reset to first history item on regenerate
-    setShowHistory(false) // Hide history on regenerate
-    if (typeof regenerateMessage === "function") {
-      regenerateMessage(message.id)
-    } else {
-      console.error("regenerateMessage function not found in chat context")
-    }
+  const handleRegenerate = (modelId?: string) => {
+    regenerateMessage(message.id, modelId)
   }
 
   const handleCopy = () => {
@@ -80,31 +378,44 @@ export function ChatMessage({ message }: { message: ChatMessageData }) {
     setTimeout(() => setCopied(false), 2000)
   }
 
-  const handlePrevPage = () => {
-    setPage((prev) => Math.max(1, prev - 1));
-  };
-
-  const handleNextPage = () => {
-    setPage((prev) => Math.min(totalPages, prev + 1));
-  };
-
-  const toggleHistory = () => {
-    setShowHistory(v => !v);
-    // Optionally reset page to 1 when showing history
-    // if (!showHistory) {
-    //   setPage(1);
-    // }
-  }
-
   if (message.role === 'user') {
     return (
       <Message align="right" className="w-full">
-        <MessageContent
-          variant="primary"
-          className="rounded-2xl px-5 py-3 ml-auto w-fit max-w-[85%] text-[15px]"
-        >
-          {message.content}
-        </MessageContent>
+        <div className="flex flex-col gap-2 w-full">
+          {message.attachments && message.attachments.length > 0 && (
+            <AttachmentList messageId={message.id} attachments={message.attachments} />
+          )}
+          {mode === 'edit' ? (
+            <div className="ml-auto w-full max-w-[85%]">
+              <MessageEditor message={message} setMode={setMode} />
+            </div>
+          ) : (
+            <>
+              {message.content && (
+                <MessageContent
+                  variant="primary"
+                  className="rounded-2xl px-5 py-3 ml-auto w-fit max-w-[85%] text-[15px]"
+                >
+                  {message.content}
+                </MessageContent>
+              )}
+              <MessageActions className="ml-auto">
+                <BranchSwitcher messageId={message.id} />
+                <MessageAction tooltip="Edit message">
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8 rounded-full"
+                    onClick={() => setMode('edit')}
+                    disabled={isLoading}
+                  >
+                    <Pencil className="size-4" />
+                  </Button>
+                </MessageAction>
+              </MessageActions>
+            </>
+          )}
+        </div>
       </Message>
     )
   }
@@ -117,70 +428,61 @@ export function ChatMessage({ message }: { message: ChatMessageData }) {
         className="w-9 h-9 flex-shrink-0"
       />
       <div className="flex flex-col gap-3 w-[85%]">
-        <MessageContent
-          className="text-[15px] leading-relaxed rounded-2xl px-5 py-3"
-        >
-          {/* Display streaming content or main content */}
-          {message.isStreaming ? (
-            <MarkdownStream
-              textStream={message.streamingContent ?? ''}
-              mode="typewriter"
-              speed={30}
-              characterChunkSize={1}
-              onComplete={() => {}}
-              className="prose dark:prose-invert max-w-none"
-            />
-          ) : (
-            <Markdown content={mainContent} />
-          )}
-        </MessageContent>
-
-        {/* Show previous outputs history block with Carousel Controls */}
-        {history.length > 0 && showHistory && (
-          <div className="border rounded-lg p-3 bg-muted/40 mb-2">
-            <div className="font-semibold mb-2 flex items-center justify-between"> {/* Use justify-between */}
-              <div className="flex items-center gap-2"> {/* Group icon and text */}
-                 <History className="w-4 h-4" /> Previous Outputs
+        {/* Thinking trace of reasoning models, kept apart from the answer */}
+        {reasoning && (
+          <Reasoning
+            open={isThinking || showReasoning}
+            onOpenChange={setShowReasoning}
+            className="px-1"
+          >
+            <ReasoningTrigger className="text-sm">
+              <span className="flex items-center gap-2">
+                <Brain className="size-4" />
+                {isThinking ? "Thinking..." : "Show reasoning"}
+              </span>
+            </ReasoningTrigger>
+            <ReasoningContent>
+              <div className="mt-2 border-l-2 pl-4 text-sm text-muted-foreground">
+                <Markdown content={reasoning} />
               </div>
-               {/* Carousel Navigation */}
-               {totalPages > 1 && (
-                 <div className="flex items-center gap-1">
-                   <Button
-                     variant="ghost"
-                     size="icon"
-                     className="h-7 w-7 rounded-full" // Smaller buttons
-                     onClick={handlePrevPage}
-                     disabled={page === 1}
-                   >
-                     <ChevronLeft className="size-4" />
-                   </Button>
-                   <span className="text-sm font-medium text-muted-foreground">
-                     {page}/{totalPages}
-                   </span>
-                   <Button
-                     variant="ghost"
-                     size="icon"
-                     className="h-7 w-7 rounded-full" // Smaller buttons
-                     onClick={handleNextPage}
-                     disabled={page === totalPages}
-                   >
-                     <ChevronRight className="size-4" />
-                   </Button>
-                 </div>
-               )}
-            </div>
-            {/* Display only the current page's history item */}
-            {paginatedHistory.map((output, idx) => (
-              <div key={currentPageIndex * itemsPerPage + idx} className="mb-2"> {/* Ensure key is unique */}
-                <Markdown content={output} />
-              </div>
-            ))}
-            {/* Removed the old Pagination component */}
-          </div>
+            </ReasoningContent>
+          </Reasoning>
+        )}
+
+        {/* Image-only replies have no text to show */}
+        {(message.isStreaming || mainContent || !message.attachments?.length) && (
+          <MessageContent
+            className="text-[15px] leading-relaxed rounded-2xl px-5 py-3"
+          >
+            {/* Display streaming content or main content */}
+            {message.isStreaming ? (
+              <MarkdownStream
+                textStream={message.streamingContent ?? ''}
+                mode="typewriter"
+                speed={30}
+                characterChunkSize={1}
+                onComplete={() => {}}
+                className="prose dark:prose-invert max-w-none"
+              />
+            ) : (
+              <Markdown content={mainContent} />
+            )}
+          </MessageContent>
+        )}
+
+        {message.attachments && message.attachments.length > 0 && (
+          <GeneratedImages messageId={message.id} images={message.attachments.filter(a => a.kind === "image")} />
+        )}
+
+        {!message.isStreaming && message.metadata?.citations && message.metadata.citations.length > 0 && (
+          <SourceList citations={message.metadata.citations} />
         )}
 
         {/* Render message actions */}
         <MessageActions>
+          <BranchSwitcher messageId={message.id} />
+          {hasAlternatives && !message.isStreaming && <AlternativeDetails message={message} />}
+
           {/* Copy Button */}
           <MessageAction tooltip={copied ? "Copied!" : "Copy to clipboard"}>
             <Button
@@ -200,39 +502,49 @@ export function ChatMessage({ message }: { message: ChatMessageData }) {
               variant="ghost"
               size="icon"
               className="h-8 w-8 rounded-full"
-              onClick={handleRegenerate}
-              disabled={message.isStreaming}
+              onClick={() => handleRegenerate()}
+              disabled={message.isStreaming || isLoading}
             >
               <RefreshCcw className={`size-4 ${message.isStreaming ? "animate-spin" : ""}`} />
             </Button>
           </MessageAction>
 
-          {/* History Toggle Button (using History icon) */}
-          {history.length > 0 && (
-             <MessageAction tooltip={showHistory ? "Hide previous outputs" : "Show previous outputs"}>
-               <Button
-                 variant="ghost"
-                 size="icon" // Use icon size for consistency
-                 className={cn(
-                   "h-8 w-8 rounded-full",
-                   showHistory ? "bg-muted text-foreground" : "" // Highlight when active
-                 )}
-                 onClick={toggleHistory}
-                 disabled={message.isStreaming} // Optional: disable during streaming
-               >
-                 <History className="size-4" />
-               </Button>
-             </MessageAction>
-          )}
-          {/* Removed the clickable <page/total> indicator from actions */}
+          {/* Regenerate with another model; the answer is added as a new version */}
+          <DropdownMenu>
+            <MessageAction tooltip="Regenerate with a different model">
+              <DropdownMenuTrigger asChild>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-6 rounded-full"
+                  disabled={message.isStreaming || isLoading}
+                >
+                  <ChevronDown className="size-4" />
+                </Button>
+              </DropdownMenuTrigger>
+            </MessageAction>
+            <DropdownMenuContent align="start">
+              <DropdownMenuLabel>Regenerate with</DropdownMenuLabel>
+              <DropdownMenuSeparator />
+              {AVAILABLE_LLMS.map((llm) => (
+                <DropdownMenuItem key={llm.id} onSelect={() => handleRegenerate(llm.id)}>
+                  {llm.name}
+                  {llm.id === message.metadata?.model && <Check className="ml-auto size-4" />}
+                </DropdownMenuItem>
+              ))}
+            </DropdownMenuContent>
+          </DropdownMenu>
 
           {/* Like Button */}
           <MessageAction tooltip="Helpful">
             <Button
               variant="ghost"
               size="icon"
-              className={`h-8 w-8 rounded-full ${liked === true ? "bg-green-100 text-green-500" : ""}`}
-              onClick={() => setLiked(liked === true ? null : true)}
+              className={`h-8 w-8 rounded-full ${vote === "up" ? "bg-green-100 text-green-500" : ""}`}
+              onClick={() => {
+                setShowReasonForm(false)
+                voteMessage(message.id, vote === "up" ? null : "up")
+              }}
               disabled={message.isStreaming}
             >
               <ThumbsUp className="size-4" />
@@ -244,14 +556,28 @@ export function ChatMessage({ message }: { message: ChatMessageData }) {
             <Button
               variant="ghost"
               size="icon"
-              className={`h-8 w-8 rounded-full ${liked === false ? "bg-red-100 text-red-500" : ""}`}
-              onClick={() => setLiked(liked === false ? null : false)}
+              className={`h-8 w-8 rounded-full ${vote === "down" ? "bg-red-100 text-red-500" : ""}`}
+              onClick={() => {
+                // A downvote is saved right away; the reason form can add to it
+                setShowReasonForm(vote !== "down")
+                voteMessage(message.id, vote === "down" ? null : "down")
+              }}
               disabled={message.isStreaming}
             >
               <ThumbsDown className="size-4" />
             </Button>
           </MessageAction>
         </MessageActions>
+
+        {showReasonForm && (
+          <DownvoteReasonForm
+            onSubmit={(reason) => {
+              setShowReasonForm(false)
+              voteMessage(message.id, "down", reason)
+            }}
+            onSkip={() => setShowReasonForm(false)}
+          />
+        )}
       </div>
     </Message>
   )
@@ -0,0 +1,109 @@
+import { useEffect, useState } from "react"
+import { Check, Copy, Share2 } from "lucide-react"
+import { Button } from "~/components/ui/button"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "~/components/ui/dialog"
+import { Input } from "~/components/ui/input"
+import { useChatVisibility } from "~/hooks/use-chat-visibility"
+
+type ShareChatProps = {
+  chatId: string
+}
+
+/**
+ * Creates or revokes the public link of a chat. A shared chat can be read by
+ * anyone with the link at /share/:chatId, without signing in.
+ */
+export function ShareChat({ chatId }: ShareChatProps) {
+  const { visibilityType, setVisibilityType } = useChatVisibility({ chatId })
+  const [open, setOpen] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [copied, setCopied] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [shareUrl, setShareUrl] = useState("")
+
+  // window is only available in the browser
+  useEffect(() => {
+    setShareUrl(`${window.location.origin}/share/${chatId}`)
+  }, [chatId])
+
+  useEffect(() => {
+    if (open) {
+      setError(null)
+      setCopied(false)
+    }
+  }, [open])
+
+  const isShared = visibilityType === "public"
+
+  const changeVisibility = async (type: "private" | "public") => {
+    setSaving(true)
+    setError(null)
+    try {
+      await setVisibilityType(type)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to update sharing")
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const copyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(shareUrl)
+      setCopied(true)
+      setTimeout(() => setCopied(false), 2000)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to copy link")
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="icon" className="h-9 w-9" aria-label="Share chat">
+          <Share2 className="size-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Share chat</DialogTitle>
+          <DialogDescription>
+            {isShared
+              ? "Anyone with the link can read this conversation. Messages you send later are shared too."
+              : "Create a link that lets anyone read this conversation, without signing in."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isShared && (
+          <div className="flex items-center gap-2">
+            <Input readOnly value={shareUrl} onFocus={e => e.target.select()} aria-label="Share link" />
+            <Button variant="outline" size="icon" onClick={copyLink} aria-label="Copy link">
+              {copied ? <Check className="size-4" /> : <Copy className="size-4" />}
+            </Button>
+          </div>
+        )}
+
+        {error && <p className="text-sm text-destructive">{error}</p>}
+
+        <div className="flex justify-end gap-2">
+          {isShared ? (
+            <Button variant="destructive" disabled={saving} onClick={() => changeVisibility("private")}>
+              Revoke link
+            </Button>
+          ) : (
+            <Button disabled={saving} onClick={() => changeVisibility("public")}>
+              Create link
+            </Button>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -2,6 +2,7 @@ import type { User } from '~/types';
 import { useNavigate, Link, useParams } from '@remix-run/react';
 import { useEffect, useState } from 'react';
 
+import { ChatSearch } from '~/components/chat-search';
 import { NewChatIcon, SidebarLeftIcon } from '~/components/icons';
 import { SidebarHistory } from '~/components/sidebar/sidebar-history';
 import { SidebarUserNav } from '~/components/sidebar/sidebar-user-nav';
@@ -193,6 +194,9 @@ export function AppSidebar() {
                 )}
               </Link>
               <div className="flex items-center">
+                {user && showNewChatButton && (
+                  <ChatSearch onNavigate={() => setOpenMobile(false)} />
+                )}
                 {/* Conditionally render the New Chat button based on visibility state */}
                 {showNewChatButton && (
                   <Tooltip>
@@ -10,6 +10,8 @@ import { useIsMobile } from '~/hooks/use-mobile';
 import { useChatVisibility } from '~/hooks/use-chat-visibility';
 import { useSupabase } from '~/hooks/use-supabase';
 import { TrashIcon, PencilEditIcon, MoreHorizontalIcon } from '~/components/icons';
+import { EXPORT_FORMAT_OPTIONS, getExportUrl } from '~/components/export-menu';
+import { Download } from 'lucide-react';
 
 export function SidebarHistory({ user }: { user: User | undefined }) {
   const navigate = useNavigate();
@@ -575,6 +577,23 @@ export function SidebarHistory({ user }: { user: User | undefined }) {
                                     </span>
                                     Generate title
                                   </button>
+                                  {EXPORT_FORMAT_OPTIONS.map(([format, { label }]) => (
+                                    <a
+                                      key={format}
+                                      href={getExportUrl(chat.id, format)}
+                                      download
+                                      className="flex w-full items-center px-3 py-2 text-sm hover:bg-muted"
+                                      onClick={(e) => {
+                                        e.stopPropagation();
+                                        setOpenMenuId(null);
+                                      }}
+                                    >
+                                      <span className="mr-2">
+                                        <Download size={14} />
+                                      </span>
+                                      Export {label}
+                                    </a>
+                                  ))}
                                   <button
                                     className="flex w-full items-center px-3 py-2 text-sm text-red-500 hover:bg-muted"
                                     onClick={(e) => {
@@ -36,12 +36,18 @@ import {
   SelectValue,
 } from '~/components/ui/select';
 import { ModeToggle } from '~/components/mode-toggle';
+import { KnowledgeBaseDialog } from '~/components/knowledge-base';
+import { FeedbackReportDialog } from '~/components/feedback-report';
+import { ImportChatsDialog } from '~/components/import-chats';
 
 export function SidebarUserNav({ user }: { user: UserType }) {
   const { theme, setTheme } = useTheme();
   const { selectedModel, setSelectedModel } = useChat();
   const [profileOpen, setProfileOpen] = useState(false);
   const [settingsOpen, setSettingsOpen] = useState(false);
+  const [knowledgeOpen, setKnowledgeOpen] = useState(false);
+  const [feedbackOpen, setFeedbackOpen] = useState(false);
+  const [importOpen, setImportOpen] = useState(false);
   const [settingsTab, setSettingsTab] = useState('general');
   const [improveModel, setImproveModel] = useState(true);
   const [notifications, setNotifications] = useState(true);
@@ -122,6 +128,21 @@ export function SidebarUserNav({ user }: { user: UserType }) {
           >
             Settings
           </DropdownMenuItem>
+          <DropdownMenuItem
+            onSelect={e => { e.preventDefault(); setKnowledgeOpen(true); }}
+          >
+            Knowledge base
+          </DropdownMenuItem>
+          <DropdownMenuItem
+            onSelect={e => { e.preventDefault(); setFeedbackOpen(true); }}
+          >
+            Model feedback
+          </DropdownMenuItem>
+          <DropdownMenuItem
+            onSelect={e => { e.preventDefault(); setImportOpen(true); }}
+          >
+            Import chats
+          </DropdownMenuItem>
           
           <DropdownMenuSeparator />
           <DropdownMenuItem
@@ -135,6 +156,10 @@ export function SidebarUserNav({ user }: { user: UserType }) {
         </DropdownMenuContent>
       </DropdownMenu>
       
+      <KnowledgeBaseDialog open={knowledgeOpen} onOpenChange={setKnowledgeOpen} />
+      <FeedbackReportDialog open={feedbackOpen} onOpenChange={setFeedbackOpen} />
+      <ImportChatsDialog open={importOpen} onOpenChange={setImportOpen} />
+
       {/* Logout Confirmation Dialog */}
       <Dialog open={logoutConfirmOpen} onOpenChange={setLogoutConfirmOpen}>
         <DialogContent className="sm:max-w-[425px]">
@@ -9,7 +9,7 @@ import React, {
   useRef,
   useState,
 } from "react"
-import { Markdown } from "./markdown"
+import { UIMarkdown } from "./markdown"
 import { useTextStream, type Mode } from "./responsestream"
 
 type ReasoningContextType = {
@@ -189,7 +189,7 @@ function ReasoningResponse({
         opacity: isOpen ? 1 : 0,
       }}
     >
-      <Markdown>{displayedText}</Markdown>
+      <UIMarkdown>{displayedText}</UIMarkdown>
     </div>
   )
 }
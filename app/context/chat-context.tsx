@@ -1,8 +1,13 @@
-import { createContext, useContext, useEffect, useState, useRef } from "react"; // Import useRef
+import { createContext, useContext, useEffect, useMemo, useState, useRef } from "react"; // Import useRef
 import { useNavigate, useParams } from "@remix-run/react";
 import { v4 as uuidv4 } from "uuid";
 import { useSupabase } from "~/hooks/use-supabase";
-import { getDefaultLlm } from "~/lib/ai/models.config"; // Import default LLM getter
+import { findLlmById, getDefaultLlm } from "~/lib/ai/models.config"; // Import default LLM getter
+import { fitParamsToModel } from "~/lib/ai/params";
+import { readStreamEvents, type StreamedMessage } from "~/lib/ai/stream-events";
+import type { Citation, MessageAttachment, MessageMetadata, ModelParams, Vote } from "~/lib/db/schema";
+import { getAttachmentKind } from "~/lib/ai/attachments";
+import { findLatestLeaf, getActivePath, getSiblings } from "~/lib/db/message-tree";
 
 type Message = {
   id: string;
@@ -11,26 +16,37 @@ type Message = {
   content: string;
   created_at: string;
   user_id?: string;
+  parent_id?: string | null; // Message this one follows (see message-tree.ts)
   isStreaming?: boolean;
   streamingContent?: string;
-  history?: string[]; // Add history field
+  streamingReasoning?: string; // Thinking trace while it streams; lands in metadata.reasoning
+  metadata?: MessageMetadata;
+  model_params?: ModelParams | null;
+  attachments?: (MessageAttachment & { previewUrl?: string })[] | null; // previewUrl: local object or data URL until the chat is reloaded
+  vote?: Pick<Vote, "vote" | "reason"> | null; // The user's rating of a reply
 };
 
 type ChatContextType = {
-  messages: Message[];
+  messages: Message[]; // The branch being shown, oldest first
+  getSiblingIds: (messageId: string) => string[]; // Versions of a message (edits, regenerations), oldest first
+  switchBranch: (messageId: string) => void; // Show the branch through this message
   chatId: string;
   isLoading: boolean;
   selectedModel: string; // Holds the LlmConfig.id (e.g., 'gemini-1.5-flash')
   setSelectedModel: (modelId: string) => void; // Takes LlmConfig.id
-  sendMessage: (message: string, useStreaming?: boolean, overrideChatId?: string, isContinuation?: boolean) => Promise<void>;
-  createNewChat: () => Promise<string>;
+  sendMessage: (message: string, useStreaming?: boolean, overrideChatId?: string, isContinuation?: boolean, files?: File[]) => Promise<void>;
+  createNewChat: (assistantId?: string) => Promise<string>;
   error: string | null;
   updateStreamingContent: (messageId: string, content: string) => void;
-  finalizeStreamingMessage: (messageId: string, finalContent: string) => void;
-  regenerateMessage: (messageId: string) => Promise<void>;
+  finalizeStreamingMessage: (messageId: string, finalContent: string, reasoning?: string, citations?: Citation[]) => void;
+  regenerateMessage: (messageId: string, modelId?: string) => Promise<void>; // modelId: answer with another model than the selected one
+  editMessage: (messageId: string, content: string) => Promise<void>; // Saves the edit as a new version and streams a reply to it
+  voteMessage: (messageId: string, vote: Vote["vote"] | null, reason?: string) => Promise<void>; // null clears the vote
   stopGeneration: () => void; // Add stop function type
   inputDraft: string;
   setInputDraft: (draft: string) => void;
+  chatSettings: ModelParams; // Generation settings sent with every request in this chat
+  setChatSettings: (settings: ModelParams) => void;
 };
 
 const ChatContext = createContext<ChatContextType | undefined>(undefined);
@@ -41,11 +57,14 @@ export function ChatProvider({ children, initialModel }: { children: React.React
   const supabase = useSupabase();
   // Default to the first available LLM's ID if initialModel is not provided
   const [selectedModel, setSelectedModel] = useState<string>(initialModel || getDefaultLlm()?.id || '');
-  const [messages, setMessages] = useState<Message[]>([]);
+  const [allMessages, setMessages] = useState<Message[]>([]); // Every branch of the chat
+  const [activeLeafId, setActiveLeafId] = useState<string | null>(null);
+  const messages = useMemo(() => getActivePath(allMessages, activeLeafId), [allMessages, activeLeafId]);
   const [chatId, setChatId] = useState<string>("");
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [inputDraft, setInputDraft] = useState<string>("");
+  const [chatSettings, setChatSettings] = useState<ModelParams>({});
 
   const abortControllerRef = useRef<AbortController | null>(null); // Ref to hold the AbortController
 
@@ -57,6 +76,12 @@ export function ChatProvider({ children, initialModel }: { children: React.React
     }
   }, [initialModel]);
 
+  // A reply cap set for the previous model is lowered to what the newly selected one allows
+  useEffect(() => {
+    const llm = findLlmById(selectedModel);
+    if (llm) setChatSettings(prev => fitParamsToModel(prev, llm));
+  }, [selectedModel]);
+
   // Add this to track the current user
   const [user, setUser] = useState<{id: string} | null>(null);
   
@@ -87,17 +112,23 @@ export function ChatProvider({ children, initialModel }: { children: React.React
     try {
       const { data, error } = await supabase
         .from("messages")
-        .select("*") // Select all fields including potential history
+        .select("*, votes(vote, reason)") // Every branch; the active one is picked with active_leaf_id
         .eq("chat_id", id)
         .order("created_at", { ascending: true });
 
       if (error) throw error;
-      // Ensure history is always an array
-      const messagesWithHistory = (data || []).map(msg => ({
-        ...msg,
-        history: msg.history || []
-      }));
-      setMessages(messagesWithHistory);
+
+      // Restore the chat's generation settings (saved by /api/stream); a new chat keeps what was picked
+      const { data: chat } = await supabase
+        .from("chats")
+        .select("settings, active_leaf_id")
+        .eq("id", id)
+        .maybeSingle();
+      if (chat) setChatSettings(chat.settings || {});
+      setActiveLeafId(chat?.active_leaf_id ?? null);
+
+      // RLS only returns the user's own vote, so there is at most one per message
+      setMessages((data || []).map(({ votes, ...msg }) => ({ ...msg, vote: votes?.[0] ?? null })));
     } catch (err) {
       console.error("Error fetching messages:", err);
       setError("Failed to load messages");
@@ -117,18 +148,94 @@ export function ChatProvider({ children, initialModel }: { children: React.React
     );
   };
 
-  // Finalize a streaming message with its complete content
-  const finalizeStreamingMessage = (messageId: string, finalContent: string) => {
+  // Update the streamed thinking trace of a message by appending new content
+  const updateStreamingReasoning = (messageId: string, chunk: string) => {
+    setMessages(prev =>
+      prev.map(msg =>
+        msg.id === messageId
+          ? { ...msg, streamingReasoning: (msg.streamingReasoning || "") + chunk }
+          : msg
+      )
+    );
+  };
+
+  // Show a generated image as soon as it's stored; the data URL saves a round trip
+  const addStreamingImage = (messageId: string, attachment: MessageAttachment, data: string) => {
+    setMessages(prev =>
+      prev.map(msg =>
+        msg.id === messageId
+          ? { ...msg, attachments: [...(msg.attachments || []), { ...attachment, previewUrl: `data:${attachment.mime_type};base64,${data}` }] }
+          : msg
+      )
+    );
+  };
+
+  // Record what the server reports about a reply (model, token usage) as it streams
+  const mergeMessageMetadata = (messageId: string, patch: MessageMetadata) => {
+    setMessages(prev =>
+      prev.map(msg =>
+        msg.id === messageId ? { ...msg, metadata: { ...msg.metadata, ...patch } } : msg
+      )
+    );
+  };
+
+  // Finalize a streaming message with its complete content (and thinking trace and cited sources, if any)
+  const finalizeStreamingMessage = (messageId: string, finalContent: string, reasoning?: string, citations?: Citation[]) => {
     setMessages(prev =>
       prev.map(msg =>
         msg.id === messageId
-          ? { ...msg, content: finalContent, isStreaming: false, streamingContent: undefined }
+          ? {
+              ...msg,
+              content: finalContent,
+              isStreaming: false,
+              streamingContent: undefined,
+              streamingReasoning: undefined,
+              metadata: reasoning || citations?.length
+                ? { ...msg.metadata, ...(reasoning ? { reasoning } : {}), ...(citations?.length ? { citations } : {}) }
+                : msg.metadata,
+            }
           : msg
       )
     );
     setIsLoading(false);
   };
 
+  // Read /api/stream events into a streaming message. Throws if the server reports an error.
+  const readAssistantStream = async (response: Response, messageId: string, signal: AbortSignal) => {
+    if (!response.body) throw new Error("No response body");
+
+    let content = "";
+    let reasoning = "";
+    let completedMessage: StreamedMessage | null = null;
+    for await (const event of readStreamEvents(response.body, signal)) {
+      if (event.type === "delta") {
+        content += event.text;
+        updateStreamingContent(messageId, event.text);
+      } else if (event.type === "reasoning") {
+        reasoning += event.text;
+        updateStreamingReasoning(messageId, event.text);
+      } else if (event.type === "image") {
+        addStreamingImage(messageId, event.attachment, event.data);
+      } else if (event.type === "usage") {
+        mergeMessageMetadata(messageId, {
+          usage: { input_tokens: event.inputTokens, output_tokens: event.outputTokens, estimated: event.estimated },
+        });
+      } else if (event.type === "error") {
+        throw new Error(event.message);
+      } else if (event.type === "done") {
+        completedMessage = event.message;
+        mergeMessageMetadata(messageId, { model: event.message.model });
+      }
+    }
+
+    return {
+      content: completedMessage?.content ?? content,
+      reasoning: completedMessage?.reasoning ?? reasoning,
+      citations: completedMessage?.citations,
+      aborted: signal.aborted,
+    };
+  };
+
   // Function to trigger title summarization - improve this function
   const summarizeChatTitle = async (currentChatId: string) => {
     // Check if we have at least two messages (user + assistant)
@@ -168,9 +275,25 @@ export function ChatProvider({ children, initialModel }: { children: React.React
     }
   };
 
+  const getSiblingIds = (messageId: string) => getSiblings(allMessages, messageId).map(msg => msg.id);
+
+  // Show another version of a message, continuing where that branch was last left
+  const switchBranch = (messageId: string) => {
+    const leafId = findLatestLeaf(allMessages, messageId);
+    setActiveLeafId(leafId);
+    // Remember the branch so it's the one shown when the chat is opened again
+    supabase
+      .from("chats")
+      .update({ active_leaf_id: leafId })
+      .eq("id", chatId)
+      .then(({ error }) => {
+        if (error) console.error("Error saving active branch:", error);
+      });
+  };
+
   // Send a message to the AI
-  const sendMessage = async (content: string, useStreaming = true, overrideChatId?: string, isContinuation = false) => {
-    if (!content.trim()) return;
+  const sendMessage = async (content: string, useStreaming = true, overrideChatId?: string, isContinuation = false, files: File[] = []) => {
+    if (!content.trim() && files.length === 0) return;
     setIsLoading(true); 
     setError(null);
 
@@ -189,6 +312,8 @@ export function ChatProvider({ children, initialModel }: { children: React.React
     }
     
     const assistantMessageId = uuidv4(); // Define assistantMessageId here
+    // New turns continue the branch being shown
+    const parentId = messages[messages.length - 1]?.id ?? null;
 
     const { data: sessionData } = await supabase.auth.getSession();
     const userId = sessionData.session?.user.id;
@@ -198,9 +323,11 @@ export function ChatProvider({ children, initialModel }: { children: React.React
       return;
     }
     
-    // Skip adding/saving user message if this is a continuation of the first message
+    // Skip adding the user message if this is a continuation of the first message.
+    // /api/stream persists it (under this ID) before calling the model.
+    let userMessageId: string | null = null;
     if (!isContinuation) {
-      const userMessageId = uuidv4();
+      userMessageId = uuidv4();
       const userMessage: Message = {
         id: userMessageId,
         chat_id: currentChatId, 
@@ -208,21 +335,21 @@ export function ChatProvider({ children, initialModel }: { children: React.React
         content,
         created_at: new Date().toISOString(),
         user_id: userId,
+        parent_id: parentId,
+        ...(files.length > 0 ? {
+          attachments: files.map(file => ({
+            id: uuidv4(),
+            name: file.name,
+            mime_type: file.type,
+            size: file.size,
+            kind: getAttachmentKind(file.type),
+            path: "",
+            previewUrl: URL.createObjectURL(file),
+          })),
+        } : {}),
       };
       setMessages((prev) => [...prev, userMessage]);
-
-      try {
-        console.log("Saving user message to database:", userMessage);
-        const { error: userMsgError } = await supabase
-          .from("messages")
-          .insert(userMessage); 
-
-        if (userMsgError) {
-          console.error("Error saving user message:", userMsgError);
-        }
-      } catch (err) {
-        console.error("Exception saving user message:", err);
-      }
+      setActiveLeafId(userMessageId);
     }
     
     const messagesForThisChat = messages.filter(m => m.chat_id === currentChatId);
@@ -241,15 +368,22 @@ export function ChatProvider({ children, initialModel }: { children: React.React
           content: "",
           created_at: new Date().toISOString(),
           user_id: userId, 
+          parent_id: userMessageId ?? parentId,
           isStreaming: true,
-          streamingContent: ""
+          streamingContent: "",
+          streamingReasoning: ""
         };
         setMessages(prev => [...prev, assistantMessage]);
+        setActiveLeafId(assistantMessageId);
 
         const formData = new FormData();
         formData.append("chatId", currentChatId); 
         formData.append("message", content); 
         formData.append("model", selectedModel);
+        formData.append("assistantMessageId", assistantMessageId);
+        formData.append("params", JSON.stringify(chatSettings));
+        if (userMessageId) formData.append("userMessageId", userMessageId);
+        files.forEach(file => formData.append("attachments", file));
 
         console.log(
           `sendMessage to /api/stream: chatId=${currentChatId}, model=${selectedModel}, isContinuation=${isContinuation}, content="${content}"`
@@ -263,92 +397,29 @@ export function ChatProvider({ children, initialModel }: { children: React.React
 
         if (!response.ok) {
             console.error(`sendMessage error: API response not OK - ${response.status} ${response.statusText}`);
+            let errorMessage = `Failed to send message. Status: ${response.status}`;
             try {
                 const errorText = await response.text();
                 console.error("API error response text:", errorText);
+                // Validation errors (e.g. an attachment the model can't read) are worth showing as-is
+                const parsed = JSON.parse(errorText);
+                if (response.status === 400 && parsed?.error) errorMessage = parsed.error;
             } catch (e) {
                 console.error("Could not get error text from API response.");
             }
-            throw new Error(`Failed to send message. Status: ${response.status}`);
+            throw new Error(errorMessage);
         }
-        if (!response.body) throw new Error("No response body");
-
         // Process the streaming response
-        const reader = response.body.getReader();
-        const decoder = new TextDecoder();
-        let streamedContent = "";
-        let messageData = null;
-        let completeMarkerIndex = -1;
-
-        while (true) {
-          const { done, value } = await reader.read();
-          // Check if aborted *before* processing chunk
-          if (controller.signal.aborted) {
-              console.log("Stream reading aborted.");
-              // Finalize with potentially partial content
-              finalizeStreamingMessage(assistantMessageId, streamedContent);
-              // Don't save partial message to DB on abort? Or save with a flag?
-              // For now, just finalize UI and stop.
-              setIsLoading(false); // Ensure loading is false
-              return; // Exit the loop and function
-          }
-
-          if (done) break;
-
-          const chunk = decoder.decode(value, { stream: true });
-          streamedContent += chunk; 
-
-          completeMarkerIndex = streamedContent.indexOf("\n\n__STREAM_COMPLETE__\n\n");
-
-          if (completeMarkerIndex !== -1) {
-            const jsonData = streamedContent.substring(completeMarkerIndex + 23);
-            try {
-              messageData = JSON.parse(jsonData);
-              streamedContent = streamedContent.substring(0, completeMarkerIndex);
-            } catch (e) {
-              console.error("Error parsing message data:", e);
-            }
-            break;
-          }
-
-          if (completeMarkerIndex === -1) {
-            updateStreamingContent(assistantMessageId, chunk);
-          }
+        const { content: finalContent, reasoning, citations, aborted } = await readAssistantStream(response, assistantMessageId, controller.signal);
+        if (aborted) {
+          console.log("Stream reading aborted.");
+          // Finalize with potentially partial content; the server saves what was streamed
+          finalizeStreamingMessage(assistantMessageId, finalContent, reasoning, citations);
+          return;
         }
-
-        // If loop finishes normally (not aborted)
         abortControllerRef.current = null; // Clear controller ref
 
-        const finalContent = completeMarkerIndex !== -1 
-          ? streamedContent.substring(0, completeMarkerIndex) 
-          : streamedContent;
-
-        // Save assistant message to database (only if not aborted)
-        try {
-          console.log("Saving assistant message to database");
-          const { error: assistantMsgError } = await supabase
-            .from("messages")
-            .insert({
-              id: assistantMessageId,
-              chat_id: currentChatId, // Use currentChatId
-              user_id: userId,
-              role: "assistant",
-              content: finalContent,
-              created_at: assistantMessage.created_at
-            });
-
-          if (assistantMsgError) {
-            console.error("Error saving assistant message:", assistantMsgError);
-          }
-        } catch (err) {
-          console.error("Exception saving assistant message:", err);
-        }
-
-        if (messageData) {
-          finalizeStreamingMessage(assistantMessageId, messageData.content); 
-        } else {
-          finalizeStreamingMessage(assistantMessageId, finalContent);
-        }
+        finalizeStreamingMessage(assistantMessageId, finalContent, reasoning, citations);
 
         // Always trigger title summarization after the first exchange
         if (shouldTriggerTitleSummarization) {
@@ -370,15 +441,17 @@ export function ChatProvider({ children, initialModel }: { children: React.React
         console.error("Error sending message:", err);
         setError(err.message || "Failed to send message");
         // Clear placeholder on error using the ID defined outside the try block
-        setMessages(prev => prev.filter(msg => msg.id !== assistantMessageId && msg.role === 'assistant')); 
+        setMessages(prev => prev.filter(msg => msg.id !== assistantMessageId));
+        setActiveLeafId(userMessageId ?? parentId);
       }
       setIsLoading(false); 
       abortControllerRef.current = null; 
     }
   };
 
-  // Regenerate an assistant message
-  const regenerateMessage = async (messageId: string) => {
+  // Regenerate an assistant message, optionally with another model. The new reply is added
+  // next to the old one as another branch; the server rebuilds the context from the stored chat.
+  const regenerateMessage = async (messageId: string, modelId?: string) => {
     setIsLoading(true); // Set loading true
     setError(null);
 
@@ -390,17 +463,12 @@ export function ChatProvider({ children, initialModel }: { children: React.React
     const controller = new AbortController();
     abortControllerRef.current = controller;
 
-    const messageIndex = messages.findIndex(msg => msg.id === messageId);
-    if (messageIndex <= 0) {
-      setError("Cannot regenerate the first message or a user message.");
-      setIsLoading(false);
-      return;
-    }
-
-    const messageToRegenerate = messages[messageIndex];
-    const userMessage = messages[messageIndex - 1];
+    const messageToRegenerate = messages.find(msg => msg.id === messageId);
+    const userMessage = messageToRegenerate?.parent_id
+      ? messages.find(msg => msg.id === messageToRegenerate.parent_id)
+      : undefined;
 
-    if (messageToRegenerate.role !== 'assistant' || userMessage.role !== 'user') {
+    if (messageToRegenerate?.role !== 'assistant' || userMessage?.role !== 'user') {
       setError("Regeneration requires an assistant message preceded by a user message.");
       setIsLoading(false);
       return;
@@ -415,30 +483,34 @@ export function ChatProvider({ children, initialModel }: { children: React.React
       return;
     }
 
-    // 1. Update state to start streaming and add current content to history
-    const currentContent = messageToRegenerate.content;
-    const newHistory = [currentContent, ...(messageToRegenerate.history || [])];
-
-    setMessages(prevMessages =>
-      prevMessages.map(msg =>
-        msg.id === messageId
-          ? {
-              ...msg,
-              history: newHistory,
-              isStreaming: true,
-              streamingContent: '',
-              content: '', // Clear old content
-            }
-          : msg
-      )
-    );
+    // 1. Add the new reply as a sibling of the old one and show its branch
+    const previousLeafId = messages[messages.length - 1]?.id ?? null;
+    const newMessageId = uuidv4();
+    const model = modelId || selectedModel;
+    setMessages(prev => [...prev, {
+      id: newMessageId,
+      chat_id: chatId,
+      role: "assistant",
+      content: "",
+      created_at: new Date().toISOString(),
+      user_id: userId,
+      parent_id: userMessage.id,
+      metadata: { model },
+      isStreaming: true,
+      streamingContent: "",
+      streamingReasoning: "",
+    }]);
+    setActiveLeafId(newMessageId);
 
     try {
       // 2. Call the streaming API with signal
       const formData = new FormData();
       formData.append("chatId", chatId);
-      formData.append("message", userMessage.content); 
-      formData.append("model", selectedModel); 
+      formData.append("model", model); 
+      formData.append("regenerateMessageId", messageId); // Server builds context from the turns before this message
+      formData.append("assistantMessageId", newMessageId);
+      // The settings panel applies to the selected model; another model uses the chat's saved settings as far as they fit
+      if (model === selectedModel) formData.append("params", JSON.stringify(chatSettings));
 
       const response = await fetch("/api/stream", {
         method: "POST",
@@ -447,115 +519,170 @@ export function ChatProvider({ children, initialModel }: { children: React.React
       });
 
       if (!response.ok) throw new Error(`API request failed with status ${response.status}`);
-      if (!response.body) throw new Error("No response body");
-
       // 3. Process the stream
-      const reader = response.body.getReader();
-      const decoder = new TextDecoder();
-      let streamedContent = "";
-      let messageData = null;
-      let completeMarkerIndex = -1;
-
-      while (true) {
-        const { done, value } = await reader.read();
-         // Check if aborted *before* processing chunk
-         if (controller.signal.aborted) {
-            console.log("Regeneration stream reading aborted.");
-            // Finalize with potentially partial content
-            finalizeStreamingMessage(messageId, streamedContent);
-            setIsLoading(false); // Ensure loading is false
-            return; // Exit the loop and function
-        }
-        if (done) break;
-
-        const chunk = decoder.decode(value, { stream: true });
-        streamedContent += chunk;
-
-        completeMarkerIndex = streamedContent.indexOf("\n\n__STREAM_COMPLETE__\n\n");
-
-        if (completeMarkerIndex !== -1) {
-          const jsonData = streamedContent.substring(completeMarkerIndex + 23);
-          try {
-            messageData = JSON.parse(jsonData);
-            streamedContent = streamedContent.substring(0, completeMarkerIndex);
-          } catch (e) {
-            console.error("Error parsing message data:", e);
-            // Continue processing the text part even if JSON fails
-          }
-          break; // Exit loop once marker is found
-        }
-
-        // Update streaming content in state for the specific message
-        if (completeMarkerIndex === -1) {
-           updateStreamingContent(messageId, chunk);
-        }
+      const { content: finalContent, reasoning, citations, aborted } = await readAssistantStream(response, newMessageId, controller.signal);
+      if (aborted) {
+        console.log("Regeneration stream reading aborted.");
+        // Finalize with potentially partial content
+        finalizeStreamingMessage(newMessageId, finalContent, reasoning, citations);
+        return;
       }
-
-      // If loop finishes normally (not aborted)
       abortControllerRef.current = null; // Clear controller ref
 
-      const finalContent = completeMarkerIndex !== -1
-        ? streamedContent.substring(0, completeMarkerIndex)
-        : streamedContent;
-
-      // 4. Save the regenerated message to the database (only if not aborted)
-      try {
-        console.log("Updating regenerated message in database:", messageId, "with history:", newHistory); // Added logging
-        const { data: updateData, error: updateMsgError } = await supabase // Capture data too
-          .from("messages")
-          .update({
-            content: finalContent,
-            history: newHistory, // Save the updated history
-            updated_at: new Date().toISOString() // Update timestamp
-          })
-          .eq('id', messageId)
-          .eq('user_id', userId) // Ensure user owns the message
-          .select(); // Select the updated row to confirm
-
-        if (updateMsgError) {
-          console.error("Error updating regenerated message:", updateMsgError);
-          // Don't throw here, just log, UI state is already updated optimistically
-        } else {
-          console.log("Successfully updated message in DB:", updateData); // Log success
-        }
-      } catch (err) {
-        console.error("Exception updating regenerated message:", err);
-      }
-
-      // 5. Finalize the message state in the UI
-      finalizeStreamingMessage(messageId, finalContent);
+      // 4. Finalize the message state in the UI (the server already stored it)
+      finalizeStreamingMessage(newMessageId, finalContent, reasoning, citations);
 
     } catch (err: any) {
        // Handle AbortError specifically
        if (err.name === 'AbortError') {
         console.log("Regeneration fetch aborted by user.");
-        // Revert UI state on abort? Or keep partial?
-        // For now, keep partial content shown by finalizeStreamingMessage called in the loop.
+        // Keep the partial content shown by finalizeStreamingMessage called in the loop.
       } else {
         console.error("Error regenerating message:", err);
         setError(err.message || "Failed to regenerate message");
-        // Revert UI state on other errors
-        setMessages(prevMessages =>
-          prevMessages.map(msg =>
-            msg.id === messageId
-              ? {
-                  ...msg,
-                  isStreaming: false,
-                  content: currentContent, // Revert to original content
-                  history: messageToRegenerate.history || [], // Revert history
-                  streamingContent: undefined,
-                }
-              : msg
-          )
-        );
+        // Drop the new branch and go back to the one shown before
+        setMessages(prev => prev.filter(msg => msg.id !== newMessageId));
+        setActiveLeafId(previousLeafId);
       }
       setIsLoading(false); // Ensure loading is false on any error
       abortControllerRef.current = null; // Clear controller ref on error too
     }
   };
 
+  // Edit a user message. The edit is added next to the original as another branch and answered afresh.
+  const editMessage = async (messageId: string, content: string) => {
+    if (!content.trim()) return;
+    setIsLoading(true);
+    setError(null);
+
+    if (abortControllerRef.current) {
+        abortControllerRef.current.abort();
+    }
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+
+    const editedMessage = messages.find(msg => msg.id === messageId);
+    if (editedMessage?.role !== 'user') {
+      setError("Only your own messages can be edited.");
+      setIsLoading(false);
+      return;
+    }
+
+    const { data: sessionData } = await supabase.auth.getSession();
+    const userId = sessionData.session?.user.id;
+    if (!userId) {
+      setError("You must be logged in to edit messages");
+      setIsLoading(false);
+      return;
+    }
+
+    // 1. Show the edit and a streaming reply on a new branch; the original keeps its files
+    const previousLeafId = messages[messages.length - 1]?.id ?? null;
+    const userMessageId = uuidv4();
+    const assistantMessageId = uuidv4();
+    const createdAt = new Date().toISOString();
+    setMessages(prev => [
+      ...prev,
+      {
+        id: userMessageId,
+        chat_id: chatId,
+        role: "user",
+        content,
+        created_at: createdAt,
+        user_id: userId,
+        parent_id: editedMessage.parent_id ?? null,
+        attachments: editedMessage.attachments,
+      },
+      {
+        id: assistantMessageId,
+        chat_id: chatId,
+        role: "assistant",
+        content: "",
+        created_at: createdAt,
+        user_id: userId,
+        parent_id: userMessageId,
+        isStreaming: true,
+        streamingContent: "",
+        streamingReasoning: "",
+      },
+    ]);
+    setActiveLeafId(assistantMessageId);
+
+    let editSaved = false;
+    try {
+      // 2. Stream the reply; the server saves the edit before calling the model
+      const formData = new FormData();
+      formData.append("chatId", chatId);
+      formData.append("message", content);
+      formData.append("model", selectedModel);
+      formData.append("editMessageId", messageId);
+      formData.append("userMessageId", userMessageId);
+      formData.append("assistantMessageId", assistantMessageId);
+      formData.append("params", JSON.stringify(chatSettings));
+
+      const response = await fetch("/api/stream", {
+        method: "POST",
+        body: formData,
+        signal: controller.signal,
+      });
+
+      if (!response.ok) {
+        let errorMessage = `Failed to edit message. Status: ${response.status}`;
+        try {
+          const parsed = await response.json();
+          if (response.status === 400 && parsed?.error) errorMessage = parsed.error;
+        } catch {
+          console.error("Could not get error text from API response.");
+        }
+        throw new Error(errorMessage);
+      }
+      editSaved = true;
+
+      // 3. Process the stream
+      const { content: finalContent, reasoning, citations, aborted } = await readAssistantStream(response, assistantMessageId, controller.signal);
+      if (!aborted) abortControllerRef.current = null;
+      finalizeStreamingMessage(assistantMessageId, finalContent, reasoning, citations);
+    } catch (err: any) {
+      if (err.name === 'AbortError') {
+        console.log("Edit fetch aborted by user.");
+      } else {
+        console.error("Error editing message:", err);
+        setError(err.message || "Failed to edit message");
+        // Keep the edit if the server stored it, like a sent message whose reply failed
+        setMessages(prev => prev.filter(msg => msg.id !== assistantMessageId && (editSaved || msg.id !== userMessageId)));
+        setActiveLeafId(editSaved ? userMessageId : previousLeafId);
+      }
+      setIsLoading(false);
+      abortControllerRef.current = null;
+    }
+  };
+
+  // Rate a reply. The change shows immediately and is rolled back if it can't be saved.
+  const voteMessage = async (messageId: string, vote: Vote["vote"] | null, reason?: string) => {
+    const previousVote = allMessages.find(msg => msg.id === messageId)?.vote ?? null;
+    const setVote = (value: Message["vote"]) =>
+      setMessages(prev => prev.map(msg => (msg.id === messageId ? { ...msg, vote: value } : msg)));
+    setVote(vote ? { vote, reason: reason ?? null } : null);
+
+    try {
+      const formData = new FormData();
+      formData.append("messageId", messageId);
+      formData.append("vote", vote ?? "");
+      if (reason) formData.append("reason", reason);
+      const response = await fetch("/api/votes", { method: "POST", body: formData });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || `API Error: ${response.status}`);
+      setVote(data.vote);
+    } catch (err) {
+      console.error("Error saving vote:", err);
+      setError(err instanceof Error ? err.message : "Failed to save vote");
+      setVote(previousVote);
+    }
+  };
+
   // Create a new chat and reset messages
-  const createNewChat = async (): Promise<string> => {
+  // Starting from an assistant copies its prompt and settings onto the chat server-side
+  const createNewChat = async (assistantId?: string): Promise<string> => {
     setIsLoading(true);
     setError(null);
     console.log("Attempting to create a new chat via API...");
@@ -563,6 +690,7 @@ export function ChatProvider({ children, initialModel }: { children: React.React
     try {
       const formData = new FormData();
       formData.append('intent', 'create-chat');
+      if (assistantId) formData.append('assistantId', assistantId);
   
       const response = await fetch('/api/ai/chat', { // This API endpoint seems different from /api/stream
         method: 'POST',
@@ -583,6 +711,7 @@ export function ChatProvider({ children, initialModel }: { children: React.React
       console.log("New chat created via API, ID:", newIdFromApi);
       setChatId(newIdFromApi); // Update context state with the ID from the backend
       setMessages([]); 
+      setActiveLeafId(null);
       setInputDraft(""); 
       setIsLoading(false);
       return newIdFromApi; 
@@ -600,6 +729,8 @@ export function ChatProvider({ children, initialModel }: { children: React.React
     <ChatContext.Provider
       value={{
         messages,
+        getSiblingIds,
+        switchBranch,
         chatId,
         isLoading,
         selectedModel,
@@ -610,9 +741,13 @@ export function ChatProvider({ children, initialModel }: { children: React.React
         updateStreamingContent,
         finalizeStreamingMessage,
         regenerateMessage,
+        editMessage,
+        voteMessage,
         stopGeneration,
         inputDraft,
         setInputDraft,
+        chatSettings,
+        setChatSettings,
       }}
     >
       {children}
@@ -45,6 +45,27 @@ export function useChatVisibility(paramsOrUserId?: ChatVisibilityParams | string
     }
   }, [paramsOrUserId, supabase]);
 
+  const chatId = typeof paramsOrUserId === 'object' ? paramsOrUserId?.chatId : undefined;
+
+  useEffect(() => {
+    // If chatId is provided, fetch whether the chat is currently shared
+    if (chatId) {
+      const fetchVisibilityType = async () => {
+        const { data, error } = await supabase
+          .from('chats')
+          .select('visibility')
+          .eq('id', chatId)
+          .maybeSingle();
+
+        if (!error && data) {
+          setVisibilityTypeState(data.visibility);
+        }
+      };
+
+      fetchVisibilityType();
+    }
+  }, [chatId, supabase]);
+
   const setChatVisibility = async (value: boolean) => {
     if (typeof paramsOrUserId === 'string' && paramsOrUserId) {
       setChatVisibilityState(value);
@@ -65,7 +86,8 @@ export function useChatVisibility(paramsOrUserId?: ChatVisibilityParams | string
   };
 
   const setVisibilityType = async (type: VisibilityType) => {
-    if (typeof paramsOrUserId === 'object' && paramsOrUserId?.chatId) {
+    if (chatId) {
+      const previousType = visibilityType;
       setVisibilityTypeState(type);
       
       // Update in database
@@ -75,10 +97,12 @@ export function useChatVisibility(paramsOrUserId?: ChatVisibilityParams | string
           visibility: type,
           updated_at: new Date().toISOString()
         })
-        .eq('id', paramsOrUserId.chatId);
+        .eq('id', chatId);
       
       if (error) {
         console.error('Error updating chat visibility type:', error);
+        setVisibilityTypeState(previousType);
+        throw new Error(error.message);
       }
     }
   };
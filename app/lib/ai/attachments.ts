@@ -0,0 +1,129 @@
+import type { AttachmentKind } from '~/lib/db/schema';
+import type { LlmConfig } from './models.config';
+
+/**
+ * Upload limits for message attachments. Gemini caps a request's inline data
+ * at 20 MB, which five 4 MB files stay under; the per-file cap leaves room
+ * for base64 overhead.
+ */
+export const ATTACHMENT_LIMITS = {
+  maxFiles: 5,
+  maxFileBytes: 4 * 1024 * 1024,
+};
+
+// Document types the models take as raw bytes; anything else needs text extraction
+const INLINE_DOCUMENT_TYPES = ['application/pdf', 'text/plain'];
+
+/**
+ * Document formats whose text can be extracted server-side (see extract.server.ts).
+ */
+export type DocumentFormat = 'pdf' | 'docx' | 'doc' | 'pptx' | 'xlsx' | 'text';
+
+const DOCUMENT_FORMATS_BY_EXTENSION: Record<string, DocumentFormat> = {
+  pdf: 'pdf',
+  docx: 'docx',
+  doc: 'doc',
+  pptx: 'pptx',
+  xlsx: 'xlsx',
+  txt: 'text',
+  md: 'text',
+  csv: 'text',
+};
+
+// Legacy binary Office formats without a reader; users can re-save them in the newer format
+const LEGACY_OFFICE_EXTENSIONS: Record<string, string> = {
+  ppt: '.pptx',
+  xls: '.xlsx',
+};
+
+function getExtension(fileName: string): string {
+  const dot = fileName.lastIndexOf('.');
+  return dot >= 0 ? fileName.slice(dot + 1).toLowerCase() : '';
+}
+
+/**
+ * Works out which extractor reads a document. Browsers often leave the MIME
+ * type of Office files empty, so the extension decides first.
+ * @returns The format, or null when its text can't be extracted.
+ */
+export function getDocumentFormat(fileName: string, mimeType: string): DocumentFormat | null {
+  const byExtension = DOCUMENT_FORMATS_BY_EXTENSION[getExtension(fileName)];
+  if (byExtension) return byExtension;
+  if (mimeType === 'application/pdf') return 'pdf';
+  if (mimeType.startsWith('text/')) return 'text';
+  return null;
+}
+
+const KIND_LABELS: Record<AttachmentKind, string> = {
+  image: 'images',
+  document: 'documents',
+  video: 'video',
+  audio: 'audio',
+};
+
+/**
+ * Classifies a file by its MIME type. Unknown types count as documents.
+ */
+export function getAttachmentKind(mimeType: string): AttachmentKind {
+  if (mimeType.startsWith('image/')) return 'image';
+  if (mimeType.startsWith('video/')) return 'video';
+  if (mimeType.startsWith('audio/')) return 'audio';
+  return 'document';
+}
+
+/**
+ * Whether the model takes the attachment's bytes directly (Gemini inline
+ * data, OpenAI image parts).
+ */
+export function canSendInline(llm: LlmConfig, attachment: { mimeType: string }): boolean {
+  const kind = getAttachmentKind(attachment.mimeType);
+  if (!llm.attachments?.includes(kind)) return false;
+  return kind !== 'document' || INLINE_DOCUMENT_TYPES.includes(attachment.mimeType);
+}
+
+/**
+ * Checks whether the model can read an attachment, either directly or, for
+ * documents, through their extracted text.
+ * @returns Null when it can, otherwise a message for the user.
+ */
+export function checkAttachmentSupport(
+  llm: LlmConfig,
+  attachment: { name: string; mimeType: string }
+): string | null {
+  if (canSendInline(llm, attachment)) return null;
+
+  const kind = getAttachmentKind(attachment.mimeType);
+  if (kind !== 'document') {
+    return `${llm.name} can't read ${KIND_LABELS[kind]} (${attachment.name}).`;
+  }
+  const newerFormat = LEGACY_OFFICE_EXTENSIONS[getExtension(attachment.name)];
+  if (newerFormat) {
+    return `${attachment.name} uses a legacy format that can't be read. Save it as ${newerFormat} and attach it again.`;
+  }
+  if (!getDocumentFormat(attachment.name, attachment.mimeType)) {
+    return `${attachment.name} isn't a supported document type.`;
+  }
+  return null;
+}
+
+/**
+ * Validates files picked for a message against the upload limits and the
+ * model's capabilities. Used by the prompt input and again by /api/stream.
+ * @returns The first problem found, or null.
+ */
+export function validateAttachmentFiles(
+  files: { name: string; size: number; type: string }[],
+  llm: LlmConfig
+): string | null {
+  if (files.length > ATTACHMENT_LIMITS.maxFiles) {
+    return `You can attach up to ${ATTACHMENT_LIMITS.maxFiles} files per message.`;
+  }
+  for (const file of files) {
+    if (file.size > ATTACHMENT_LIMITS.maxFileBytes) {
+      return `${file.name} is larger than ${ATTACHMENT_LIMITS.maxFileBytes / (1024 * 1024)} MB.`;
+    }
+    const unsupported = checkAttachmentSupport(llm, { name: file.name, mimeType: file.type || 'application/octet-stream' });
+    if (unsupported) return unsupported;
+  }
+  return null;
+}
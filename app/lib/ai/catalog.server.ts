@@ -0,0 +1,122 @@
+import { createAnonSupabaseClient } from '~/lib/supabase/server';
+import type { AiModel } from '~/lib/db/schema';
+import { AVAILABLE_LLMS, SEED_LLMS, setAvailableLlms, type LlmConfig } from './models.config';
+import { discoverLocalModels } from './local';
+import { getChatProvider, isSupportedProvider } from './registry';
+
+// How long the ai_models table is trusted before it is read again
+const CATALOG_TTL_MS = 60_000;
+
+let catalogCache: { models: LlmConfig[]; expiresAt: number } | null = null;
+
+/**
+ * Builds an LLM config from an `ai_models` row, filling gaps from the
+ * built-in entry with the same ID.
+ * @returns The config, or null when the row can't be used (unknown provider, no limits).
+ */
+export function toLlmConfig(row: AiModel, seed?: LlmConfig): LlmConfig | null {
+  if (!isSupportedProvider(row.provider)) {
+    console.warn(`Skipping model ${row.model_id}: unsupported provider "${row.provider}".`);
+    return null;
+  }
+
+  const config = row.config || {};
+  const contextWindow = config.context_window ?? seed?.contextWindow;
+  const maxOutputTokens = config.max_output_tokens ?? seed?.maxOutputTokens;
+  if (!contextWindow || !maxOutputTokens) {
+    console.warn(`Skipping model ${row.model_id}: context_window and max_output_tokens are required.`);
+    return null;
+  }
+
+  const params = {
+    ...seed?.params,
+    ...(config.temperature !== undefined ? { temperature: config.temperature } : {}),
+    ...(config.top_p !== undefined ? { topP: config.top_p } : {}),
+    ...(config.top_k !== undefined ? { topK: config.top_k } : {}),
+  };
+
+  return {
+    id: row.model_id,
+    name: row.name,
+    provider: row.provider,
+    modelName: config.model_name ?? seed?.modelName ?? row.model_id,
+    contextWindow,
+    maxOutputTokens,
+    reasoning: config.reasoning ?? seed?.reasoning,
+    isDefault: config.is_default ?? seed?.isDefault,
+    attachments: config.attachments ?? seed?.attachments,
+    imageOutput: config.image_output ?? seed?.imageOutput,
+    ...(Object.keys(params).length > 0 ? { params } : {}),
+  };
+}
+
+/**
+ * Applies `ai_models` rows on top of the built-in list: rows override or
+ * disable the entry with the same ID, and active rows without one are appended.
+ */
+export function mergeModelCatalog(seed: LlmConfig[], rows: AiModel[]): LlmConfig[] {
+  const rowsById = new Map(rows.map(row => [row.model_id, row]));
+  const models: LlmConfig[] = [];
+
+  for (const llm of seed) {
+    const row = rowsById.get(llm.id);
+    if (!row) {
+      models.push(llm);
+    } else if (row.is_active) {
+      models.push(toLlmConfig(row, llm) ?? llm);
+    }
+  }
+
+  const seedIds = new Set(seed.map(llm => llm.id));
+  for (const row of rows) {
+    if (!row.is_active || seedIds.has(row.model_id)) continue;
+    const llm = toLlmConfig(row);
+    if (llm) models.push(llm);
+  }
+
+  return models;
+}
+
+/**
+ * Reads the catalog from `ai_models`, cached briefly. Falls back to the
+ * built-in list when the table can't be read.
+ */
+async function loadDatabaseCatalog(): Promise<LlmConfig[]> {
+  if (catalogCache && catalogCache.expiresAt > Date.now()) {
+    return catalogCache.models;
+  }
+
+  let models = SEED_LLMS;
+  try {
+    // An RPC rather than a select: RLS only shows active rows, and inactive ones are what disable built-in models
+    const { data, error } = await createAnonSupabaseClient().rpc('model_catalog');
+
+    if (error) {
+      console.error('Error loading model catalog, using built-in models:', error);
+    } else {
+      models = mergeModelCatalog(SEED_LLMS, (data as AiModel[]) || []);
+    }
+  } catch (error) {
+    console.error('Error loading model catalog, using built-in models:', error);
+  }
+
+  catalogCache = { models, expiresAt: Date.now() + CATALOG_TTL_MS };
+  return models;
+}
+
+// The provider's defaults come first, as in resolveGenerationParams, so the client can show what an unset setting means
+function withProviderDefaults(llm: LlmConfig): LlmConfig {
+  return { ...llm, params: { ...getChatProvider(llm).defaultParams, ...llm.params } };
+}
+
+/**
+ * Brings AVAILABLE_LLMS up to date with the `ai_models` table and models
+ * discovered at runtime (the local OpenAI-compatible server). Server code
+ * calls this before `findLlmById` so enabled, disabled and tuned models resolve.
+ * @returns The full model list, ready to hand to the client.
+ */
+export async function loadModelCatalog(): Promise<LlmConfig[]> {
+  const [catalog, localModels] = await Promise.all([loadDatabaseCatalog(), discoverLocalModels()]);
+  setAvailableLlms([...catalog, ...localModels].map(withProviderDefaults));
+  return AVAILABLE_LLMS;
+}
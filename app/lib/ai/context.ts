@@ -0,0 +1,205 @@
+import type { LlmConfig } from './models.config';
+import type { ChatHistoryMessage } from './provider';
+import { getChatProvider } from './registry';
+
+// Rough chars-per-token ratio for English text; good enough for budgeting.
+const CHARS_PER_TOKEN = 4;
+// Role markers and separators the providers add around each message.
+const MESSAGE_OVERHEAD_TOKENS = 4;
+// Share of the input budget kept free for the rolling summary.
+const SUMMARY_BUDGET_RATIO = 0.2;
+const MAX_SUMMARY_TOKENS = 1024;
+// Headroom for estimation error so we stay under the real limit.
+const SAFETY_MARGIN_RATIO = 0.05;
+
+/**
+ * A history message as loaded from the database. `id` is missing for the
+ * current turn when it hasn't been persisted yet. `attachmentTokens` estimates
+ * the files sent inline with it, which are only loaded once the window is built.
+ */
+export type ContextMessage = ChatHistoryMessage & { id?: string; attachmentTokens?: number };
+
+/**
+ * Rolling summary stored on the chat: `text` covers every message up to
+ * and including `messageId`.
+ */
+export interface ChatSummary {
+  text: string;
+  messageId: string;
+}
+
+export interface ContextWindow {
+  messages: ChatHistoryMessage[];
+  estimatedTokens: number;
+  droppedCount: number;
+  summary: ChatSummary | null;
+  summaryUpdated: boolean;
+}
+
+/**
+ * Estimates the token count of a piece of text.
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Cuts text down to roughly `maxTokens` tokens.
+ * @returns The text, and whether anything was cut.
+ */
+export function truncateToTokens(text: string, maxTokens: number): { text: string; truncated: boolean } {
+  const maxChars = Math.max(maxTokens, 0) * CHARS_PER_TOKEN;
+  return text.length > maxChars
+    ? { text: text.slice(0, maxChars), truncated: true }
+    : { text, truncated: false };
+}
+
+/**
+ * Estimates the token count of a message including per-message overhead.
+ */
+export function estimateMessageTokens(message: ChatHistoryMessage): number {
+  return estimateTokens(message.content) + MESSAGE_OVERHEAD_TOKENS;
+}
+
+/**
+ * Tokens available for the prompt once the reply and safety margin are reserved.
+ * @param reservedTokens Tokens kept free besides the history (reply length plus
+ *   system prompt); defaults to the model's max output.
+ */
+export function getInputTokenBudget(llm: LlmConfig, reservedTokens: number = llm.maxOutputTokens): number {
+  const usable = Math.floor(llm.contextWindow * (1 - SAFETY_MARGIN_RATIO));
+  return Math.max(usable - reservedTokens, 0);
+}
+
+/**
+ * Asks the model to fold newly dropped turns into the running summary.
+ */
+export async function summarizeConversation(
+  messages: ChatHistoryMessage[],
+  previousSummary: string | null,
+  llm: LlmConfig
+): Promise<string> {
+  // Keep the summarization prompt itself within budget, favouring the newest turns
+  const maxTranscriptChars = Math.max(getInputTokenBudget(llm) - MAX_SUMMARY_TOKENS, 0) * CHARS_PER_TOKEN;
+  let transcript = messages
+    .map(msg => `${msg.role === 'user' ? 'User' : 'Assistant'}: ${msg.content}`)
+    .join('\n\n');
+  if (transcript.length > maxTranscriptChars) {
+    transcript = transcript.slice(transcript.length - maxTranscriptChars);
+  }
+
+  const prompt = `You maintain a running summary of a conversation between a user and an AI assistant.
+
+${previousSummary ? `Current summary:\n${previousSummary}\n\n` : ''}New messages to fold into the summary:
+${transcript}
+
+Write an updated summary that keeps facts, decisions, open questions, names and code identifiers the assistant will need later. Use at most ${Math.floor(MAX_SUMMARY_TOKENS * 0.75)} words.
+
+ONLY OUTPUT THE SUMMARY, NOTHING ELSE.`;
+
+  const result = await getChatProvider(llm).generate([{ role: 'user', content: prompt }], llm);
+  return result.content.trim();
+}
+
+/**
+ * Fits a chat's history into the model's context window.
+ *
+ * Newest messages are kept verbatim; older ones are replaced by the chat's
+ * rolling summary, which is extended with `summarize` whenever more turns
+ * fall out of the window. The latest message is always kept.
+ * `reservedTokens` is passed to `getInputTokenBudget`.
+ */
+export async function buildContextWindow(
+  history: ContextMessage[],
+  llm: LlmConfig,
+  storedSummary: ChatSummary | null,
+  options: {
+    reservedTokens?: number;
+    summarize?: (messages: ChatHistoryMessage[], previousSummary: string | null) => Promise<string>;
+  } = {}
+): Promise<ContextWindow> {
+  const summarize = options.summarize ??
+    ((messages, previousSummary) => summarizeConversation(messages, previousSummary, llm));
+  const budget = getInputTokenBudget(llm, options.reservedTokens);
+  const tokenCounts = history.map(message => estimateMessageTokens(message) + (message.attachmentTokens ?? 0));
+  const totalTokens = tokenCounts.reduce((sum, count) => sum + count, 0);
+
+  // Everything fits: send the full history, no summary needed
+  if (totalTokens <= budget) {
+    return {
+      messages: history.map(toHistoryMessage),
+      estimatedTokens: totalTokens,
+      droppedCount: 0,
+      summary: storedSummary,
+      summaryUpdated: false,
+    };
+  }
+
+  // Keep as many recent messages as fit next to a summary
+  const summaryReserve = Math.min(MAX_SUMMARY_TOKENS, Math.floor(budget * SUMMARY_BUDGET_RATIO));
+  let keptTokens = 0;
+  let firstKept = history.length;
+  while (firstKept > 0) {
+    const next = tokenCounts[firstKept - 1];
+    if (firstKept < history.length && keptTokens + next > budget - summaryReserve) break;
+    keptTokens += next;
+    firstKept--;
+  }
+
+  // A stored summary is reusable only if its last covered message is still in this history
+  const coveredIndex = storedSummary
+    ? history.findIndex(msg => msg.id === storedSummary.messageId)
+    : -1;
+  let summary = coveredIndex >= 0 ? storedSummary : null;
+
+  // Messages the summary already covers don't need to be sent again
+  if (summary && coveredIndex + 1 > firstKept) {
+    for (let i = firstKept; i <= Math.min(coveredIndex, history.length - 2); i++) {
+      keptTokens -= tokenCounts[i];
+    }
+    firstKept = Math.min(coveredIndex + 1, history.length - 1);
+  }
+
+  // Fold anything newly dropped into the summary
+  let summaryUpdated = false;
+  const lastDropped = history[firstKept - 1];
+  const newlyDropped = history.slice(coveredIndex + 1, firstKept);
+  if (newlyDropped.length > 0 && lastDropped?.id) {
+    try {
+      const text = await summarize(newlyDropped.map(toHistoryMessage), summary?.text ?? null);
+      if (text) {
+        summary = { text, messageId: lastDropped.id };
+        summaryUpdated = true;
+      }
+    } catch (error) {
+      // Fall back to plain trimming; the stale summary (if any) is still better than nothing
+      console.error(`Failed to update rolling summary for ${llm.id}:`, error);
+    }
+  }
+
+  const messages = history.slice(firstKept).map(toHistoryMessage);
+  let estimatedTokens = keptTokens;
+  if (summary) {
+    const preamble = `Summary of the earlier conversation:\n${summary.text}`;
+    // Keep user/assistant alternation: merge into a leading user turn, otherwise open with one
+    if (messages[0]?.role === 'user') {
+      messages[0] = { ...messages[0], content: `${preamble}\n\n${messages[0].content}` };
+    } else {
+      messages.unshift({ role: 'user', content: preamble });
+      estimatedTokens += MESSAGE_OVERHEAD_TOKENS;
+    }
+    estimatedTokens += estimateTokens(preamble);
+  }
+
+  return {
+    messages,
+    estimatedTokens,
+    droppedCount: firstKept,
+    summary,
+    summaryUpdated,
+  };
+}
+
+function toHistoryMessage(message: ContextMessage): ChatHistoryMessage {
+  return { role: message.role, content: message.content };
+}
@@ -1,95 +1,167 @@
-// Please install OpenAI SDK first: `npm install openai`
-
-import OpenAI from "openai";
-import { ChatCompletionChunk } from "openai/resources/index.mjs";
-import { Stream } from "openai/streaming.mjs";
-
-const openai = new OpenAI({
-        baseURL: 'https://api.deepseek.com',
-        apiKey: process.env.DEEPSEEK_API_KEY || '<DeepSeek API Key>' // Use environment variable or replace placeholder
-});
-
-async function main() {
-  // Round 1
-  let messages: OpenAI.Chat.ChatCompletionMessageParam[] = [{ role: "user", content: "9.11 and 9.8, which is greater?" }];
-  let responseStream: Stream<ChatCompletionChunk>;
-
-  try {
-    responseStream = await openai.chat.completions.create({
-      model: "deepseek-reasoner",
-      messages: messages,
-      stream: true,
-      // @ts-expect-error deepseek specific parameter
-      stream_options: { include_reasoning_content: true } // Request reasoning content
-    });
-  } catch (error) {
-    console.error("Error calling DeepSeek API (Round 1):", error);
-    return;
+import OpenAI from 'openai';
+import type { ChatCompletionChunk, ChatCompletionMessageParam } from 'openai/resources/chat/completions';
+import {
+  resolveGenerationParams,
+  mapCommonError,
+  ProviderError,
+  type ChatHistoryMessage,
+  type ChatProvider,
+  type ChatStreamChunk,
+  type GenerationParams,
+} from './provider';
+
+/**
+ * Creates a client for the DeepSeek API, which is OpenAI-compatible.
+ * @returns An OpenAI client pointed at api.deepseek.com.
+ */
+export function getDeepSeekClient() {
+  const apiKey = process.env.DEEPSEEK_API_KEY;
+  if (!apiKey) {
+    throw new Error('DEEPSEEK_API_KEY environment variable is not set.');
   }
 
+  return new OpenAI({
+    baseURL: 'https://api.deepseek.com',
+    apiKey: apiKey,
+  });
+}
 
-  let reasoning_content_r1 = "";
-  let content_r1 = "";
-
-  console.log("\n--- Round 1 ---");
-  try {
-    for await (const chunk of responseStream) {
-      // @ts-expect-error deepseek specific property
-      if (chunk.choices[0]?.delta?.reasoning_content) {
-        // @ts-expect-error deepseek specific property
-        reasoning_content_r1 += chunk.choices[0].delta.reasoning_content;
-      } else if (chunk.choices[0]?.delta?.content) {
-        content_r1 += chunk.choices[0].delta.content;
-      }
+/**
+ * Converts neutral history into DeepSeek messages, opening with the system
+ * prompt when there is one.
+ * DeepSeek rejects requests that feed `reasoning_content` back in, so only
+ * role and answer text are sent. `deepseek-reasoner` also refuses two
+ * consecutive messages with the same role; those are merged.
+ */
+export function toDeepSeekMessages(messages: ChatHistoryMessage[], systemPrompt?: string): ChatCompletionMessageParam[] {
+  const result: { role: ChatHistoryMessage['role']; content: string }[] = [];
+  if (systemPrompt) result.push({ role: 'system', content: systemPrompt });
+  for (const msg of messages) {
+    const previous = result[result.length - 1];
+    if (previous && previous.role === msg.role && msg.role !== 'system') {
+      previous.content = `${previous.content}\n\n${msg.content}`;
+    } else {
+      result.push({ role: msg.role, content: msg.content });
     }
-  } catch (error) {
-      console.error("Error processing stream (Round 1):", error);
-      return;
   }
+  return result;
+}
 
-  console.log("Reasoning (R1):", reasoning_content_r1);
-  console.log("Content (R1):", content_r1);
-
+/**
+ * Helper function to transform the DeepSeek stream into the expected format.
+ * `deepseek-reasoner` streams its chain of thought in `delta.reasoning_content`
+ * before the answer in `delta.content`.
+ * @param stream - The stream from the DeepSeek API.
+ * @returns An async generator that yields objects with text() and reasoning() methods.
+ */
+async function* deepSeekStreamTransformer(
+  stream: AsyncIterable<ChatCompletionChunk>
+): AsyncGenerator<ChatStreamChunk> {
+  for await (const chunk of stream) {
+    const delta = chunk.choices[0]?.delta as (ChatCompletionChunk.Choice.Delta & { reasoning_content?: string }) | undefined;
+    const content = delta?.content || "";
+    const reasoning = delta?.reasoning_content || "";
+    if (content || reasoning) {
+      yield { text: () => content, reasoning: () => reasoning };
+    }
+  }
+}
 
-  // Round 2
-  messages.push({ role: "assistant", content: content_r1 });
-  messages.push({ role: 'user', content: "How many Rs are there in the word 'strawberry'?" });
+/**
+ * Generates a chat response using the DeepSeek API.
+ * The reasoning trace of `deepseek-reasoner` is dropped; only the answer is returned.
+ * @param messages - The messages to send to the chat model.
+ * @param modelName - The DeepSeek model identifier ('deepseek-chat' or 'deepseek-reasoner').
+ * @param params - Sampling parameters; unset values use this provider's defaults.
+ * @param signal - Optional AbortSignal to cancel the request.
+ * @returns The generated response content.
+ */
+export async function generateChatResponse(
+  messages: ChatCompletionMessageParam[],
+  modelName: string = "deepseek-chat",
+  params: GenerationParams = {},
+  signal?: AbortSignal
+): Promise<{ content: string }> {
+  const client = getDeepSeekClient();
 
   try {
-      responseStream = await openai.chat.completions.create({
-          model: "deepseek-reasoner",
-          messages: messages,
-          stream: true,
-          // @ts-expect-error deepseek specific parameter
-          stream_options: { include_reasoning_content: true } // Request reasoning content
-      });
+    const completion = await client.chat.completions.create({
+      model: modelName,
+      messages: messages,
+      temperature: params.temperature ?? 0.7, // Ignored by deepseek-reasoner
+      top_p: params.topP,
+      max_tokens: params.maxOutputTokens,
+    }, { signal });
+
+    return { content: completion.choices[0].message.content || "" };
   } catch (error) {
-      console.error("Error calling DeepSeek API (Round 2):", error);
-      return;
+    console.error(`Error generating chat response with DeepSeek (${modelName}):`, error);
+    throw mapDeepSeekError(error);
   }
+}
 
-  let reasoning_content_r2 = "";
-  let content_r2 = "";
+/**
+ * Streams a chat response using the DeepSeek API.
+ * @param messages - The messages to send to the chat model.
+ * @param modelName - The DeepSeek model identifier ('deepseek-chat' or 'deepseek-reasoner').
+ * @param signal - Optional AbortSignal to cancel the request.
+ * @param params - Sampling parameters; unset values use this provider's defaults.
+ * @returns An object containing the async iterable stream compatible with other providers.
+ */
+export async function streamChatResponse(
+  messages: ChatCompletionMessageParam[],
+  modelName: string = "deepseek-chat",
+  signal?: AbortSignal,
+  params: GenerationParams = {}
+): Promise<{ stream: AsyncIterable<ChatStreamChunk> }> {
+  const client = getDeepSeekClient();
 
-  console.log("\n--- Round 2 ---");
   try {
-      for await (const chunk of responseStream) {
-          // @ts-expect-error deepseek specific property
-          if (chunk.choices[0]?.delta?.reasoning_content) {
-              // @ts-expect-error deepseek specific property
-              reasoning_content_r2 += chunk.choices[0].delta.reasoning_content;
-          } else if (chunk.choices[0]?.delta?.content) {
-              content_r2 += chunk.choices[0].delta.content;
-          }
-      }
+    const stream = await client.chat.completions.create({
+      model: modelName,
+      messages: messages,
+      temperature: params.temperature ?? 0.7, // Ignored by deepseek-reasoner
+      top_p: params.topP,
+      stream: true,
+      max_tokens: params.maxOutputTokens,
+    }, { signal });
+
+    return { stream: deepSeekStreamTransformer(stream) };
   } catch (error) {
-      console.error("Error processing stream (Round 2):", error);
-      return;
+    if (error instanceof Error && error.name === 'AbortError') {
+      console.log(`DeepSeek stream request aborted (${modelName}).`);
+      // Re-throw the AbortError so the caller can handle it
+      throw error;
+    }
+    console.error(`Error streaming chat response with DeepSeek (${modelName}):`, error);
+    throw mapDeepSeekError(error);
   }
+}
 
-  console.log("Reasoning (R2):", reasoning_content_r2);
-  console.log("Content (R2):", content_r2);
-
+/**
+ * DeepSeek answers 402 when the account balance runs out.
+ */
+function mapDeepSeekError(error: unknown): ProviderError {
+  const status = (error as { status?: number } | undefined)?.status;
+  if (status === 402) {
+    const message = (error as { message?: string }).message || String(error);
+    return new ProviderError('quota', message, "We've reached our usage limit for the AI service. Please try again later.", 429);
+  }
+  return mapCommonError(error, 'DeepSeek');
 }
 
-main().catch(console.error);
\ No newline at end of file
+/**
+ * ChatProvider adapter for the DeepSeek API.
+ */
+export const deepSeekProvider: ChatProvider = {
+  id: 'deepseek',
+  capabilities: { streaming: true, systemPrompt: true, images: false, reasoning: true, topK: false },
+  defaultParams: { temperature: 0.7 },
+  generate(messages, llm, options = {}) {
+    return generateChatResponse(toDeepSeekMessages(messages, options.systemPrompt), llm.modelName, resolveGenerationParams(deepSeekProvider, llm, options.params), options.signal);
+  },
+  stream(messages, llm, options = {}) {
+    return streamChatResponse(toDeepSeekMessages(messages, options.systemPrompt), llm.modelName, options.signal, resolveGenerationParams(deepSeekProvider, llm, options.params));
+  },
+  mapError: mapDeepSeekError,
+};
@@ -0,0 +1,57 @@
+import { TaskType } from "@google/generative-ai";
+import { getGeminiClient } from "./gemini";
+
+/**
+ * Width of the vectors stored in knowledge_chunks.embedding. Changing the
+ * embedding model to one with a different width needs a schema change and
+ * re-embedding every document.
+ */
+export const EMBEDDING_DIMENSIONS = 768;
+
+const DEFAULT_EMBEDDING_MODEL = "text-embedding-004";
+// The embedding API takes at most 100 texts per batch request
+const MAX_BATCH_SIZE = 100;
+
+function getEmbeddingModel() {
+  return getGeminiClient().getGenerativeModel({ model: process.env.EMBEDDING_MODEL || DEFAULT_EMBEDDING_MODEL });
+}
+
+function checkDimensions(values: number[]): number[] {
+  if (values.length !== EMBEDDING_DIMENSIONS) {
+    throw new Error(`Embedding has ${values.length} dimensions, expected ${EMBEDDING_DIMENSIONS}`);
+  }
+  return values;
+}
+
+/**
+ * Embeds document chunks for storage, in input order.
+ * @param title Document name, which helps the model place the chunks.
+ */
+export async function embedDocuments(texts: string[], title?: string): Promise<number[][]> {
+  const model = getEmbeddingModel();
+  const embeddings: number[][] = [];
+  for (let start = 0; start < texts.length; start += MAX_BATCH_SIZE) {
+    const batch = texts.slice(start, start + MAX_BATCH_SIZE);
+    const { embeddings: batchEmbeddings } = await model.batchEmbedContents({
+      requests: batch.map(text => ({
+        content: { role: "user", parts: [{ text }] },
+        taskType: TaskType.RETRIEVAL_DOCUMENT,
+        ...(title ? { title } : {}),
+      })),
+    });
+    embeddings.push(...batchEmbeddings.map(embedding => checkDimensions(embedding.values)));
+  }
+  return embeddings;
+}
+
+/**
+ * Embeds a search query. Queries use their own task type, so they match
+ * document chunks better than an embedding of the same text as a document.
+ */
+export async function embedQuery(text: string): Promise<number[]> {
+  const { embedding } = await getEmbeddingModel().embedContent({
+    content: { role: "user", parts: [{ text }] },
+    taskType: TaskType.RETRIEVAL_QUERY,
+  });
+  return checkDimensions(embedding.values);
+}
@@ -1,4 +1,4 @@
-import { GoogleGenerativeAI, GenerativeModel } from "@google/generative-ai";
+import { GoogleGenerativeAI, GoogleGenerativeAIAbortError, GenerativeModel, type Content, type EnhancedGenerateContentResponse } from "@google/generative-ai";
 import type { SupabaseClient } from "@supabase/supabase-js";
 
 /**
@@ -7,6 +7,7 @@ import type { SupabaseClient } from "@supabase/supabase-js";
  */
 import { generateTitleWithOpenRouter, buildTitlePrompt } from "./openroutertitle";
 import { findLlmById } from "./models.config"; // Import config lookup
+import { resolveGenerationParams, splitSystemMessages, mapCommonError, type ChatHistoryMessage, type ProviderError, type ChatProvider, type ChatStreamChunk, type GeneratedImage } from "./provider";
 
 // Default configuration for the Gemini model
 const DEFAULT_CONFIG = {
@@ -53,8 +54,9 @@ function getGeminiClient() {
  * Generate a response for a chat conversation using a specific Gemini model.
  */
 export async function generateChatResponse(
-  messages: { role: string; parts: { text: string }[] }[], // Expect Gemini format
-  config: { model?: string; temperature?: number; maxOutputTokens?: number; topK?: number; topP?: number } = {}
+  messages: Content[], // Expect Gemini format
+  config: { model?: string; temperature?: number; maxOutputTokens?: number; topK?: number; topP?: number; systemInstruction?: string } = {},
+  signal?: AbortSignal
 ) {
   const genAI = getGeminiClient();
   // Use provided model or fallback to a default Gemini model
@@ -78,11 +80,12 @@ export async function generateChatResponse(
     // Get the model instance
     const model = genAI.getGenerativeModel({
       model: modelName,
-      generationConfig: generationConfig
+      generationConfig: generationConfig,
+      ...(config.systemInstruction ? { systemInstruction: config.systemInstruction } : {}),
     });
     
     // Workaround for potentially empty or malformed messages
-    if (!messages.length || !messages[0].parts[0].text) {
+    if (!messages.length || !messages[0].parts.some(part => part.text || part.inlineData)) {
       return {
         content: "I don't have enough context to respond. Could you provide more information?",
         model: modelName
@@ -91,10 +94,10 @@ export async function generateChatResponse(
     
     // If we only have one message, use a direct generation instead of chat
     if (messages.length === 1) {
-      const prompt = messages[0].parts[0].text;
-      console.log("Generating response to single message:", prompt.substring(0, 50) + "...");
+      const prompt = messages[0].parts;
+      console.log("Generating response to single message:", partsPreview(prompt));
       
-      const result = await model.generateContent(prompt);
+      const result = await model.generateContent(prompt, { signal });
       const responseText = result.response.text();
       
       return {
@@ -116,9 +119,9 @@ export async function generateChatResponse(
     
     // Send the last message to get a response
     const lastMessage = messages[messages.length - 1];
-    console.log("Sending to Gemini:", lastMessage.parts[0].text.substring(0, 50) + "...");
+    console.log("Sending to Gemini:", partsPreview(lastMessage.parts));
     
-    const result = await chat.sendMessage(lastMessage.parts[0].text);
+    const result = await chat.sendMessage(lastMessage.parts, { signal });
     const responseText = result.response.text();
     
     return {
@@ -126,42 +129,27 @@ export async function generateChatResponse(
       model: modelName
     };
   } catch (error) {
-    console.error("Error generating chat response:", error);
-    
-    // Return a user-friendly error message
-    let errorMessage = "Sorry, I encountered an error processing your request.";
-    
-    // Type check the error before accessing properties
-    if (error instanceof Error) {
-      if (error.message.includes("API key")) {
-        errorMessage = "There's an issue with the API configuration. Please contact the administrator.";
-      } else if (error.message.includes("quota")) {
-        errorMessage = "We've reached our usage limit for the AI service. Please try again later.";
-      } else if (error.message.includes("blocked")) {
-        errorMessage = "Your request was blocked by the AI safety filters. Please try a different question.";
-      }
-      
-      return {
-        content: errorMessage,
-        model: modelName,
-        error: error.message
-      };
-    }
-    
-    return {
-      content: errorMessage,
-      model: modelName,
-      error: String(error)
-    };
+    console.error(`Error generating chat response with Gemini (${modelName}):`, error);
+    throw mapGeminiError(error);
+  }
+}
+
+/**
+ * The SDK wraps a cancelled fetch in an error that keeps the plain Error name.
+ */
+function mapGeminiError(error: unknown): ProviderError {
+  if (error instanceof GoogleGenerativeAIAbortError) {
+    return mapCommonError({ name: 'AbortError', message: error.message }, 'Gemini');
   }
+  return mapCommonError(error, 'Gemini');
 }
 
 /**
  * Stream a chat response using a specific Gemini model
  */
 export async function streamChatResponse(
-  messages: { role: string; parts: { text: string }[] }[], // Expect Gemini format
-  config: { model?: string; temperature?: number; maxOutputTokens?: number; topK?: number; topP?: number } = {},
+  messages: Content[], // Expect Gemini format
+  config: { model?: string; temperature?: number; maxOutputTokens?: number; topK?: number; topP?: number; includeThoughts?: boolean; imageOutput?: boolean; systemInstruction?: string } = {},
   signal?: AbortSignal
 ) {
   const genAI = getGeminiClient();
@@ -172,6 +160,10 @@ export async function streamChatResponse(
       maxOutputTokens: config.maxOutputTokens ?? DEFAULT_CONFIG.maxOutputTokens,
       topK: config.topK ?? DEFAULT_CONFIG.topK,
       topP: config.topP ?? DEFAULT_CONFIG.topP,
+      // Thinking models only return thought summaries when asked; the SDK doesn't type this yet
+      ...(config.includeThoughts ? { thinkingConfig: { includeThoughts: true } } : {}),
+      // Image models only return images when asked for both modalities; also untyped in the SDK
+      ...(config.imageOutput ? { responseModalities: ["TEXT", "IMAGE"] } : {}),
   };
 
   try {
@@ -179,7 +171,8 @@ export async function streamChatResponse(
     // Get the model instance
     const model = genAI.getGenerativeModel({
       model: modelName, // Use the specific model name
-      generationConfig: generationConfig
+      generationConfig: generationConfig,
+      ...(config.systemInstruction ? { systemInstruction: config.systemInstruction } : {}),
     });
 
     // Start a chat session
@@ -190,10 +183,10 @@ export async function streamChatResponse(
     // Send the last message to get a streaming response
     const lastMessage = messages[messages.length - 1];
     // Ensure lastMessage and its parts are valid before sending
-    if (!lastMessage || !lastMessage.parts || !lastMessage.parts[0] || typeof lastMessage.parts[0].text !== 'string') {
+    if (!lastMessage || !lastMessage.parts || lastMessage.parts.length === 0) {
         throw new Error("Invalid last message format for streaming.");
     }
-    const result = await chat.sendMessageStream(lastMessage.parts[0].text, { signal });
+    const result = await chat.sendMessageStream(lastMessage.parts, { signal });
 
     // Return the stream result directly, the caller will handle the { text: () => string } transformation if needed
     // Or adapt it here if consistency is desired across all provider functions
@@ -454,4 +447,99 @@ ONLY OUTPUT THE TITLE, NOTHING ELSE.`;
   }
 }
 
+/**
+ * Short log preview of a Gemini message: its text, plus a count of inline files.
+ */
+function partsPreview(parts: Content['parts']): string {
+  const text = parts.map(part => part.text || '').join(' ');
+  const files = parts.filter(part => part.inlineData).length;
+  return `${text.substring(0, 50)}...${files ? ` (+${files} attachment${files === 1 ? '' : 's'})` : ''}`;
+}
+
+/**
+ * Convert neutral chat history into Gemini's `{ role, parts }` format.
+ * Attachments become `inlineData` parts.
+ */
+function toGeminiMessages(messages: ChatHistoryMessage[]): Content[] {
+  return messages.map(msg => ({
+    role: msg.role === 'user' ? 'user' : 'model', // System messages go to systemInstruction, see splitSystemMessages
+    parts: [
+      // Attachments go first, as Gemini's docs recommend for single-file prompts
+      ...(msg.attachments ?? []).map(a => ({ inlineData: { mimeType: a.mimeType, data: a.data } })),
+      ...(msg.content || !msg.attachments?.length ? [{ text: msg.content || "" }] : []),
+    ]
+  }));
+}
+
+/**
+ * Splits Gemini stream chunks into answer text, thought summaries and
+ * generated images. `chunk.text()` would concatenate the text of both and
+ * drop the images, so parts are read directly.
+ */
+async function* geminiStreamTransformer(
+  stream: AsyncIterable<EnhancedGenerateContentResponse>
+): AsyncGenerator<ChatStreamChunk> {
+  for await (const chunk of stream) {
+    const parts = chunk.candidates?.[0]?.content?.parts || [];
+    let content = "";
+    let reasoning = "";
+    const images: GeneratedImage[] = [];
+    for (const part of parts) {
+      if (part.inlineData?.mimeType.startsWith("image/")) {
+        images.push({ mimeType: part.inlineData.mimeType, data: part.inlineData.data });
+        continue;
+      }
+      if (!part.text) continue;
+      if ((part as { thought?: boolean }).thought) {
+        reasoning += part.text;
+      } else {
+        content += part.text;
+      }
+    }
+    if (content || reasoning || images.length > 0) {
+      yield { text: () => content, reasoning: () => reasoning, images: () => images };
+    }
+  }
+}
+
+/**
+ * ChatProvider adapter for Google Gemini.
+ */
+export const geminiProvider: ChatProvider = {
+  id: 'google',
+  capabilities: { streaming: true, systemPrompt: true, images: true, reasoning: true, topK: true },
+  defaultParams: { temperature: DEFAULT_CONFIG.temperature, topK: DEFAULT_CONFIG.topK, topP: DEFAULT_CONFIG.topP },
+  async generate(messages, llm, options = {}) {
+    const { systemPrompt, messages: history } = splitSystemMessages(messages, options.systemPrompt);
+    const result = await generateChatResponse(toGeminiMessages(history), {
+      model: llm.modelName,
+      ...resolveGenerationParams(geminiProvider, llm, options.params),
+      systemInstruction: systemPrompt,
+    }, options.signal);
+    return { content: result.content };
+  },
+  async stream(messages, llm, options = {}) {
+    const { systemPrompt, messages: history } = splitSystemMessages(messages, options.systemPrompt);
+    const contents = toGeminiMessages(history);
+    // Image models reject systemInstruction, so the instructions open the conversation instead
+    const inlineSystemPrompt = llm.imageOutput && systemPrompt && contents[0]?.role === 'user';
+    if (inlineSystemPrompt) {
+      contents[0] = { ...contents[0], parts: [{ text: systemPrompt }, ...contents[0].parts] };
+    }
+    const result = await streamChatResponse(
+      contents,
+      {
+        model: llm.modelName,
+        ...resolveGenerationParams(geminiProvider, llm, options.params),
+        includeThoughts: llm.reasoning,
+        imageOutput: llm.imageOutput,
+        systemInstruction: inlineSystemPrompt ? undefined : systemPrompt,
+      },
+      options.signal
+    );
+    return { stream: geminiStreamTransformer(result.stream) };
+  },
+  mapError: mapGeminiError,
+};
+
 export { getGeminiClient };
@@ -0,0 +1,192 @@
+import OpenAI from 'openai';
+import type { ChatCompletionChunk, ChatCompletionMessageParam } from 'openai/resources/chat/completions';
+import type { LlmConfig } from './models.config';
+import { mapCommonError, toOpenAIMessages, resolveGenerationParams, type ChatProvider, type GenerationParams, type ChatStreamChunk } from './provider';
+
+// Local servers rarely report limits on /models, so these are configurable defaults
+const DEFAULT_CONTEXT_WINDOW = 8192;
+const DEFAULT_MAX_OUTPUT_TOKENS = 2048;
+// How long a /models listing is trusted before asking the server again
+const DISCOVERY_TTL_MS = 60_000;
+// Keep page loads snappy when the local server is down
+const DISCOVERY_TIMEOUT_MS = 3_000;
+
+export const LOCAL_MODEL_ID_PREFIX = 'local:';
+
+let discoveryCache: { models: LlmConfig[]; expiresAt: number } | null = null;
+
+/**
+ * Base URL of the self-hosted OpenAI-compatible server (Ollama, llama.cpp server, vLLM),
+ * e.g. `http://localhost:11434/v1`. Returns null when local models are not configured.
+ */
+export function getLocalBaseUrl(): string | null {
+  return process.env.LOCAL_LLM_BASE_URL?.replace(/\/+$/, '') || null;
+}
+
+/**
+ * Creates a client for the local server. Most local servers ignore the key,
+ * but the SDK requires one, so LOCAL_LLM_API_KEY is optional.
+ */
+export function getLocalClient(options: { timeout?: number } = {}) {
+  const baseURL = getLocalBaseUrl();
+  if (!baseURL) {
+    throw new Error('LOCAL_LLM_BASE_URL environment variable is not set.');
+  }
+
+  return new OpenAI({
+    baseURL,
+    apiKey: process.env.LOCAL_LLM_API_KEY || 'local',
+    ...(options.timeout ? { timeout: options.timeout, maxRetries: 0 } : {}),
+  });
+}
+
+function readPositiveInt(value: string | undefined, fallback: number): number {
+  const parsed = Number.parseInt(value || '', 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+/**
+ * Lists the models served by the local server's `/models` endpoint as LLM configs.
+ * Results are cached briefly; an unreachable server yields an empty list.
+ */
+export async function discoverLocalModels(): Promise<LlmConfig[]> {
+  if (!getLocalBaseUrl()) return [];
+  if (discoveryCache && discoveryCache.expiresAt > Date.now()) {
+    return discoveryCache.models;
+  }
+
+  const contextWindow = readPositiveInt(process.env.LOCAL_LLM_CONTEXT_WINDOW, DEFAULT_CONTEXT_WINDOW);
+  const maxOutputTokens = readPositiveInt(process.env.LOCAL_LLM_MAX_OUTPUT_TOKENS, DEFAULT_MAX_OUTPUT_TOKENS);
+
+  let models: LlmConfig[] = [];
+  try {
+    const client = getLocalClient({ timeout: DISCOVERY_TIMEOUT_MS });
+    for await (const model of client.models.list()) {
+      models.push({
+        id: `${LOCAL_MODEL_ID_PREFIX}${model.id}`,
+        name: `${model.id} (Local)`,
+        provider: 'local',
+        modelName: model.id,
+        contextWindow,
+        maxOutputTokens: Math.min(maxOutputTokens, contextWindow),
+      });
+    }
+    models.sort((a, b) => a.modelName.localeCompare(b.modelName));
+  } catch (error) {
+    console.warn(`Could not list local models from ${getLocalBaseUrl()}:`, error);
+    models = [];
+  }
+
+  discoveryCache = { models, expiresAt: Date.now() + DISCOVERY_TTL_MS };
+  return models;
+}
+
+/**
+ * Helper function to transform the local server's stream into the expected format.
+ * Thinking models report their trace in `reasoning_content` (llama.cpp, vLLM)
+ * or `reasoning` (Ollama).
+ * @param stream - The stream from the local server.
+ * @returns An async generator that yields objects with text() and reasoning() methods.
+ */
+async function* localStreamTransformer(
+  stream: AsyncIterable<ChatCompletionChunk>
+): AsyncGenerator<ChatStreamChunk> {
+  for await (const chunk of stream) {
+    const delta = chunk.choices[0]?.delta as
+      | (ChatCompletionChunk.Choice.Delta & { reasoning_content?: string; reasoning?: string })
+      | undefined;
+    const content = delta?.content || "";
+    const reasoning = delta?.reasoning_content || delta?.reasoning || "";
+    if (content || reasoning) {
+      yield { text: () => content, reasoning: () => reasoning };
+    }
+  }
+}
+
+/**
+ * Generates a chat response using a local model.
+ * @param messages - The messages to send to the chat model.
+ * @param modelName - The model identifier as listed by the server (e.g., 'llama3.2:latest').
+ * @param params - Sampling parameters; unset values use this provider's defaults.
+ * @param signal - Optional AbortSignal to cancel the request.
+ * @returns The generated response content.
+ */
+export async function generateChatResponse(
+  messages: ChatCompletionMessageParam[],
+  modelName: string,
+  params: GenerationParams = {},
+  signal?: AbortSignal
+): Promise<{ content: string }> {
+  const client = getLocalClient();
+
+  try {
+    const completion = await client.chat.completions.create({
+      model: modelName,
+      messages: messages,
+      temperature: params.temperature ?? 0.7,
+      top_p: params.topP,
+      max_tokens: params.maxOutputTokens,
+    }, { signal });
+
+    return { content: completion.choices[0].message.content || "" };
+  } catch (error) {
+    console.error(`Error generating chat response with local model (${modelName}):`, error);
+    throw mapCommonError(error, 'the local model server');
+  }
+}
+
+/**
+ * Streams a chat response using a local model.
+ * @param messages - The messages to send to the chat model.
+ * @param modelName - The model identifier as listed by the server (e.g., 'llama3.2:latest').
+ * @param signal - Optional AbortSignal to cancel the request.
+ * @param params - Sampling parameters; unset values use this provider's defaults.
+ * @returns An object containing the async iterable stream compatible with other providers.
+ */
+export async function streamChatResponse(
+  messages: ChatCompletionMessageParam[],
+  modelName: string,
+  signal?: AbortSignal,
+  params: GenerationParams = {}
+): Promise<{ stream: AsyncIterable<ChatStreamChunk> }> {
+  const client = getLocalClient();
+
+  try {
+    const stream = await client.chat.completions.create({
+      model: modelName,
+      messages: messages,
+      temperature: params.temperature ?? 0.7,
+      top_p: params.topP,
+      stream: true,
+      max_tokens: params.maxOutputTokens,
+    }, { signal });
+
+    return { stream: localStreamTransformer(stream) };
+  } catch (error) {
+    if (error instanceof Error && error.name === 'AbortError') {
+      console.log(`Local stream request aborted (${modelName}).`);
+      // Re-throw the AbortError so the caller can handle it
+      throw error;
+    }
+    console.error(`Error streaming chat response with local model (${modelName}):`, error);
+    throw mapCommonError(error, 'the local model server');
+  }
+}
+
+/**
+ * ChatProvider adapter for self-hosted OpenAI-compatible servers.
+ */
+export const localProvider: ChatProvider = {
+  id: 'local',
+  capabilities: { streaming: true, systemPrompt: true, images: false, reasoning: true, topK: false },
+  defaultParams: { temperature: 0.7 },
+  generate(messages, llm, options = {}) {
+    return generateChatResponse(toOpenAIMessages(messages, options.systemPrompt), llm.modelName, resolveGenerationParams(localProvider, llm, options.params), options.signal);
+  },
+  stream(messages, llm, options = {}) {
+    return streamChatResponse(toOpenAIMessages(messages, options.systemPrompt), llm.modelName, options.signal, resolveGenerationParams(localProvider, llm, options.params));
+  },
+  mapError(error) {
+    return mapCommonError(error, 'the local model server');
+  },
+};
@@ -1,4 +1,6 @@
 // filename: app/lib/ai/models.config.ts
+import type { AttachmentKind } from '~/lib/db/schema';
+import type { GenerationParams } from './provider';
 
 /**
  * Configuration for an available Large Language Model.
@@ -6,21 +8,35 @@
 export interface LlmConfig {
     id: string;         // Unique identifier (e.g., 'gemini-1.5-flash', 'openai-gpt-4o')
     name: string;       // Display name (e.g., 'Gemini (Flash)', 'OpenAI (GPT-4o)')
-    provider: 'google' | 'openai' | 'openrouter'; // Helps route API requests (string removed for stricter typing)
+    provider: 'google' | 'openai' | 'openrouter' | 'deepseek' | 'nvidia' | 'local'; // Helps route API requests (string removed for stricter typing)
     modelName: string;  // The actual model identifier used by the API provider
+    contextWindow: number;   // Total tokens (input + output) the model accepts
+    maxOutputTokens: number; // Tokens reserved for the reply when budgeting the context
+    reasoning?: boolean;     // Model emits a thinking trace that we capture and show separately
+    isDefault?: boolean;     // Preselected model; the first entry is used when none is flagged
+    params?: GenerationParams; // Per-model sampling defaults (temperature, top-p, ...)
+    attachments?: AttachmentKind[]; // File kinds the model reads as input; none when unset
+    imageOutput?: boolean;   // Model can answer with generated images
     // Add other relevant config if needed (e.g., requiresApiKey: true)
   }
   
+  // Gemini reads images, audio, video and PDF/plain-text documents inline
+  const GEMINI_ATTACHMENTS: AttachmentKind[] = ['image', 'document', 'audio', 'video'];
+
   /**
-   * List of available LLMs for the application.
-   * Ensure the corresponding environment variables for API keys are set (e.g., GEMINI_API_KEY, OPENAI_API_KEY, OPENROUTER_API_KEY).
+   * Built-in LLMs. They seed the `ai_models` table and are the fallback
+   * whenever the database catalog can't be read.
+   * Ensure the corresponding environment variables for API keys are set (e.g., GEMINI_API_KEY, OPENAI_API_KEY, OPENROUTER_API_KEY, DEEPSEEK_API_KEY, NVIDIA_API_KEY).
    */
-  export const AVAILABLE_LLMS: LlmConfig[] = [
+  export const SEED_LLMS: LlmConfig[] = [
     {
       id: 'gemini-1.5-flash',
       name: 'Gemini 1.5 Flash',
       provider: 'google',
       modelName: 'gemini-1.5-flash-latest', // Use the appropriate model name for Gemini API
+      contextWindow: 1048576,
+      maxOutputTokens: 8192,
+      attachments: GEMINI_ATTACHMENTS,
     },
     // { // Example: Add Gemini Pro if needed
     //   id: 'gemini-pro',
@@ -33,58 +49,125 @@ export interface LlmConfig {
       name: 'OpenAI (GPT-4o)',
       provider: 'openai',
       modelName: 'gpt-4o',
+      contextWindow: 128000,
+      maxOutputTokens: 16384,
+      attachments: ['image'],
     },
     {
       id: 'openai-gpt-3.5-turbo',
       name: 'OpenAI (GPT-3.5 Turbo)',
       provider: 'openai',
       modelName: 'gpt-3.5-turbo',
+      contextWindow: 16385,
+      maxOutputTokens: 4096,
     },
     {
       id: 'deepseek-chat',
-      name: 'Deepseek (Chat)',
+      name: 'Deepseek (Chat, OpenRouter)',
       provider: 'openrouter', // Use OpenRouter provider
       modelName: 'deepseek/deepseek-chat', // Correct model ID for OpenRouter
+      contextWindow: 64000,
+      maxOutputTokens: 8192,
+    },
+    {
+      id: 'deepseek-api-chat',
+      name: 'DeepSeek Chat',
+      provider: 'deepseek', // Direct DeepSeek API
+      modelName: 'deepseek-chat',
+      contextWindow: 65536,
+      maxOutputTokens: 8192,
+    },
+    {
+      id: 'deepseek-api-reasoner',
+      name: 'DeepSeek Reasoner (R1)',
+      provider: 'deepseek', // Direct DeepSeek API
+      modelName: 'deepseek-reasoner',
+      contextWindow: 65536,
+      maxOutputTokens: 8192,
+      reasoning: true,
+    },
+    {
+      id: 'nvidia-llama-3.3-70b',
+      name: 'Llama 3.3 70B (NVIDIA NIM)',
+      provider: 'nvidia',
+      modelName: 'meta/llama-3.3-70b-instruct',
+      contextWindow: 128000,
+      maxOutputTokens: 4096,
+    },
+    {
+      id: 'nvidia-nemotron-70b',
+      name: 'Llama 3.1 Nemotron 70B (NVIDIA NIM)',
+      provider: 'nvidia',
+      modelName: 'nvidia/llama-3.1-nemotron-70b-instruct',
+      contextWindow: 128000,
+      maxOutputTokens: 4096,
     },
     {
       id: 'thudm-glm-z1-32b', // Simplified ID
       name: 'GLM-Z1-32B (Free)',
       provider: 'openrouter', // Use OpenRouter provider
       modelName: 'thudm/glm-z1-32b:free', // Correct model ID for OpenRouter
+      contextWindow: 32768,
+      maxOutputTokens: 8192,
+      reasoning: true,
     },
     {
       id: 'gemini-2.0-flash',
       name: 'Gemini 2.0 Flash',
       provider: 'google',
       modelName: 'gemini-2.0-flash',
+      contextWindow: 1048576,
+      maxOutputTokens: 8192,
+      attachments: GEMINI_ATTACHMENTS,
     },
     {
       id: 'gemini-2.0-flash-exp-image-generation',
       name: 'Gemini 2.0 Flash (Image Generation) Experimental',
       provider: 'google',
       modelName: 'gemini-2.0-flash-exp-image-generation',
+      contextWindow: 32768,
+      maxOutputTokens: 8192,
+      attachments: ['image'],
+      imageOutput: true,
     },
     {
       id: 'gemini-2.0-flash-lite',
       name: 'Gemini 2.0 Flash-Lite',
       provider: 'google',
       modelName: 'gemini-2.0-flash-lite',
+      contextWindow: 1048576,
+      maxOutputTokens: 8192,
+      attachments: GEMINI_ATTACHMENTS,
     },
     {
       id: 'gemini-2.5-pro-preview-03-25',
       name: 'Gemini 2.5 Pro Preview 03-25',
       provider: 'google',
       modelName: 'gemini-2.5-pro-preview-03-25',
+      contextWindow: 1048576,
+      maxOutputTokens: 65536,
+      reasoning: true,
+      attachments: GEMINI_ATTACHMENTS,
     },
     {
       id: 'gemini-2.5-flash-preview-04-17',
       name: 'Gemini 2.5 Flash Preview 04-17',
       provider: 'google',
       modelName: 'gemini-2.5-flash-preview-04-17',
+      contextWindow: 1048576,
+      maxOutputTokens: 65536,
+      reasoning: true,
+      attachments: GEMINI_ATTACHMENTS,
     },
     // Add more LLM configurations here as needed
   ];
   
+  /**
+   * List of available LLMs for the application. Starts as the seed list and is
+   * replaced at runtime with the database catalog (see `catalog.server.ts`).
+   */
+  export const AVAILABLE_LLMS: LlmConfig[] = [...SEED_LLMS];
+  
   /**
    * Finds an LLM configuration by its ID.
    * @param id The ID of the LLM to find.
@@ -95,9 +178,17 @@ export interface LlmConfig {
   }
   
   /**
-   * Gets the default LLM (the first one in the list).
+   * Replaces the contents of AVAILABLE_LLMS in place, so existing imports see the new list.
+   * @param llms The complete model list.
+   */
+  export function setAvailableLlms(llms: LlmConfig[]): void {
+    AVAILABLE_LLMS.splice(0, AVAILABLE_LLMS.length, ...llms);
+  }
+  
+  /**
+   * Gets the default LLM (the one flagged `isDefault`, otherwise the first one in the list).
    * @returns The default LlmConfig object or undefined if the list is empty.
    */
   export function getDefaultLlm(): LlmConfig | undefined {
-    return AVAILABLE_LLMS[0];
+    return AVAILABLE_LLMS.find(llm => llm.isDefault) ?? AVAILABLE_LLMS[0];
   }
\ No newline at end of file
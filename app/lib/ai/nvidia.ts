@@ -1,15 +1,117 @@
 import OpenAI from 'openai';
-
-const openai = new OpenAI({
-  apiKey: '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',
-  baseURL: 'https://integrate.api.nvidia.com/v1',
-});
+import type { ChatCompletionChunk, ChatCompletionMessageParam } from 'openai/resources/chat/completions';
+import { mapCommonError, toOpenAIMessages, resolveGenerationParams, type ChatProvider, type GenerationParams, type ChatStreamChunk } from './provider';
 
 const DEFAULT_MODEL = "deepseek-ai/deepseek-r1-distill-llama-8b";
 
+/**
+ * Creates a client for NVIDIA NIM, which serves an OpenAI-compatible API.
+ * @returns An OpenAI client pointed at integrate.api.nvidia.com.
+ */
+export function getNvidiaClient() {
+  const apiKey = process.env.NVIDIA_API_KEY;
+  if (!apiKey) {
+    throw new Error('NVIDIA_API_KEY environment variable is not set.');
+  }
+
+  return new OpenAI({
+    apiKey: apiKey,
+    baseURL: 'https://integrate.api.nvidia.com/v1',
+  });
+}
+
+/**
+ * Helper function to transform the NIM stream into the expected format.
+ * @param stream - The stream from the NIM API.
+ * @returns An async generator that yields objects with text() and reasoning() methods.
+ */
+async function* nvidiaStreamTransformer(
+  stream: AsyncIterable<ChatCompletionChunk>
+): AsyncGenerator<ChatStreamChunk> {
+  for await (const chunk of stream) {
+    // Reasoning models hosted on NIM report their thinking in `reasoning_content`
+    const delta = chunk.choices[0]?.delta as (ChatCompletionChunk.Choice.Delta & { reasoning_content?: string }) | undefined;
+    const content = delta?.content || "";
+    const reasoning = delta?.reasoning_content || "";
+    if (content || reasoning) {
+      yield { text: () => content, reasoning: () => reasoning };
+    }
+  }
+}
+
+/**
+ * Generates a chat response using a NIM-hosted model.
+ * @param messages - The messages to send to the chat model.
+ * @param modelName - The NIM model identifier (e.g., 'meta/llama-3.3-70b-instruct').
+ * @param params - Sampling parameters; unset values use this provider's defaults.
+ * @param signal - Optional AbortSignal to cancel the request.
+ * @returns The generated response content.
+ */
+export async function generateChatResponse(
+  messages: ChatCompletionMessageParam[],
+  modelName: string = DEFAULT_MODEL,
+  params: GenerationParams = {},
+  signal?: AbortSignal
+): Promise<{ content: string }> {
+  const client = getNvidiaClient();
+
+  try {
+    const completion = await client.chat.completions.create({
+      model: modelName,
+      messages: messages,
+      temperature: params.temperature ?? 0.6,
+      top_p: params.topP ?? 0.7,
+      max_tokens: params.maxOutputTokens,
+    }, { signal });
+
+    return { content: completion.choices[0].message.content || "" };
+  } catch (error) {
+    console.error(`Error generating chat response with NVIDIA NIM (${modelName}):`, error);
+    throw mapCommonError(error, 'NVIDIA NIM');
+  }
+}
+
+/**
+ * Streams a chat response using a NIM-hosted model.
+ * @param messages - The messages to send to the chat model.
+ * @param modelName - The NIM model identifier (e.g., 'meta/llama-3.3-70b-instruct').
+ * @param signal - Optional AbortSignal to cancel the request.
+ * @param params - Sampling parameters; unset values use this provider's defaults.
+ * @returns An object containing the async iterable stream compatible with other providers.
+ */
+export async function streamChatResponse(
+  messages: ChatCompletionMessageParam[],
+  modelName: string = DEFAULT_MODEL,
+  signal?: AbortSignal,
+  params: GenerationParams = {}
+): Promise<{ stream: AsyncIterable<ChatStreamChunk> }> {
+  const client = getNvidiaClient();
+
+  try {
+    const stream = await client.chat.completions.create({
+      model: modelName,
+      messages: messages,
+      temperature: params.temperature ?? 0.6,
+      top_p: params.topP ?? 0.7,
+      stream: true,
+      max_tokens: params.maxOutputTokens,
+    }, { signal });
+
+    return { stream: nvidiaStreamTransformer(stream) };
+  } catch (error) {
+    if (error instanceof Error && error.name === 'AbortError') {
+      console.log(`NVIDIA NIM stream request aborted (${modelName}).`);
+      // Re-throw the AbortError so the caller can handle it
+      throw error;
+    }
+    console.error(`Error streaming chat response with NVIDIA NIM (${modelName}):`, error);
+    throw mapCommonError(error, 'NVIDIA NIM');
+  }
+}
+
 export async function generateTitle(prompt: string, model: string = DEFAULT_MODEL): Promise<string> {
   try {
-    const completion = await openai.chat.completions.create({
+    const completion = await getNvidiaClient().chat.completions.create({
       model,
       messages: [{
         role: "user",
@@ -28,11 +130,20 @@ export async function generateTitle(prompt: string, model: string = DEFAULT_MODE
   }
 }
 
-// Example usage (remove or comment out in production)
-/*
-async function main() {
-  const title = await generateTitle("Generate a catchy blog post title about AI in healthcare.");
-  console.log("Generated Title:", title);
-}
-main();
-*/
\ No newline at end of file
+/**
+ * ChatProvider adapter for NVIDIA NIM.
+ */
+export const nvidiaProvider: ChatProvider = {
+  id: 'nvidia',
+  capabilities: { streaming: true, systemPrompt: true, images: false, reasoning: true, topK: false },
+  defaultParams: { temperature: 0.6, topP: 0.7 },
+  generate(messages, llm, options = {}) {
+    return generateChatResponse(toOpenAIMessages(messages, options.systemPrompt), llm.modelName, resolveGenerationParams(nvidiaProvider, llm, options.params), options.signal);
+  },
+  stream(messages, llm, options = {}) {
+    return streamChatResponse(toOpenAIMessages(messages, options.systemPrompt), llm.modelName, options.signal, resolveGenerationParams(nvidiaProvider, llm, options.params));
+  },
+  mapError(error) {
+    return mapCommonError(error, 'NVIDIA NIM');
+  },
+};
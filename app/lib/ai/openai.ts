@@ -1,5 +1,6 @@
 import OpenAI from 'openai';
 import type { ChatCompletionMessageParam } from 'openai/resources/chat/completions';
+import { mapCommonError, toOpenAIMessages, resolveGenerationParams, type ChatProvider, type GenerationParams } from './provider';
 
 /**
  * Creates an OpenAI client instance.
@@ -33,23 +34,29 @@ async function* openAIStreamTransformer(
  * Generates a chat response using the OpenAI API.
  * @param messages - The messages to send to the chat model.
  * @param modelName - The specific OpenAI model to use (e.g., 'gpt-4o').
+ * @param params - Sampling parameters; unset values use this provider's defaults.
+ * @param signal - Optional AbortSignal to cancel the request.
  * @returns The generated response content.
  */
 export async function generateChatResponse(
   messages: ChatCompletionMessageParam[],
-  modelName: string = "gpt-4o" // Default to gpt-4o
+  modelName: string = "gpt-4o", // Default to gpt-4o
+  params: GenerationParams = {},
+  signal?: AbortSignal
 ): Promise<{ content: string }> {
   const client = getOpenAIClient();
   try {
     const completion = await client.chat.completions.create({
       model: modelName,
       messages: messages,
-      temperature: 0.7,
-    });
+      temperature: params.temperature ?? 0.7,
+      top_p: params.topP,
+      max_tokens: params.maxOutputTokens,
+    }, { signal });
     return { content: completion.choices[0].message.content || "" };
   } catch (error) {
     console.error(`Error generating chat response with OpenAI (${modelName}):`, error);
-    throw new Error(`Failed to generate response with OpenAI (${modelName}).`);
+    throw mapCommonError(error, 'OpenAI');
   }
 }
 
@@ -58,20 +65,24 @@ export async function generateChatResponse(
  * @param messages - The messages to send to the chat model.
  * @param modelName - The specific OpenAI model to use (e.g., 'gpt-4o').
  * @param signal - Optional AbortSignal to cancel the request.
+ * @param params - Sampling parameters; unset values use this provider's defaults.
  * @returns An object containing the async iterable stream compatible with other providers.
  */
 export async function streamChatResponse(
   messages: ChatCompletionMessageParam[],
   modelName: string = "gpt-4o",
-  signal?: AbortSignal // Add signal parameter
+  signal?: AbortSignal, // Add signal parameter
+  params: GenerationParams = {}
 ): Promise<{ stream: AsyncIterable<{ text: () => string }> }> {
   const client = getOpenAIClient();
   try {
     const stream = await client.chat.completions.create({
       model: modelName,
       messages: messages,
-      temperature: 0.7,
+      temperature: params.temperature ?? 0.7,
+      top_p: params.topP,
       stream: true,
+      max_tokens: params.maxOutputTokens,
     }, { signal }); // Pass signal to the create method options
 
     const transformedStream = openAIStreamTransformer(stream);
@@ -83,6 +94,24 @@ export async function streamChatResponse(
         throw error;
     }
     console.error(`Error streaming chat response with OpenAI (${modelName}):`, error);
-    throw new Error(`Failed to stream response with OpenAI (${modelName}).`);
+    throw mapCommonError(error, 'OpenAI');
   }
 }
+
+/**
+ * ChatProvider adapter for OpenAI.
+ */
+export const openaiProvider: ChatProvider = {
+  id: 'openai',
+  capabilities: { streaming: true, systemPrompt: true, images: true, reasoning: false, topK: false },
+  defaultParams: { temperature: 0.7 },
+  generate(messages, llm, options = {}) {
+    return generateChatResponse(toOpenAIMessages(messages, options.systemPrompt), llm.modelName, resolveGenerationParams(openaiProvider, llm, options.params), options.signal);
+  },
+  stream(messages, llm, options = {}) {
+    return streamChatResponse(toOpenAIMessages(messages, options.systemPrompt), llm.modelName, options.signal, resolveGenerationParams(openaiProvider, llm, options.params));
+  },
+  mapError(error) {
+    return mapCommonError(error, 'OpenAI');
+  },
+};
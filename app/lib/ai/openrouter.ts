@@ -1,5 +1,6 @@
 import OpenAI from 'openai';
 import type { ChatCompletionMessageParam } from 'openai/resources/chat/completions';
+import { mapCommonError, toOpenAIMessages, resolveGenerationParams, type ChatProvider, type GenerationParams, type ChatStreamChunk } from './provider';
 
 /**
  * Creates an OpenRouter client instance with the provided API key.
@@ -23,17 +24,20 @@ export function getOpenRouterClient() {
 
 /**
  * Helper function to transform the OpenRouter stream into the expected format.
+ * Reasoning models stream their thinking in `delta.reasoning` before the answer.
  * @param stream - The stream from OpenRouter API.
- * @returns An async generator that yields objects with a text() method.
+ * @returns An async generator that yields objects with text() and reasoning() methods.
  */
 async function* openRouterStreamTransformer(
   stream: AsyncIterable<any>
-): AsyncGenerator<{ text: () => string }> {
+): AsyncGenerator<ChatStreamChunk> {
   for await (const chunk of stream) {
-    const content = chunk.choices[0]?.delta?.content || "";
-    if (content) {
+    const delta = chunk.choices[0]?.delta;
+    const content = delta?.content || "";
+    const reasoning = delta?.reasoning || "";
+    if (content || reasoning) {
       // Yield an object with a text() method, similar to Gemini's response format
-      yield { text: () => content };
+      yield { text: () => content, reasoning: () => reasoning };
     }
   }
 }
@@ -42,11 +46,15 @@ async function* openRouterStreamTransformer(
  * Generates a chat response using the OpenRouter API.
  * @param messages - The messages to send to the chat model.
  * @param modelName - The specific OpenRouter model identifier (e.g., 'deepseek/deepseek-chat').
+ * @param params - Sampling parameters; the reply length defaults to 32000 tokens.
+ * @param signal - Optional AbortSignal to cancel the request.
  * @returns The generated response content.
  */
 export async function generateChatResponse(
   messages: ChatCompletionMessageParam[],
-  modelName: string // Make modelName required
+  modelName: string, // Make modelName required
+  params: GenerationParams = {},
+  signal?: AbortSignal
 ): Promise<{ content: string }> {
   const client = getOpenRouterClient();
   
@@ -54,14 +62,15 @@ export async function generateChatResponse(
     const completion = await client.chat.completions.create({
       model: modelName, // Use the provided modelName
       messages: messages,
-      temperature: 0.7,
-      max_tokens: 32000,
-    });
+      temperature: params.temperature ?? 0.7,
+      top_p: params.topP,
+      max_tokens: params.maxOutputTokens ?? 32000,
+    }, { signal });
     
     return { content: completion.choices[0].message.content || "" };
   } catch (error) {
     console.error(`Error generating chat response with OpenRouter (${modelName}):`, error);
-    throw new Error(`Failed to generate response with OpenRouter (${modelName}).`);
+    throw mapCommonError(error, 'OpenRouter');
   }
 }
 
@@ -70,23 +79,31 @@ export async function generateChatResponse(
  * @param messages - The messages to send to the chat model.
  * @param modelName - The specific OpenRouter model identifier (e.g., 'deepseek/deepseek-chat').
  * @param signal - Optional AbortSignal to cancel the request.
+ * @param params - Sampling parameters; the reply length defaults to 32000 tokens.
+ * @param includeReasoning - Ask OpenRouter to stream the model's reasoning tokens.
  * @returns An object containing the async iterable stream compatible with other providers.
  */
 export async function streamChatResponse(
   messages: ChatCompletionMessageParam[],
   modelName: string,
-  signal?: AbortSignal // Add signal parameter
-): Promise<{ stream: AsyncIterable<{ text: () => string }> }> {
+  signal?: AbortSignal, // Add signal parameter
+  params: GenerationParams = {},
+  includeReasoning: boolean = false
+): Promise<{ stream: AsyncIterable<ChatStreamChunk> }> {
   const client = getOpenRouterClient();
 
   try {
     const stream = await client.chat.completions.create({
       model: modelName,
       messages: messages,
-      temperature: 0.7,
+      temperature: params.temperature ?? 0.7,
+      top_p: params.topP,
       stream: true,
-      max_tokens: 32000, // Set max_tokens for streaming
-    }, { signal }); // Pass signal to the create method options
+      max_tokens: params.maxOutputTokens ?? 32000, // Set max_tokens for streaming
+      // OpenRouter extensions, not part of the OpenAI request type
+      ...(params.topK !== undefined ? { top_k: params.topK } : {}),
+      ...(includeReasoning ? { include_reasoning: true } : {}),
+    } as OpenAI.Chat.ChatCompletionCreateParamsStreaming, { signal }); // Pass signal to the create method options
 
     const transformedStream = openRouterStreamTransformer(stream);
     return { stream: transformedStream };
@@ -97,6 +114,24 @@ export async function streamChatResponse(
         throw error;
     }
     console.error(`Error streaming chat response with OpenRouter (${modelName}):`, error);
-    throw new Error(`Failed to stream response with OpenRouter (${modelName}).`);
+    throw mapCommonError(error, 'OpenRouter');
   }
-}
\ No newline at end of file
+}
+
+/**
+ * ChatProvider adapter for OpenRouter.
+ */
+export const openRouterProvider: ChatProvider = {
+  id: 'openrouter',
+  capabilities: { streaming: true, systemPrompt: true, images: false, reasoning: true, topK: true },
+  defaultParams: { temperature: 0.7 },
+  generate(messages, llm, options = {}) {
+    return generateChatResponse(toOpenAIMessages(messages, options.systemPrompt), llm.modelName, resolveGenerationParams(openRouterProvider, llm, options.params), options.signal);
+  },
+  stream(messages, llm, options = {}) {
+    return streamChatResponse(toOpenAIMessages(messages, options.systemPrompt), llm.modelName, options.signal, resolveGenerationParams(openRouterProvider, llm, options.params), !!llm.reasoning);
+  },
+  mapError(error) {
+    return mapCommonError(error, 'OpenRouter');
+  },
+};
@@ -0,0 +1,107 @@
+import type { ModelParams } from '~/lib/db/schema';
+import type { LlmConfig } from './models.config';
+import type { GenerationParams } from './provider';
+
+/**
+ * Accepted ranges for the chat settings panel. Max output tokens is bounded
+ * per model by `LlmConfig.maxOutputTokens`.
+ */
+export const PARAM_LIMITS = {
+  temperature: { min: 0, max: 2, step: 0.05 },
+  topP: { min: 0, max: 1, step: 0.01 },
+  topK: { min: 1, max: 500, step: 1 },
+  systemPromptLength: 8000,
+};
+
+function checkRange(
+  value: unknown,
+  label: string,
+  min: number,
+  max: number,
+  integer = false
+): string | null {
+  if (typeof value !== 'number' || !Number.isFinite(value)) return `${label} must be a number.`;
+  if (integer && !Number.isInteger(value)) return `${label} must be a whole number.`;
+  if (value < min || value > max) return `${label} must be between ${min} and ${max}.`;
+  return null;
+}
+
+/**
+ * Checks chat settings against the accepted ranges and the model's limits.
+ * Unset (null/undefined) fields are dropped; an empty system prompt counts as unset.
+ * @returns The cleaned settings, or the first problem found.
+ */
+export function validateModelParams(
+  input: unknown,
+  llm: Pick<LlmConfig, 'name' | 'maxOutputTokens'>
+): { params: ModelParams; error?: string } {
+  if (input === null || input === undefined) return { params: {} };
+  if (typeof input !== 'object' || Array.isArray(input)) {
+    return { params: {}, error: 'Model parameters must be an object.' };
+  }
+
+  const raw = input as Record<string, unknown>;
+  const params: ModelParams = {};
+  const isSet = (key: string) => raw[key] !== undefined && raw[key] !== null;
+
+  const checks: [keyof ModelParams, string, number, number, boolean][] = [
+    ['temperature', 'Temperature', PARAM_LIMITS.temperature.min, PARAM_LIMITS.temperature.max, false],
+    ['top_p', 'Top-p', PARAM_LIMITS.topP.min, PARAM_LIMITS.topP.max, false],
+    ['top_k', 'Top-k', PARAM_LIMITS.topK.min, PARAM_LIMITS.topK.max, true],
+    ['max_output_tokens', `Max output tokens for ${llm.name}`, 1, llm.maxOutputTokens, true],
+  ];
+  for (const [key, label, min, max, integer] of checks) {
+    if (!isSet(key)) continue;
+    const error = checkRange(raw[key], label, min, max, integer);
+    if (error) return { params: {}, error };
+    (params as Record<string, number>)[key] = raw[key] as number;
+  }
+
+  if (isSet('system_prompt')) {
+    if (typeof raw.system_prompt !== 'string') {
+      return { params: {}, error: 'System prompt must be text.' };
+    }
+    if (raw.system_prompt.length > PARAM_LIMITS.systemPromptLength) {
+      return { params: {}, error: `System prompt must be at most ${PARAM_LIMITS.systemPromptLength} characters.` };
+    }
+    if (raw.system_prompt.trim()) params.system_prompt = raw.system_prompt;
+  }
+
+  return { params };
+}
+
+/**
+ * Lowers a reply cap above the model's limit, e.g. one set for a model with a
+ * larger limit before switching. Other fields are left as they are.
+ */
+export function fitParamsToModel<T extends ModelParams>(params: T, llm: Pick<LlmConfig, 'maxOutputTokens'>): T {
+  const { max_output_tokens: maxOutputTokens } = params;
+  return typeof maxOutputTokens === 'number' && maxOutputTokens > llm.maxOutputTokens
+    ? { ...params, max_output_tokens: llm.maxOutputTokens }
+    : params;
+}
+
+/**
+ * Converts stored settings into provider generation params.
+ */
+export function toGenerationParams(params: ModelParams): GenerationParams {
+  return {
+    ...(params.temperature !== undefined ? { temperature: params.temperature } : {}),
+    ...(params.top_p !== undefined ? { topP: params.top_p } : {}),
+    ...(params.top_k !== undefined ? { topK: params.top_k } : {}),
+    ...(params.max_output_tokens !== undefined ? { maxOutputTokens: params.max_output_tokens } : {}),
+  };
+}
+
+/**
+ * Converts the generation params used for a reply into the stored shape.
+ */
+export function toModelParams(params: GenerationParams, systemPrompt?: string): ModelParams {
+  return {
+    ...(params.temperature !== undefined ? { temperature: params.temperature } : {}),
+    ...(params.topP !== undefined ? { top_p: params.topP } : {}),
+    ...(params.topK !== undefined ? { top_k: params.topK } : {}),
+    ...(params.maxOutputTokens !== undefined ? { max_output_tokens: params.maxOutputTokens } : {}),
+    ...(systemPrompt ? { system_prompt: systemPrompt } : {}),
+  };
+}
@@ -0,0 +1,202 @@
+import type { ChatCompletionMessageParam } from 'openai/resources/chat/completions';
+import type { LlmConfig } from './models.config';
+
+/**
+ * Provider-neutral chat message. Adapters convert these into whatever shape
+ * their SDK expects (Gemini `parts`, OpenAI `content`, ...).
+ */
+export interface ChatHistoryMessage {
+  role: 'user' | 'assistant' | 'system';
+  content: string;
+  attachments?: ChatAttachment[];
+}
+
+/**
+ * A file sent along with a user message, already checked against the model's
+ * capabilities (see `attachments.ts`). `data` is base64-encoded.
+ */
+export interface ChatAttachment {
+  kind: 'image' | 'document' | 'video' | 'audio';
+  mimeType: string;
+  name: string;
+  data: string;
+}
+
+/**
+ * An image the model generated as part of its answer. `data` is base64-encoded.
+ */
+export interface GeneratedImage {
+  mimeType: string;
+  data: string;
+}
+
+/**
+ * A single streamed chunk. Mirrors Gemini's chunk shape so every provider
+ * can be consumed the same way by the routes. `reasoning` carries the
+ * model's thinking trace for providers that expose one; it is never part
+ * of the answer. `images` carries generated images (see `LlmConfig.imageOutput`).
+ */
+export interface ChatStreamChunk {
+  text: () => string;
+  reasoning?: () => string;
+  images?: () => GeneratedImage[];
+}
+
+export interface ChatStreamResult {
+  stream: AsyncIterable<ChatStreamChunk>;
+}
+
+export interface ChatGenerateResult {
+  content: string;
+}
+
+/**
+ * Sampling parameters. Unset values fall back to each provider's own defaults;
+ * `topK` is only sent to APIs that support it (see `capabilities.topK`).
+ */
+export interface GenerationParams {
+  temperature?: number;
+  topP?: number;
+  topK?: number;
+  maxOutputTokens?: number;
+}
+
+/**
+ * Per-request options shared by every provider. `params` override the
+ * model's defaults; `systemPrompt` becomes Gemini's `systemInstruction` or a
+ * leading system message for OpenAI-compatible APIs.
+ */
+export interface ChatRequestOptions {
+  signal?: AbortSignal;
+  params?: GenerationParams;
+  systemPrompt?: string;
+}
+
+/**
+ * What a provider supports. Routes use this to decide what to send.
+ */
+export interface ProviderCapabilities {
+  streaming: boolean;
+  systemPrompt: boolean;
+  images: boolean;
+  reasoning: boolean;
+  topK: boolean;
+}
+
+export type ProviderErrorCode = 'auth' | 'quota' | 'safety' | 'aborted' | 'unknown';
+
+/**
+ * Normalised provider failure. `userMessage` is safe to show in the UI,
+ * `message` keeps the underlying SDK detail for logs.
+ */
+export class ProviderError extends Error {
+  code: ProviderErrorCode;
+  userMessage: string;
+  status: number;
+
+  constructor(code: ProviderErrorCode, message: string, userMessage: string, status = 500) {
+    super(message);
+    this.name = 'ProviderError';
+    this.code = code;
+    this.userMessage = userMessage;
+    this.status = status;
+  }
+}
+
+/**
+ * Contract every LLM provider implements. The registry in `registry.ts`
+ * maps `LlmConfig.provider` to one of these.
+ */
+export interface ChatProvider {
+  id: LlmConfig['provider'];
+  capabilities: ProviderCapabilities;
+  defaultParams: GenerationParams; // What the provider sends when neither the model nor the chat sets a value
+  generate(messages: ChatHistoryMessage[], llm: LlmConfig, options?: ChatRequestOptions): Promise<ChatGenerateResult>;
+  stream(messages: ChatHistoryMessage[], llm: LlmConfig, options?: ChatRequestOptions): Promise<ChatStreamResult>;
+  mapError(error: unknown): ProviderError;
+}
+
+/**
+ * The parameters actually sent for a request: provider defaults, then the
+ * model's configured defaults, then per-request overrides. `topK` is dropped
+ * for APIs without it and the reply length is capped at the model's limit.
+ */
+export function resolveGenerationParams(
+  provider: ChatProvider,
+  llm: LlmConfig,
+  overrides: GenerationParams = {}
+): GenerationParams {
+  const { topK, maxOutputTokens, ...rest } = { ...provider.defaultParams, ...llm.params, ...overrides };
+  return {
+    ...rest,
+    ...(provider.capabilities.topK && topK !== undefined ? { topK } : {}),
+    maxOutputTokens: Math.min(maxOutputTokens ?? llm.maxOutputTokens, llm.maxOutputTokens),
+  };
+}
+
+/**
+ * Converts neutral history into OpenAI chat-completions messages, opening
+ * with the system prompt when there is one. Shared by every OpenAI-compatible provider.
+ */
+export function toOpenAIMessages(messages: ChatHistoryMessage[], systemPrompt?: string): ChatCompletionMessageParam[] {
+  const converted: ChatCompletionMessageParam[] = messages.map(msg => {
+    const images = msg.attachments?.filter(a => a.kind === 'image') ?? [];
+    if (msg.role !== 'user' || images.length === 0) {
+      return { role: msg.role, content: msg.content };
+    }
+    // Images travel as data URLs in `image_url` content parts
+    return {
+      role: 'user',
+      content: [
+        ...(msg.content ? [{ type: 'text' as const, text: msg.content }] : []),
+        ...images.map(image => ({
+          type: 'image_url' as const,
+          image_url: { url: `data:${image.mimeType};base64,${image.data}` },
+        })),
+      ],
+    };
+  });
+  return systemPrompt ? [{ role: 'system', content: systemPrompt }, ...converted] : converted;
+}
+
+/**
+ * Separates system-role history messages for APIs that take the system
+ * prompt out of band (Gemini's `systemInstruction`), joining them after the
+ * request's own system prompt.
+ */
+export function splitSystemMessages(
+  messages: ChatHistoryMessage[],
+  systemPrompt?: string
+): { systemPrompt?: string; messages: ChatHistoryMessage[] } {
+  const systemParts = [systemPrompt, ...messages.filter(msg => msg.role === 'system').map(msg => msg.content)]
+    .filter((part): part is string => !!part?.trim());
+  return {
+    systemPrompt: systemParts.length > 0 ? systemParts.join('\n\n') : undefined,
+    messages: messages.filter(msg => msg.role !== 'system'),
+  };
+}
+
+/**
+ * Maps common SDK failures (OpenAI-style status codes, aborts, key errors)
+ * to a ProviderError. Providers can layer their own checks on top.
+ */
+export function mapCommonError(error: unknown, providerName: string): ProviderError {
+  if (error instanceof ProviderError) return error;
+
+  const err = error as { name?: string; status?: number; message?: string } | undefined;
+  const message = err?.message || String(error);
+
+  if (err?.name === 'AbortError' || err?.name === 'APIUserAbortError') {
+    return new ProviderError('aborted', message, 'The request was cancelled.', 499);
+  }
+  if (err?.status === 401 || err?.status === 403 || /api[ _]key/i.test(message)) {
+    return new ProviderError('auth', message, "There's an issue with the API configuration. Please contact the administrator.", 502);
+  }
+  if (err?.status === 429 || /quota|rate limit/i.test(message)) {
+    return new ProviderError('quota', message, "We've reached our usage limit for the AI service. Please try again later.", 429);
+  }
+  if (/blocked|safety/i.test(message)) {
+    return new ProviderError('safety', message, 'Your request was blocked by the AI safety filters. Please try a different question.', 400);
+  }
+  return new ProviderError('unknown', message, `Failed to get response from ${providerName}.`);
+}
@@ -0,0 +1,42 @@
+import type { LlmConfig } from './models.config';
+import type { ChatProvider } from './provider';
+import { deepSeekProvider } from './deepseek';
+import { nvidiaProvider } from './nvidia';
+import { localProvider } from './local';
+import { geminiProvider } from './gemini';
+import { openaiProvider } from './openai';
+import { openRouterProvider } from './openrouter';
+
+/**
+ * Registry of chat providers keyed by `LlmConfig.provider`.
+ * Adding a provider means exporting a ChatProvider from its module and listing it here.
+ */
+const CHAT_PROVIDERS: Record<LlmConfig['provider'], ChatProvider> = {
+  google: geminiProvider,
+  openai: openaiProvider,
+  openrouter: openRouterProvider,
+  deepseek: deepSeekProvider,
+  nvidia: nvidiaProvider,
+  local: localProvider,
+};
+
+/**
+ * Looks up the provider adapter for an LLM configuration.
+ * @param llm The LLM configuration (or its provider key).
+ * @returns The matching ChatProvider.
+ */
+export function getChatProvider(llm: LlmConfig | LlmConfig['provider']): ChatProvider {
+  const key = typeof llm === 'string' ? llm : llm.provider;
+  const provider = CHAT_PROVIDERS[key];
+  if (!provider) {
+    throw new Error(`Unsupported provider configured: ${key}`);
+  }
+  return provider;
+}
+
+/**
+ * Whether a provider key (e.g. from the `ai_models` table) has an adapter.
+ */
+export function isSupportedProvider(key: string): key is LlmConfig['provider'] {
+  return Object.prototype.hasOwnProperty.call(CHAT_PROVIDERS, key);
+}
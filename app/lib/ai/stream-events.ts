@@ -0,0 +1,101 @@
+/**
+ * Event protocol for `/api/stream`, shared by the route and the chat context.
+ * Sent as `text/event-stream`: each event is one `event:`/`data:` frame with
+ * the JSON-encoded event as data.
+ */
+
+import type { Citation, MessageAttachment } from '~/lib/db/schema';
+
+export interface StreamedMessage {
+  id: string;
+  chat_id: string;
+  role: 'assistant';
+  content: string;
+  model: string;
+  created_at: string;
+  reasoning?: string;
+  citations?: Citation[];
+  attachments?: MessageAttachment[]; // Generated images
+}
+
+export type StreamEvent =
+  | { type: 'delta'; text: string }
+  | { type: 'reasoning'; text: string }
+  | { type: 'image'; attachment: MessageAttachment; data: string } // A stored generated image; `data` is base64 for an instant preview
+  | { type: 'usage'; inputTokens: number; outputTokens: number; estimated: boolean }
+  | { type: 'error'; message: string; code?: string }
+  | { type: 'done'; message: StreamedMessage };
+
+export type StreamEventType = StreamEvent['type'];
+
+export const STREAM_EVENT_CONTENT_TYPE = 'text/event-stream; charset=utf-8';
+
+/**
+ * Serializes an event as an SSE frame.
+ */
+export function encodeStreamEvent(event: StreamEvent): string {
+  return `event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`;
+}
+
+/**
+ * Parses a single SSE frame. Returns null for comments, keep-alives and
+ * frames that aren't valid events.
+ */
+function parseStreamFrame(frame: string): StreamEvent | null {
+  const data = frame
+    .split('\n')
+    .filter(line => line.startsWith('data:'))
+    .map(line => line.slice(5).trimStart())
+    .join('\n');
+  if (!data) return null;
+
+  try {
+    const event = JSON.parse(data);
+    return event && typeof event.type === 'string' ? (event as StreamEvent) : null;
+  } catch (e) {
+    console.error("Error parsing stream event:", e);
+    return null;
+  }
+}
+
+/**
+ * Reads an `/api/stream` response body and yields its events in order.
+ * Frames may be split across network chunks; they're buffered until complete.
+ * If `signal` is aborted mid-read the generator ends quietly.
+ */
+export async function* readStreamEvents(
+  body: ReadableStream<Uint8Array>,
+  signal?: AbortSignal
+): AsyncGenerator<StreamEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      let result: ReadableStreamReadResult<Uint8Array>;
+      try {
+        result = await reader.read();
+      } catch (err) {
+        if (signal?.aborted) return;
+        throw err;
+      }
+      if (result.done) break;
+
+      buffer += decoder.decode(result.value, { stream: true }).replace(/\r\n/g, '\n');
+      let boundary = buffer.indexOf('\n\n');
+      while (boundary !== -1) {
+        const event = parseStreamFrame(buffer.slice(0, boundary));
+        buffer = buffer.slice(boundary + 2);
+        if (event) yield event;
+        boundary = buffer.indexOf('\n\n');
+      }
+    }
+
+    buffer += decoder.decode();
+    const trailing = parseStreamFrame(buffer);
+    if (trailing) yield trailing;
+  } finally {
+    reader.releaseLock();
+  }
+}
@@ -0,0 +1,161 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { AVAILABLE_LLMS, findLlmById } from '~/lib/ai/models.config';
+import { PARAM_LIMITS, validateModelParams } from '~/lib/ai/params';
+import type { Assistant } from './schema';
+
+const ASSISTANT_COLUMNS = 'id, user_id, name, description, system_prompt, model_id, params, created_at, updated_at';
+const NAME_MAX_LENGTH = 80;
+const DESCRIPTION_MAX_LENGTH = 280;
+
+export type AssistantInput = Pick<Assistant, 'name' | 'description' | 'system_prompt' | 'model_id' | 'params'>;
+
+/**
+ * Checks assistant fields sent by the client. The model must be in the
+ * catalog (call `loadModelCatalog` first) and its params must fit that model.
+ * @returns The cleaned fields, or the first problem found.
+ */
+export function validateAssistantInput(input: Record<string, unknown>): { assistant?: AssistantInput; error?: string } {
+  const name = typeof input.name === 'string' ? input.name.trim() : '';
+  if (!name) return { error: 'Name is required.' };
+  if (name.length > NAME_MAX_LENGTH) return { error: `Name must be at most ${NAME_MAX_LENGTH} characters.` };
+
+  const description = typeof input.description === 'string' ? input.description.trim() : '';
+  if (description.length > DESCRIPTION_MAX_LENGTH) {
+    return { error: `Description must be at most ${DESCRIPTION_MAX_LENGTH} characters.` };
+  }
+
+  const systemPrompt = typeof input.system_prompt === 'string' ? input.system_prompt.trim() : '';
+  if (!systemPrompt) return { error: 'System prompt is required.' };
+  if (systemPrompt.length > PARAM_LIMITS.systemPromptLength) {
+    return { error: `System prompt must be at most ${PARAM_LIMITS.systemPromptLength} characters.` };
+  }
+
+  const modelId = typeof input.model_id === 'string' && input.model_id ? input.model_id : null;
+  const llm = modelId ? findLlmById(modelId) : undefined;
+  if (modelId && !llm) return { error: `Unsupported model: ${modelId}` };
+
+  let params: AssistantInput['params'] = null;
+  if (input.params !== undefined && input.params !== null) {
+    // Without a fixed model, max output tokens must fit some model; it's lowered to the chat's model when a reply is sent
+    const limits = llm ?? {
+      name: 'any available model',
+      maxOutputTokens: Math.max(1, ...AVAILABLE_LLMS.map(available => available.maxOutputTokens)),
+    };
+    const { params: checked, error } = validateModelParams(input.params, limits);
+    if (error) return { error };
+    delete checked.system_prompt; // The assistant's own prompt is stored separately
+    params = Object.keys(checked).length > 0 ? checked : null;
+  }
+
+  return {
+    assistant: {
+      name,
+      description: description || null,
+      system_prompt: systemPrompt,
+      model_id: modelId,
+      params,
+    },
+  };
+}
+
+/**
+ * Lists the user's assistants, most recently updated first.
+ */
+export async function listAssistants(
+  supabase: SupabaseClient,
+  userId: string
+): Promise<{ assistants: Assistant[]; error?: string }> {
+  const { data, error } = await supabase
+    .from('assistants')
+    .select(ASSISTANT_COLUMNS)
+    .eq('user_id', userId)
+    .order('updated_at', { ascending: false });
+
+  if (error) {
+    return { assistants: [], error: error.message };
+  }
+  return { assistants: (data as Assistant[]) || [] };
+}
+
+/**
+ * Loads an assistant owned by the given user.
+ * @returns The assistant, or null when it doesn't exist or belongs to someone else.
+ */
+export async function findOwnedAssistant(
+  supabase: SupabaseClient,
+  assistantId: string,
+  userId: string
+): Promise<{ assistant: Assistant | null; error?: string }> {
+  const { data, error } = await supabase
+    .from('assistants')
+    .select(ASSISTANT_COLUMNS)
+    .eq('id', assistantId)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    return { assistant: null, error: error.message };
+  }
+  return { assistant: data as Assistant | null };
+}
+
+/**
+ * Creates an assistant for the user.
+ */
+export async function createAssistant(
+  supabase: SupabaseClient,
+  userId: string,
+  input: AssistantInput
+): Promise<{ assistant: Assistant | null; error?: string }> {
+  const { data, error } = await supabase
+    .from('assistants')
+    .insert([{ ...input, user_id: userId }])
+    .select(ASSISTANT_COLUMNS)
+    .single();
+
+  if (error) {
+    return { assistant: null, error: error.message };
+  }
+  return { assistant: data as Assistant };
+}
+
+/**
+ * Updates one of the user's assistants.
+ * @returns The updated assistant, or null when it wasn't found.
+ */
+export async function updateAssistant(
+  supabase: SupabaseClient,
+  assistantId: string,
+  userId: string,
+  input: AssistantInput
+): Promise<{ assistant: Assistant | null; error?: string }> {
+  const { data, error } = await supabase
+    .from('assistants')
+    .update(input)
+    .eq('id', assistantId)
+    .eq('user_id', userId)
+    .select(ASSISTANT_COLUMNS)
+    .maybeSingle();
+
+  if (error) {
+    return { assistant: null, error: error.message };
+  }
+  return { assistant: data as Assistant | null };
+}
+
+/**
+ * Deletes one of the user's assistants. Chats started with it keep their settings.
+ */
+export async function deleteAssistant(
+  supabase: SupabaseClient,
+  assistantId: string,
+  userId: string
+): Promise<{ error?: string }> {
+  const { error } = await supabase
+    .from('assistants')
+    .delete()
+    .eq('id', assistantId)
+    .eq('user_id', userId);
+
+  return error ? { error: error.message } : {};
+}
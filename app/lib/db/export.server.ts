@@ -0,0 +1,53 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { CHAT_EXPORT_FORMAT, CHAT_EXPORT_VERSION, type ChatExport, type ExportedMessage } from '~/lib/export/chat-export';
+import type { Vote } from './schema';
+
+/**
+ * Loads everything the JSON export keeps of one of the user's chats.
+ * @returns The export, or null when the chat doesn't exist or belongs to someone else.
+ */
+export async function loadChatExport(
+  supabase: SupabaseClient,
+  chatId: string,
+  userId: string
+): Promise<{ chatExport: ChatExport | null; error?: string }> {
+  const { data: chat, error: chatError } = await supabase
+    .from('chats')
+    .select('id, title, model, created_at, updated_at, settings, active_leaf_id, metadata')
+    .eq('id', chatId)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (chatError) {
+    return { chatExport: null, error: chatError.message };
+  }
+  if (!chat) {
+    return { chatExport: null };
+  }
+
+  const { data, error } = await supabase
+    .from('messages')
+    .select('id, parent_id, role, content, created_at, model_params, metadata, attachments, votes(vote, reason, user_id)')
+    .eq('chat_id', chatId)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    return { chatExport: null, error: error.message };
+  }
+
+  // Only the user's own vote; votes of others can't be read anyway under RLS
+  const messages: ExportedMessage[] = (data || []).map(({ votes, ...message }) => {
+    const vote = (votes as (Pick<Vote, 'vote' | 'reason' | 'user_id'>)[] | null)?.find(v => v.user_id === userId);
+    return { ...message, vote: vote ? { vote: vote.vote, reason: vote.reason ?? null } : null } as ExportedMessage;
+  });
+
+  return {
+    chatExport: {
+      format: CHAT_EXPORT_FORMAT,
+      version: CHAT_EXPORT_VERSION,
+      exported_at: new Date().toISOString(),
+      chat,
+      messages,
+    },
+  };
+}
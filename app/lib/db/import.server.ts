@@ -0,0 +1,112 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { v4 as uuidv4 } from 'uuid';
+import type { ImportedChat, ImportSource } from '~/lib/export/chat-import';
+import type { ChatMetadata } from './schema';
+
+// Rows per insert, so a long conversation doesn't become one huge request
+const INSERT_BATCH_SIZE = 500;
+
+/**
+ * Source ids of the conversations the user already imported from `source`.
+ */
+export async function findImportedSourceIds(
+  supabase: SupabaseClient,
+  userId: string,
+  source: ImportSource
+): Promise<{ sourceIds: Set<string>; error?: string }> {
+  const { data, error } = await supabase
+    .from('chats')
+    .select('metadata')
+    .eq('user_id', userId)
+    .eq('metadata->imported_from->>source', source);
+
+  if (error) {
+    return { sourceIds: new Set(), error: error.message };
+  }
+  return {
+    sourceIds: new Set((data || []).map(row => (row.metadata as ChatMetadata).imported_from?.source_id ?? '')),
+  };
+}
+
+/**
+ * Saves an imported conversation as a new private chat of the user, keeping
+ * its original timestamps and branches. Removes the chat again if any part fails.
+ * @returns The new chat's id.
+ */
+export async function saveImportedChat(
+  supabase: SupabaseClient,
+  userId: string,
+  chat: ImportedChat
+): Promise<{ chatId: string | null; error?: string }> {
+  const chatId = uuidv4();
+  const ids = new Map(chat.messages.map(m => [m.source_id, uuidv4()]));
+  const metadata: ChatMetadata = {
+    imported_from: { source: chat.source, source_id: chat.source_id, imported_at: new Date().toISOString() },
+  };
+
+  const { error: chatError } = await supabase
+    .from('chats')
+    .insert({
+      id: chatId,
+      user_id: userId,
+      title: chat.title,
+      model: chat.model ?? null,
+      settings: chat.settings ?? null,
+      visibility: 'private',
+      created_at: chat.created_at,
+      // Placeholder just before the real value, which the last step sets
+      updated_at: new Date(Date.parse(chat.updated_at) - 1).toISOString(),
+      metadata,
+    });
+  if (chatError) {
+    return { chatId: null, error: chatError.message };
+  }
+
+  const fail = async (message: string) => {
+    await supabase.from('chats').delete().eq('id', chatId);
+    return { chatId: null, error: message };
+  };
+
+  // Messages come parents first, so every batch only points at rows already saved
+  const rows = chat.messages.map(message => ({
+    id: ids.get(message.source_id),
+    chat_id: chatId,
+    user_id: userId,
+    parent_id: message.parent_source_id ? ids.get(message.parent_source_id) : null,
+    role: message.role,
+    content: message.content,
+    created_at: message.created_at,
+    model_params: message.model_params ?? null,
+    metadata: message.metadata ?? null,
+  }));
+  for (let start = 0; start < rows.length; start += INSERT_BATCH_SIZE) {
+    const { error } = await supabase.from('messages').insert(rows.slice(start, start + INSERT_BATCH_SIZE));
+    if (error) return fail(error.message);
+  }
+
+  const votes = chat.messages
+    .filter(message => message.vote && message.role === 'assistant')
+    .map(message => ({
+      message_id: ids.get(message.source_id),
+      user_id: userId,
+      vote: message.vote!.vote,
+      reason: message.vote!.vote === 'down' ? message.vote!.reason ?? null : null,
+    }));
+  if (votes.length > 0) {
+    const { error } = await supabase.from('votes').insert(votes);
+    if (error) return fail(error.message);
+  }
+
+  // The trigger (update_updated_at_column) only keeps an updated_at that differs from the stored one,
+  // hence the placeholder. Done last so no later update moves it to NOW().
+  const { error: updateError } = await supabase
+    .from('chats')
+    .update({
+      updated_at: chat.updated_at,
+      ...(chat.active_leaf_source_id ? { active_leaf_id: ids.get(chat.active_leaf_source_id) } : {}),
+    })
+    .eq('id', chatId);
+  if (updateError) return fail(updateError.message);
+
+  return { chatId };
+}
@@ -0,0 +1,72 @@
+// Messages form a tree through `parent_id`: an edit or a regeneration adds a
+// sibling next to the message it replaces instead of overwriting it. The chat
+// shows one branch at a time, the path from the root to its active leaf.
+// Shared by the chat context and /api/stream, so nothing here touches the database.
+
+export type TreeNode = {
+  id: string;
+  parent_id?: string | null;
+  created_at: string;
+};
+
+function byCreatedAt(a: TreeNode, b: TreeNode): number {
+  return Date.parse(a.created_at) - Date.parse(b.created_at);
+}
+
+/**
+ * Children of `parentId` (null for the first turns of the chat), oldest first.
+ */
+export function getChildren<T extends TreeNode>(messages: T[], parentId: string | null): T[] {
+  return messages.filter(msg => (msg.parent_id ?? null) === parentId).sort(byCreatedAt);
+}
+
+/**
+ * The versions of a message: itself and every other message with the same parent, oldest first.
+ */
+export function getSiblings<T extends TreeNode>(messages: T[], messageId: string): T[] {
+  const message = messages.find(msg => msg.id === messageId);
+  return message ? getChildren(messages, message.parent_id ?? null) : [];
+}
+
+/**
+ * Follows the newest child from a message down to a leaf, so switching to a
+ * branch shows where that branch was last continued.
+ */
+export function findLatestLeaf<T extends TreeNode>(messages: T[], messageId: string): string {
+  let leafId = messageId;
+  const visited = new Set<string>();
+  for (;;) {
+    visited.add(leafId);
+    const children = getChildren(messages, leafId);
+    const newest = children[children.length - 1];
+    if (!newest || visited.has(newest.id)) return leafId;
+    leafId = newest.id;
+  }
+}
+
+/**
+ * Messages from the root of the chat down to (and including) `messageId`.
+ * Empty when the message isn't in the list.
+ */
+export function getPathTo<T extends TreeNode>(messages: T[], messageId: string): T[] {
+  const byId = new Map(messages.map(msg => [msg.id, msg]));
+  const path: T[] = [];
+  let current = byId.get(messageId);
+  while (current && !path.includes(current)) {
+    path.unshift(current);
+    current = current.parent_id ? byId.get(current.parent_id) : undefined;
+  }
+  return path;
+}
+
+/**
+ * The branch the chat currently shows. Without a known active leaf (a new
+ * chat, or one from before branching) the most recent message is used.
+ */
+export function getActivePath<T extends TreeNode>(messages: T[], activeLeafId?: string | null): T[] {
+  if (activeLeafId && messages.some(msg => msg.id === activeLeafId)) {
+    return getPathTo(messages, activeLeafId);
+  }
+  const newest = [...messages].sort(byCreatedAt).pop();
+  return newest ? getPathTo(messages, newest.id) : [];
+}
@@ -0,0 +1,138 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { v4 as uuidv4 } from 'uuid';
+import type { Chat, Message, MessageAttachment, MessageMetadata, ModelParams } from './schema';
+
+export type StoredMessage = Pick<Message, 'id' | 'parent_id' | 'role' | 'content' | 'created_at' | 'attachments'>;
+export type OwnedChat = Pick<Chat, 'id' | 'title' | 'summary' | 'summary_message_id' | 'settings' | 'active_leaf_id'>;
+
+/**
+ * Loads a chat owned by the given user.
+ * @returns The chat row, or null when it doesn't exist or belongs to someone else.
+ */
+export async function findOwnedChat(
+  supabase: SupabaseClient,
+  chatId: string,
+  userId: string
+): Promise<{ chat: OwnedChat | null; error?: string }> {
+  const { data, error } = await supabase
+    .from('chats')
+    .select('id, title, summary, summary_message_id, settings, active_leaf_id')
+    .eq('id', chatId)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    return { chat: null, error: error.message };
+  }
+  return { chat: data };
+}
+
+/**
+ * Fetches every persisted message of a chat, all branches, oldest first.
+ * Use `getActivePath` from message-tree.ts to get the conversation shown.
+ */
+export async function fetchChatMessages(
+  supabase: SupabaseClient,
+  chatId: string
+): Promise<{ messages: StoredMessage[]; error?: string }> {
+  const { data, error } = await supabase
+    .from('messages')
+    .select('id, parent_id, role, content, created_at, attachments')
+    .eq('chat_id', chatId)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    return { messages: [], error: error.message };
+  }
+  return { messages: (data as StoredMessage[]) || [] };
+}
+
+/**
+ * Stores the chat's rolling summary and the last message it covers.
+ */
+export async function updateChatSummary(
+  supabase: SupabaseClient,
+  chatId: string,
+  summary: string,
+  messageId: string
+): Promise<{ error?: string }> {
+  const { error } = await supabase
+    .from('chats')
+    .update({ summary, summary_message_id: messageId })
+    .eq('id', chatId);
+
+  return error ? { error: error.message } : {};
+}
+
+/**
+ * Makes the branch ending at `messageId` the one the chat shows.
+ */
+export async function updateActiveLeaf(
+  supabase: SupabaseClient,
+  chatId: string,
+  messageId: string
+): Promise<{ error?: string }> {
+  const { error } = await supabase
+    .from('chats')
+    .update({ active_leaf_id: messageId })
+    .eq('id', chatId);
+
+  return error ? { error: error.message } : {};
+}
+
+/**
+ * Stores the generation settings chosen in the chat's settings panel.
+ */
+export async function updateChatSettings(
+  supabase: SupabaseClient,
+  chatId: string,
+  settings: ModelParams
+): Promise<{ error?: string }> {
+  const { error } = await supabase
+    .from('chats')
+    .update({ settings })
+    .eq('id', chatId);
+
+  return error ? { error: error.message } : {};
+}
+
+/**
+ * Saves a message to the database. Failures are logged and returned, not thrown,
+ * so a storage hiccup never breaks the reply the user is waiting for.
+ */
+export async function saveMessage(
+  supabase: SupabaseClient,
+  chatId: string,
+  userId: string,
+  role: Message['role'],
+  content: string,
+  options: { id?: string; parentId?: string | null; createdAt?: string; metadata?: MessageMetadata; modelParams?: ModelParams; attachments?: MessageAttachment[] } = {}
+): Promise<{ messageId: string; createdAt: string; error?: string }> {
+  const messageId = options.id || uuidv4();
+  const createdAt = options.createdAt || new Date().toISOString();
+  try {
+    const { error } = await supabase
+      .from('messages')
+      .insert([{
+        id: messageId,
+        chat_id: chatId,
+        role,
+        content,
+        created_at: createdAt,
+        user_id: userId,
+        parent_id: options.parentId ?? null,
+        ...(options.metadata ? { metadata: options.metadata } : {}),
+        ...(options.modelParams ? { model_params: options.modelParams } : {}),
+        ...(options.attachments?.length ? { attachments: options.attachments } : {}),
+      }]);
+
+    if (error) {
+      console.error(`Error saving ${role} message for chat ${chatId}:`, error);
+      return { messageId, createdAt, error: error.message };
+    }
+    return { messageId, createdAt };
+  } catch (err) {
+    console.error(`Unexpected error saving ${role} message for chat ${chatId}:`, err);
+    return { messageId, createdAt, error: err instanceof Error ? err.message : String(err) };
+  }
+}
@@ -5,6 +5,9 @@
 -- You might need to run this separately in Supabase SQL Editor if you get an error.
 -- CREATE EXTENSION IF NOT EXISTS pgcrypto;
 
+-- pgvector, for knowledge base embeddings. On Supabase it can also be enabled under Database > Extensions.
+CREATE EXTENSION IF NOT EXISTS vector;
+
 -- Table for AI Models
 CREATE TABLE IF NOT EXISTS public.ai_models (
     id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
@@ -36,7 +39,7 @@ CREATE TABLE IF NOT EXISTS public.messages (
     role TEXT CHECK (role IN ('user', 'assistant')) NOT NULL,
     model_params JSONB,
     metadata JSONB,
-    history JSONB, -- Add the history column (jsonb is flexible for arrays)
+    history JSONB, -- Legacy: previous outputs of a regenerated reply, now stored as sibling messages (see below)
     created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
     updated_at TIMESTAMP WITH TIME ZONE -- Nullable
 );
@@ -52,19 +55,124 @@ CREATE TABLE IF NOT EXISTS public.votes (
     UNIQUE (message_id, user_id)
 );
 
+-- User-defined assistants: a named system prompt with a default model and generation settings.
+-- params uses the chats.settings shape without system_prompt.
+CREATE TABLE IF NOT EXISTS public.assistants (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    description TEXT,
+    system_prompt TEXT NOT NULL,
+    model_id TEXT, -- ai_models.model_id; NULL keeps the model picked in the header
+    params JSONB,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+-- Knowledge base: files a user uploads for retrieval. The file itself lives in the attachments bucket.
+CREATE TABLE IF NOT EXISTS public.knowledge_documents (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    mime_type TEXT NOT NULL,
+    size INTEGER NOT NULL,
+    path TEXT NOT NULL,
+    status TEXT CHECK (status IN ('processing', 'ready', 'failed')) DEFAULT 'processing' NOT NULL,
+    error TEXT,
+    chunk_count INTEGER DEFAULT 0 NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+-- Passages of a knowledge document with their embeddings (768 = EMBEDDING_DIMENSIONS in embeddings.server.ts).
+-- label is the page, slide or sheet the passage comes from; page is set for PDFs.
+CREATE TABLE IF NOT EXISTS public.knowledge_chunks (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    document_id UUID NOT NULL REFERENCES public.knowledge_documents(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    chunk_index INTEGER NOT NULL,
+    label TEXT,
+    page INTEGER,
+    content TEXT NOT NULL,
+    embedding vector(768) NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+-- Columns added after the initial release. ADD COLUMN IF NOT EXISTS keeps re-runs safe on existing databases.
+
+-- Rolling summary of turns that no longer fit in the model's context window.
+-- summary_message_id is the last message the summary covers.
+ALTER TABLE public.chats ADD COLUMN IF NOT EXISTS summary TEXT;
+ALTER TABLE public.chats ADD COLUMN IF NOT EXISTS summary_message_id UUID REFERENCES public.messages(id) ON DELETE SET NULL;
+
+-- Per-chat generation settings (temperature, top_p, top_k, max_output_tokens, system_prompt).
+-- The values used for each reply are recorded in messages.model_params.
+ALTER TABLE public.chats ADD COLUMN IF NOT EXISTS settings JSONB;
+
+-- Files sent with a user message, or images generated for a reply (see MessageAttachment in schema.ts); the bytes live in Storage.
+ALTER TABLE public.messages ADD COLUMN IF NOT EXISTS attachments JSONB;
+
+-- Assistant the chat was started with. Its prompt and settings are copied into chats.settings.
+ALTER TABLE public.chats ADD COLUMN IF NOT EXISTS assistant_id UUID REFERENCES public.assistants(id) ON DELETE SET NULL;
+
+-- Conversation branches: each message points at the one it follows, so edits and regenerations
+-- become siblings instead of replacing earlier messages. active_leaf_id is the last message of the branch being shown.
+ALTER TABLE public.messages ADD COLUMN IF NOT EXISTS parent_id UUID REFERENCES public.messages(id) ON DELETE CASCADE;
+ALTER TABLE public.chats ADD COLUMN IF NOT EXISTS active_leaf_id UUID REFERENCES public.messages(id) ON DELETE SET NULL;
+
+-- Chats from before branching become a single branch in created_at order. Chats that already have links are left alone.
+UPDATE public.messages m
+SET parent_id = ordered.previous_id
+FROM (
+    SELECT id, LAG(id) OVER (PARTITION BY chat_id ORDER BY created_at, id) AS previous_id
+    FROM public.messages
+) ordered
+WHERE m.id = ordered.id
+  AND ordered.previous_id IS NOT NULL
+  AND m.parent_id IS NULL
+  AND NOT EXISTS (SELECT 1 FROM public.messages linked WHERE linked.chat_id = m.chat_id AND linked.parent_id IS NOT NULL);
+
+-- Regenerated replies used to keep earlier answers as plain text in history. Each becomes a sibling message
+-- (just older than the current answer, newest first in history) so every alternative is a full record; history is then cleared.
+INSERT INTO public.messages (chat_id, user_id, content, role, parent_id, created_at)
+SELECT m.chat_id, m.user_id, previous.content, 'assistant', m.parent_id, m.created_at - previous.position * INTERVAL '1 second'
+FROM public.messages m
+CROSS JOIN LATERAL jsonb_array_elements_text(m.history) WITH ORDINALITY AS previous(content, position)
+WHERE m.role = 'assistant' AND jsonb_typeof(m.history) = 'array';
+UPDATE public.messages SET history = NULL WHERE history IS NOT NULL;
+
+-- Optional explanation left with a downvote; updated_at changes when a vote is changed.
+ALTER TABLE public.votes ADD COLUMN IF NOT EXISTS reason TEXT;
+ALTER TABLE public.votes ADD COLUMN IF NOT EXISTS updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL;
+
+-- Extra facts about a chat (see ChatMetadata in schema.ts), e.g. the shared chat it was continued from.
+ALTER TABLE public.chats ADD COLUMN IF NOT EXISTS metadata JSONB;
+
 -- Optional: Add indexes for frequently queried columns
 CREATE INDEX IF NOT EXISTS idx_chats_user_id ON public.chats(user_id);
 CREATE INDEX IF NOT EXISTS idx_messages_chat_id ON public.messages(chat_id);
 CREATE INDEX IF NOT EXISTS idx_messages_user_id ON public.messages(user_id);
+CREATE INDEX IF NOT EXISTS idx_messages_parent_id ON public.messages(parent_id);
 CREATE INDEX IF NOT EXISTS idx_votes_message_id ON public.votes(message_id);
 CREATE INDEX IF NOT EXISTS idx_votes_user_id ON public.votes(user_id);
+CREATE INDEX IF NOT EXISTS idx_assistants_user_id ON public.assistants(user_id);
+CREATE INDEX IF NOT EXISTS idx_knowledge_documents_user_id ON public.knowledge_documents(user_id);
+CREATE INDEX IF NOT EXISTS idx_knowledge_chunks_document_id ON public.knowledge_chunks(document_id);
+CREATE INDEX IF NOT EXISTS idx_knowledge_chunks_user_id ON public.knowledge_chunks(user_id);
+CREATE INDEX IF NOT EXISTS idx_knowledge_chunks_embedding ON public.knowledge_chunks USING hnsw (embedding vector_cosine_ops);
+-- Full-text search over chat titles and messages (see search_chats). Expression indexes, so the vectors aren't returned by select *.
+CREATE INDEX IF NOT EXISTS idx_chats_title_fts ON public.chats USING gin (to_tsvector('english', title));
+CREATE INDEX IF NOT EXISTS idx_messages_content_fts ON public.messages USING gin (to_tsvector('english', content));
 
 -- Optional: Add a trigger function to automatically update `updated_at` timestamps
--- For chats table
+-- Used by the chats, votes, assistants and knowledge_documents triggers below. On all of them, an update that sets
+-- updated_at to a new value keeps that value instead of NOW() (imported chats keep their original time this way).
 CREATE OR REPLACE FUNCTION public.update_updated_at_column()
 RETURNS TRIGGER AS $$
 BEGIN
-   NEW.updated_at = NOW();
+   IF NEW.updated_at IS NOT DISTINCT FROM OLD.updated_at THEN
+      NEW.updated_at = NOW();
+   END IF;
    RETURN NEW;
 END;
 $$ LANGUAGE 'plpgsql';
@@ -77,11 +185,156 @@ BEFORE UPDATE ON public.chats
 FOR EACH ROW
 EXECUTE FUNCTION public.update_updated_at_column();
 
+DROP TRIGGER IF EXISTS update_votes_updated_at ON public.votes;
+
+CREATE TRIGGER update_votes_updated_at
+BEFORE UPDATE ON public.votes
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+DROP TRIGGER IF EXISTS update_assistants_updated_at ON public.assistants;
+
+CREATE TRIGGER update_assistants_updated_at
+BEFORE UPDATE ON public.assistants
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+DROP TRIGGER IF EXISTS update_knowledge_documents_updated_at ON public.knowledge_documents;
+
+CREATE TRIGGER update_knowledge_documents_updated_at
+BEFORE UPDATE ON public.knowledge_documents
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Every ai_models row, inactive ones included, for the server's model catalog. An inactive row disables the
+-- built-in model with the same model_id, but RLS hides inactive rows from the session-less client.
+CREATE OR REPLACE FUNCTION public.model_catalog()
+RETURNS SETOF public.ai_models
+LANGUAGE sql STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT * FROM public.ai_models ORDER BY created_at;
+$$;
+
+-- Top passages of the calling user's ready knowledge documents by cosine similarity to a query embedding.
+-- Runs with the caller's rights, so RLS still applies; the user_id filter lets the planner use the index.
+CREATE OR REPLACE FUNCTION public.match_knowledge_chunks(
+    query_embedding vector(768),
+    match_count INTEGER DEFAULT 5,
+    min_similarity FLOAT DEFAULT 0.5
+)
+RETURNS TABLE (
+    id UUID,
+    document_id UUID,
+    document_name TEXT,
+    label TEXT,
+    page INTEGER,
+    content TEXT,
+    similarity FLOAT
+)
+LANGUAGE sql STABLE
+AS $$
+    SELECT c.id, c.document_id, d.name, c.label, c.page, c.content,
+           1 - (c.embedding <=> query_embedding) AS similarity
+    FROM public.knowledge_chunks c
+    JOIN public.knowledge_documents d ON d.id = c.document_id
+    WHERE c.user_id = auth.uid()
+      AND d.status = 'ready'
+      AND 1 - (c.embedding <=> query_embedding) >= min_similarity
+    ORDER BY c.embedding <=> query_embedding
+    LIMIT match_count;
+$$;
+
+-- Votes of all users per model that wrote the rated reply (messages.metadata.model), with the latest downvote reasons.
+-- Runs with the owner's rights so RLS doesn't narrow it to the caller's votes; only admins (app_metadata.role = 'admin',
+-- which users can't set themselves) and the service role may call it.
+CREATE OR REPLACE FUNCTION public.model_feedback_report()
+RETURNS TABLE (
+    model TEXT,
+    upvotes BIGINT,
+    downvotes BIGINT,
+    recent_reasons TEXT[]
+)
+LANGUAGE plpgsql STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF auth.role() IS DISTINCT FROM 'service_role' AND (auth.jwt() -> 'app_metadata' ->> 'role') IS DISTINCT FROM 'admin' THEN
+        RAISE EXCEPTION 'Only admins can read the model feedback report' USING ERRCODE = '42501';
+    END IF;
+
+    RETURN QUERY
+    SELECT COALESCE(m.metadata->>'model', 'unknown'),
+           COUNT(*) FILTER (WHERE v.vote = 'up'),
+           COUNT(*) FILTER (WHERE v.vote = 'down'),
+           (ARRAY_AGG(v.reason ORDER BY v.updated_at DESC) FILTER (WHERE v.vote = 'down' AND v.reason IS NOT NULL))[1:5]
+    FROM public.votes v
+    JOIN public.messages m ON m.id = v.message_id
+    GROUP BY 1
+    ORDER BY COUNT(*) DESC, 1;
+END;
+$$;
+
+-- Full-text search over the calling user's chat titles and messages, best matches first. Title matches have no message_id.
+-- Matches are wrapped in <mark></mark>; the client renders them as text, never as HTML. Headlines are only built for the returned rows.
+-- Filters on user_id because shared chats of other users are readable too (see the public read policies).
+CREATE OR REPLACE FUNCTION public.search_chats(
+    search_query TEXT,
+    match_count INTEGER DEFAULT 20
+)
+RETURNS TABLE (
+    chat_id UUID,
+    chat_title TEXT,
+    message_id UUID,
+    role TEXT,
+    snippet TEXT,
+    created_at TIMESTAMP WITH TIME ZONE,
+    rank REAL
+)
+LANGUAGE sql STABLE
+AS $$
+    WITH query AS (
+        SELECT websearch_to_tsquery('english', search_query) AS q
+    ),
+    hits AS (
+        (SELECT c.id AS chat_id, NULL::UUID AS message_id, NULL::TEXT AS role, NULL::TEXT AS content, c.updated_at AS created_at,
+                ts_rank(to_tsvector('english', c.title), query.q) * 2 AS rank -- A title match says more than a passing mention
+         FROM public.chats c, query
+         WHERE c.user_id = auth.uid() AND to_tsvector('english', c.title) @@ query.q)
+        UNION ALL
+        (SELECT m.chat_id, m.id, m.role, m.content, m.created_at,
+                ts_rank(to_tsvector('english', m.content), query.q)
+         FROM public.messages m, query
+         WHERE m.user_id = auth.uid() AND to_tsvector('english', m.content) @@ query.q)
+        ORDER BY rank DESC, created_at DESC
+        LIMIT match_count
+    )
+    SELECT h.chat_id,
+           ts_headline('english', c.title, query.q, 'StartSel=<mark>, StopSel=</mark>, HighlightAll=true'),
+           h.message_id,
+           h.role,
+           CASE WHEN h.content IS NOT NULL THEN
+               ts_headline('english', h.content, query.q, 'StartSel=<mark>, StopSel=</mark>, MinWords=8, MaxWords=25, MaxFragments=2, FragmentDelimiter=" ... "')
+           END,
+           h.created_at,
+           h.rank
+    FROM hits h
+    JOIN public.chats c ON c.id = h.chat_id
+    CROSS JOIN query
+    ORDER BY h.rank DESC, h.created_at DESC;
+$$;
+
 -- Grant usage permissions for the public schema and select/insert/update/delete permissions on the new tables
 -- Adjust these grants based on your specific security requirements (e.g., RLS policies)
 GRANT USAGE ON SCHEMA public TO postgres, anon, authenticated; -- postgres is the superuser, anon/authenticated are Supabase roles
-GRANT ALL ON TABLE public.ai_models, public.chats, public.messages, public.votes TO postgres, anon, authenticated;
+GRANT ALL ON TABLE public.ai_models, public.chats, public.messages, public.votes, public.assistants, public.knowledge_documents, public.knowledge_chunks TO postgres, anon, authenticated;
 GRANT ALL ON FUNCTION public.update_updated_at_column() TO postgres, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.model_catalog() TO postgres, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.match_knowledge_chunks(vector, INTEGER, FLOAT) TO postgres, authenticated;
+GRANT EXECUTE ON FUNCTION public.model_feedback_report() TO postgres, authenticated;
+GRANT EXECUTE ON FUNCTION public.search_chats(TEXT, INTEGER) TO postgres, authenticated;
 
 -- Note: Supabase manages sequence permissions automatically, but if you had custom sequences, you'd grant usage:
 -- GRANT USAGE, SELECT ON ALL SEQUENCES IN SCHEMA public TO postgres, anon, authenticated;
@@ -92,6 +345,9 @@ ALTER TABLE public.ai_models ENABLE ROW LEVEL SECURITY;
 ALTER TABLE public.chats ENABLE ROW LEVEL SECURITY;
 ALTER TABLE public.messages ENABLE ROW LEVEL SECURITY;
 ALTER TABLE public.votes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.assistants ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.knowledge_documents ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.knowledge_chunks ENABLE ROW LEVEL SECURITY;
 
 -- Example RLS Policies (You MUST tailor these to your application's logic)
 
@@ -100,6 +356,11 @@ DROP POLICY IF EXISTS "Allow authenticated read access" ON public.ai_models;
 CREATE POLICY "Allow authenticated read access" ON public.ai_models
     FOR SELECT USING (auth.role() = 'authenticated');
 
+-- ai_models: Active models are listed before sign-in too (the server reads the catalog without a session)
+DROP POLICY IF EXISTS "Allow public read access to active models" ON public.ai_models;
+CREATE POLICY "Allow public read access to active models" ON public.ai_models
+    FOR SELECT USING (is_active);
+
 -- chats: Allow users to manage their own chats
 DROP POLICY IF EXISTS "Allow individual insert access" ON public.chats;
 CREATE POLICY "Allow individual insert access" ON public.chats
@@ -109,6 +370,11 @@ DROP POLICY IF EXISTS "Allow individual select access" ON public.chats;
 CREATE POLICY "Allow individual select access" ON public.chats
     FOR SELECT USING (auth.uid() = user_id);
 
+-- chats: Anyone, signed in or not, can read a chat its owner shared (visibility 'public', see /share/:chatId)
+DROP POLICY IF EXISTS "Allow public read access to shared chats" ON public.chats;
+CREATE POLICY "Allow public read access to shared chats" ON public.chats
+    FOR SELECT USING (visibility = 'public');
+
 DROP POLICY IF EXISTS "Allow individual update access" ON public.chats;
 CREATE POLICY "Allow individual update access" ON public.chats
     FOR UPDATE USING (auth.uid() = user_id);
@@ -117,6 +383,39 @@ DROP POLICY IF EXISTS "Allow individual delete access" ON public.chats;
 CREATE POLICY "Allow individual delete access" ON public.chats
     FOR DELETE USING (auth.uid() = user_id);
 
+-- votes: Allow users to rate replies in their own chats
+DROP POLICY IF EXISTS "Allow individual access to votes" ON public.votes;
+CREATE POLICY "Allow individual access to votes" ON public.votes
+    FOR ALL USING (auth.uid() = user_id)
+    WITH CHECK (
+        auth.uid() = user_id AND
+        message_id IN (
+            SELECT m.id FROM public.messages m
+            JOIN public.chats c ON c.id = m.chat_id
+            WHERE c.user_id = auth.uid()
+        )
+    );
+
+-- assistants: Allow users to manage their own assistants
+DROP POLICY IF EXISTS "Allow individual access to assistants" ON public.assistants;
+CREATE POLICY "Allow individual access to assistants" ON public.assistants
+    FOR ALL USING (auth.uid() = user_id)
+    WITH CHECK (auth.uid() = user_id);
+
+-- knowledge base: Allow users to manage their own documents and passages
+DROP POLICY IF EXISTS "Allow individual access to knowledge documents" ON public.knowledge_documents;
+CREATE POLICY "Allow individual access to knowledge documents" ON public.knowledge_documents
+    FOR ALL USING (auth.uid() = user_id)
+    WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Allow individual access to knowledge chunks" ON public.knowledge_chunks;
+CREATE POLICY "Allow individual access to knowledge chunks" ON public.knowledge_chunks
+    FOR ALL USING (auth.uid() = user_id)
+    WITH CHECK (
+        auth.uid() = user_id AND
+        document_id IN (SELECT id FROM public.knowledge_documents WHERE user_id = auth.uid())
+    );
+
 -- messages: Allow users to manage messages in their own chats
 DROP POLICY IF EXISTS "Allow insert access based on chat ownership" ON public.messages;
 CREATE POLICY "Allow insert access based on chat ownership" ON public.messages
@@ -132,6 +431,13 @@ CREATE POLICY "Allow select access based on chat ownership" ON public.messages
         chat_id IN (SELECT id FROM public.chats WHERE user_id = auth.uid())
     );
 
+-- Messages of shared chats are readable by anyone, like the chat itself
+DROP POLICY IF EXISTS "Allow public read access to messages of shared chats" ON public.messages;
+CREATE POLICY "Allow public read access to messages of shared chats" ON public.messages
+    FOR SELECT USING (
+        chat_id IN (SELECT id FROM public.chats WHERE visibility = 'public')
+    );
+
 -- Add UPDATE policy for messages
 DROP POLICY IF EXISTS "Allow update access based on ownership" ON public.messages;
 CREATE POLICY "Allow update access based on ownership" ON public.messages
@@ -142,4 +448,49 @@ CREATE POLICY "Allow update access based on ownership" ON public.messages
 -- Add DELETE policy for messages (Optional)
 -- DROP POLICY IF EXISTS "Allow delete access based on ownership" ON public.messages;
 -- CREATE POLICY "Allow delete access based on ownership" ON public.messages
---     FOR DELETE USING (auth.uid() = user_id);
\ No newline at end of file
+--     FOR DELETE USING (auth.uid() = user_id);
+
+-- Seed the model catalog with the built-in models (SEED_LLMS in app/lib/ai/models.config.ts).
+-- model_id is the app's model ID; config holds limits and tuning, see AiModelConfig in schema.ts.
+-- Toggle is_active or edit config to change the catalog without a redeploy.
+INSERT INTO public.ai_models (name, provider, model_id, config) VALUES
+    ('Gemini 1.5 Flash', 'google', 'gemini-1.5-flash', '{"model_name": "gemini-1.5-flash-latest", "context_window": 1048576, "max_output_tokens": 8192}'),
+    ('OpenAI (GPT-4o)', 'openai', 'openai-gpt-4o', '{"model_name": "gpt-4o", "context_window": 128000, "max_output_tokens": 16384}'),
+    ('OpenAI (GPT-3.5 Turbo)', 'openai', 'openai-gpt-3.5-turbo', '{"model_name": "gpt-3.5-turbo", "context_window": 16385, "max_output_tokens": 4096}'),
+    ('Deepseek (Chat, OpenRouter)', 'openrouter', 'deepseek-chat', '{"model_name": "deepseek/deepseek-chat", "context_window": 64000, "max_output_tokens": 8192}'),
+    ('DeepSeek Chat', 'deepseek', 'deepseek-api-chat', '{"model_name": "deepseek-chat", "context_window": 65536, "max_output_tokens": 8192}'),
+    ('DeepSeek Reasoner (R1)', 'deepseek', 'deepseek-api-reasoner', '{"model_name": "deepseek-reasoner", "context_window": 65536, "max_output_tokens": 8192, "reasoning": true}'),
+    ('Llama 3.3 70B (NVIDIA NIM)', 'nvidia', 'nvidia-llama-3.3-70b', '{"model_name": "meta/llama-3.3-70b-instruct", "context_window": 128000, "max_output_tokens": 4096}'),
+    ('Llama 3.1 Nemotron 70B (NVIDIA NIM)', 'nvidia', 'nvidia-nemotron-70b', '{"model_name": "nvidia/llama-3.1-nemotron-70b-instruct", "context_window": 128000, "max_output_tokens": 4096}'),
+    ('GLM-Z1-32B (Free)', 'openrouter', 'thudm-glm-z1-32b', '{"model_name": "thudm/glm-z1-32b:free", "context_window": 32768, "max_output_tokens": 8192, "reasoning": true}'),
+    ('Gemini 2.0 Flash', 'google', 'gemini-2.0-flash', '{"model_name": "gemini-2.0-flash", "context_window": 1048576, "max_output_tokens": 8192}'),
+    ('Gemini 2.0 Flash (Image Generation) Experimental', 'google', 'gemini-2.0-flash-exp-image-generation', '{"model_name": "gemini-2.0-flash-exp-image-generation", "context_window": 32768, "max_output_tokens": 8192, "image_output": true}'),
+    ('Gemini 2.0 Flash-Lite', 'google', 'gemini-2.0-flash-lite', '{"model_name": "gemini-2.0-flash-lite", "context_window": 1048576, "max_output_tokens": 8192}'),
+    ('Gemini 2.5 Pro Preview 03-25', 'google', 'gemini-2.5-pro-preview-03-25', '{"model_name": "gemini-2.5-pro-preview-03-25", "context_window": 1048576, "max_output_tokens": 65536, "reasoning": true}'),
+    ('Gemini 2.5 Flash Preview 04-17', 'google', 'gemini-2.5-flash-preview-04-17', '{"model_name": "gemini-2.5-flash-preview-04-17", "context_window": 1048576, "max_output_tokens": 65536, "reasoning": true}')
+ON CONFLICT (model_id) DO NOTHING;
+
+-- Storage bucket for message attachments and knowledge base files (ATTACHMENT_BUCKET, default "attachments").
+-- Objects are stored under "<user id>/<chat id>/..." or "<user id>/knowledge/...", so each user only reaches their own folder.
+INSERT INTO storage.buckets (id, name, public) VALUES ('attachments', 'attachments', false)
+ON CONFLICT (id) DO NOTHING;
+
+DROP POLICY IF EXISTS "Allow individual upload of attachments" ON storage.objects;
+CREATE POLICY "Allow individual upload of attachments" ON storage.objects
+    FOR INSERT WITH CHECK (bucket_id = 'attachments' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+DROP POLICY IF EXISTS "Allow individual read of attachments" ON storage.objects;
+CREATE POLICY "Allow individual read of attachments" ON storage.objects
+    FOR SELECT USING (bucket_id = 'attachments' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+-- Files of shared chats ("<user id>/<chat id>/...") can be read by anyone the chat is shared with
+DROP POLICY IF EXISTS "Allow public read of shared chat attachments" ON storage.objects;
+CREATE POLICY "Allow public read of shared chat attachments" ON storage.objects
+    FOR SELECT USING (
+        bucket_id = 'attachments' AND
+        (storage.foldername(name))[2] IN (SELECT id::text FROM public.chats WHERE visibility = 'public')
+    );
+
+DROP POLICY IF EXISTS "Allow individual delete of attachments" ON storage.objects;
+CREATE POLICY "Allow individual delete of attachments" ON storage.objects
+    FOR DELETE USING (bucket_id = 'attachments' AND (storage.foldername(name))[1] = auth.uid()::text);
@@ -1,3 +1,13 @@
+// Generation settings chosen in a chat's settings panel (chats.settings), and the
+// effective values used for an assistant message (messages.model_params)
+export type ModelParams = {
+  temperature?: number;
+  top_p?: number;
+  top_k?: number;
+  max_output_tokens?: number;
+  system_prompt?: string;
+};
+
 export type Chat = {
   id: string; // UUID stored as string in TypeScript
   title: string;
@@ -6,8 +16,85 @@ export type Chat = {
   user_id: string; // UUID stored as string in TypeScript
   visibility: 'private' | 'public';
   model?: string;
+  summary?: string | null; // Rolling summary of turns outside the context window
+  summary_message_id?: string | null; // Last message covered by `summary`
+  settings?: ModelParams | null; // Generation settings applied to new replies
+  assistant_id?: string | null; // Assistant the chat was started with
+  active_leaf_id?: string | null; // Last message of the branch being shown
+  metadata?: ChatMetadata | null;
+};
+
+export type ChatMetadata = {
+  // Set on a copy of someone's shared chat made with "Continue this chat"
+  forked_from?: {
+    chat_id: string;
+    message_id: string; // Last message copied
+    forked_at: string;
+  };
+  // Set on chats brought in by the import route; source_id lets a re-import skip them
+  imported_from?: {
+    source: 'chatgpt' | 'sonicthinking.chat';
+    source_id: string;
+    imported_at: string;
+  };
+  [key: string]: unknown;
+};
+
+// A user-defined preset: system prompt plus default model and generation settings
+export type Assistant = {
+  id: string;
+  user_id: string;
+  name: string;
+  description?: string | null;
+  system_prompt: string;
+  model_id?: string | null; // LlmConfig.id; null keeps the model picked in the header
+  params?: Omit<ModelParams, 'system_prompt'> | null;
+  created_at: string;
+  updated_at: string;
 };
   
+export type MessageMetadata = {
+  model?: string; // LlmConfig.id that produced an assistant message
+  finish_reason?: 'stop' | 'aborted';
+  timings?: {
+    started_at: string;
+    first_token_ms: number | null; // Time to first streamed token
+    total_ms: number;
+  };
+  usage?: {
+    input_tokens: number;
+    output_tokens: number;
+    estimated: boolean;
+  };
+  reasoning?: string; // Thinking trace of reasoning models, shown apart from the answer
+  citations?: Citation[]; // Knowledge base passages the reply drew on
+  [key: string]: unknown;
+};
+
+// A knowledge base passage given to the model for a reply, numbered as cited in it ([1], [2], ...)
+export type Citation = {
+  index: number;
+  document_id: string | null; // Null on forked copies of a shared chat, whose documents belong to someone else
+  document_name: string;
+  label?: string | null; // e.g. "Page 3", "Slide 2"
+  page?: number | null; // PDF page, for linking into the file
+  snippet: string;
+};
+
+export type AttachmentKind = 'image' | 'document' | 'video' | 'audio';
+
+// A file sent with a user message; the bytes live in attachment storage under `path`
+export type MessageAttachment = {
+  id: string;
+  name: string;
+  mime_type: string;
+  size: number; // Bytes
+  kind: AttachmentKind;
+  path: string;
+  text_path?: string | null; // Extracted text of a document, stored next to the file
+  extraction_error?: string | null; // Why no text could be extracted
+};
+
 export type Message = {
   id: string; // UUID stored as string in TypeScript
   chat_id: string; // UUID stored as string in TypeScript
@@ -16,26 +103,95 @@ export type Message = {
   created_at: string;
   updated_at?: string;
   user_id: string; // UUID stored as string in TypeScript
-  model_params?: Record<string, any>;
-  metadata?: Record<string, any>;
+  parent_id?: string | null; // Message this one follows; null for the first turn (see message-tree.ts)
+  model_params?: ModelParams | null;
+  metadata?: MessageMetadata;
+  history?: string[] | null; // Legacy; alternatives are now sibling messages (schema.sql moves old entries)
+  attachments?: MessageAttachment[] | null; // Files sent with a user message, or images generated for a reply
+};
+
+export type KnowledgeDocumentStatus = 'processing' | 'ready' | 'failed';
+
+// A file in the user's knowledge base; its text is split into embedded knowledge_chunks
+export type KnowledgeDocument = {
+  id: string;
+  user_id: string;
+  name: string;
+  mime_type: string;
+  size: number; // Bytes
+  path: string; // Location in attachment storage
+  status: KnowledgeDocumentStatus;
+  error?: string | null; // Why processing failed
+  chunk_count: number;
+  created_at: string;
+  updated_at: string;
+};
+
+// A passage of a knowledge document. The embedding column is only read by match_knowledge_chunks.
+export type KnowledgeChunk = {
+  id: string;
+  document_id: string;
+  user_id: string;
+  chunk_index: number;
+  label?: string | null;
+  page?: number | null;
+  content: string;
+  embedding: number[];
+  created_at: string;
 };
 
 export type Vote = {
   id: string;
   message_id: string;
   vote: 'up' | 'down';
+  reason?: string | null; // Optional explanation left with a downvote
   created_at: string;
+  updated_at?: string;
   user_id: string;
 };
 
+// A row of model_feedback_report(): votes on the replies each model wrote
+export type ModelFeedback = {
+  model: string; // LlmConfig.id, or "unknown" for replies without a recorded model
+  upvotes: number;
+  downvotes: number;
+  recent_reasons: string[] | null; // Latest downvote reasons, newest first
+};
+
+// A row returned by search_chats. Matched words are wrapped in <mark></mark>.
+export type ChatSearchResult = {
+  chat_id: string;
+  chat_title: string;
+  message_id: string | null; // null when the chat's title matched
+  role: Message['role'] | null;
+  snippet: string | null; // Passages of the message around the matches
+  created_at: string;
+  rank: number;
+};
+
+// Per-model settings stored in ai_models.config; anything unset falls back to the built-in entry
+export type AiModelConfig = {
+  model_name?: string; // API model identifier when it differs from model_id
+  context_window?: number;
+  max_output_tokens?: number;
+  reasoning?: boolean;
+  is_default?: boolean;
+  temperature?: number;
+  top_p?: number;
+  top_k?: number;
+  attachments?: AttachmentKind[]; // File kinds the model reads as input
+  image_output?: boolean; // Model can answer with generated images
+  [key: string]: unknown;
+};
+
 export type AiModel = {
   id: string;
   name: string;
   provider: string;
-  model_id: string;
+  model_id: string; // LlmConfig.id
   is_active: boolean;
   created_at: string;
-  config?: Record<string, any>;
+  config?: AiModelConfig | null;
 };
   
 export type Database = {
@@ -56,6 +212,21 @@ export type Database = {
         Insert: Omit<Vote, 'id' | 'created_at'>;
         Update: Partial<Omit<Vote, 'id' | 'created_at'>>;
       };
+      assistants: {
+        Row: Assistant;
+        Insert: Omit<Assistant, 'id' | 'created_at' | 'updated_at'>;
+        Update: Partial<Omit<Assistant, 'id' | 'created_at'>>;
+      };
+      knowledge_documents: {
+        Row: KnowledgeDocument;
+        Insert: Omit<KnowledgeDocument, 'id' | 'created_at' | 'updated_at'>;
+        Update: Partial<Omit<KnowledgeDocument, 'id' | 'created_at'>>;
+      };
+      knowledge_chunks: {
+        Row: KnowledgeChunk;
+        Insert: Omit<KnowledgeChunk, 'id' | 'created_at'>;
+        Update: Partial<Omit<KnowledgeChunk, 'id' | 'created_at'>>;
+      };
       ai_models: {
         Row: AiModel;
         Insert: Omit<AiModel, 'id' | 'created_at'>;
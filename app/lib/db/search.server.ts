@@ -0,0 +1,25 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { ChatSearchResult } from './schema';
+
+export const SEARCH_QUERY_MIN_LENGTH = 2;
+export const SEARCH_QUERY_MAX_LENGTH = 200;
+const SEARCH_RESULT_LIMIT = 20;
+
+/**
+ * Full-text search over the user's chat titles and messages (search_chats in
+ * schema.sql). Accepts web search syntax: "quoted phrases", OR, -excluded.
+ */
+export async function searchChats(
+  supabase: SupabaseClient,
+  query: string
+): Promise<{ results: ChatSearchResult[]; error?: string }> {
+  const { data, error } = await supabase.rpc('search_chats', {
+    search_query: query,
+    match_count: SEARCH_RESULT_LIMIT,
+  });
+
+  if (error) {
+    return { results: [], error: error.message };
+  }
+  return { results: (data as ChatSearchResult[]) || [] };
+}
@@ -0,0 +1,144 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { v4 as uuidv4 } from 'uuid';
+import { getActivePath } from './message-tree';
+import type { Chat, ChatMetadata, Message, MessageAttachment } from './schema';
+
+export type SharedChat = Pick<Chat, 'id' | 'title' | 'model' | 'created_at'>;
+export type SharedMessage = Pick<Message, 'id' | 'parent_id' | 'role' | 'content' | 'created_at' | 'attachments' | 'metadata'>;
+
+/**
+ * Loads a chat its owner made public, with the branch the owner last had
+ * open. Other branches aren't part of what was shared. `ownerId` is kept
+ * apart from the chat so pages don't send it to visitors.
+ * @returns The chat, or null when it doesn't exist or isn't public.
+ */
+export async function loadSharedChat(
+  supabase: SupabaseClient,
+  chatId: string
+): Promise<{ chat: SharedChat | null; ownerId?: string; messages: SharedMessage[]; error?: string }> {
+  const { data: chat, error: chatError } = await supabase
+    .from('chats')
+    .select('id, title, model, created_at, active_leaf_id, user_id')
+    .eq('id', chatId)
+    .eq('visibility', 'public')
+    .maybeSingle();
+
+  if (chatError) {
+    return { chat: null, messages: [], error: chatError.message };
+  }
+  if (!chat) {
+    return { chat: null, messages: [] };
+  }
+
+  const { data, error } = await supabase
+    .from('messages')
+    .select('id, parent_id, role, content, created_at, attachments, metadata')
+    .eq('chat_id', chatId)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    return { chat: null, messages: [], error: error.message };
+  }
+  const { active_leaf_id: activeLeafId, user_id: ownerId, ...sharedChat } = chat;
+  return { chat: sharedChat, ownerId, messages: getActivePath((data as SharedMessage[]) || [], activeLeafId) };
+}
+
+/**
+ * Finds a file of a message in a public chat, with the chat's owner (whose
+ * folder the file must be in).
+ * @returns The attachment, or null when the chat isn't public or has no such file.
+ */
+export async function findSharedAttachment(
+  supabase: SupabaseClient,
+  chatId: string,
+  messageId: string,
+  attachmentId: string
+): Promise<{ attachment: MessageAttachment | null; ownerId?: string; error?: string }> {
+  const { data, error } = await supabase
+    .from('messages')
+    .select('attachments, chats!inner(visibility, user_id)')
+    .eq('id', messageId)
+    .eq('chat_id', chatId)
+    .eq('chats.visibility', 'public')
+    .maybeSingle();
+
+  if (error) {
+    return { attachment: null, error: error.message };
+  }
+  const attachments = (data?.attachments as MessageAttachment[] | null) || [];
+  return {
+    attachment: attachments.find(a => a.id === attachmentId) ?? null,
+    ownerId: (data?.chats as { user_id: string } | null | undefined)?.user_id,
+  };
+}
+
+/**
+ * Saves a copy of a shared chat as the user's new private chat `chatId`. `messages`
+ * are the copied messages in order (attachments already copied to the user's
+ * storage); they become the new chat's only branch, under new ids. The
+ * original chat and the last message copied are kept in the chat's metadata.
+ * Removes the chat again if any part fails.
+ */
+export async function saveForkedChat(
+  supabase: SupabaseClient,
+  userId: string,
+  source: SharedChat,
+  chatId: string,
+  messages: SharedMessage[]
+): Promise<{ error?: string }> {
+  const metadata: ChatMetadata = {
+    forked_from: {
+      chat_id: source.id,
+      message_id: messages[messages.length - 1].id,
+      forked_at: new Date().toISOString(),
+    },
+  };
+
+  const { error: chatError } = await supabase
+    .from('chats')
+    .insert({
+      id: chatId,
+      user_id: userId,
+      title: source.title,
+      model: source.model,
+      visibility: 'private',
+      metadata,
+    });
+  if (chatError) {
+    return { error: chatError.message };
+  }
+
+  const ids = messages.map(() => uuidv4());
+  const rows = messages.map((message, index) => ({
+    id: ids[index],
+    chat_id: chatId,
+    user_id: userId,
+    parent_id: index > 0 ? ids[index - 1] : null,
+    role: message.role,
+    content: message.content,
+    created_at: message.created_at,
+    attachments: message.attachments,
+    // Cited documents stay private to the chat's owner, so sources keep their name and snippet but lose the link
+    metadata: message.metadata?.citations
+      ? {
+        ...message.metadata,
+        citations: message.metadata.citations.map(citation => ({ ...citation, document_id: null, page: null })),
+      }
+      : message.metadata,
+  }));
+  const { error } = await supabase.from('messages').insert(rows);
+  if (error) {
+    await supabase.from('chats').delete().eq('id', chatId);
+    return { error: error.message };
+  }
+
+  const { error: leafError } = await supabase
+    .from('chats')
+    .update({ active_leaf_id: ids[ids.length - 1] })
+    .eq('id', chatId);
+  if (leafError) {
+    await supabase.from('chats').delete().eq('id', chatId);
+    return { error: leafError.message };
+  }
+  return {};
+}
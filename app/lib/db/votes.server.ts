@@ -0,0 +1,97 @@
+import type { SupabaseClient, User } from '@supabase/supabase-js';
+import type { ModelFeedback, Vote } from './schema';
+
+const REASON_MAX_LENGTH = 1000;
+
+export type VoteInput = { vote: Vote['vote'] | null; reason: string | null };
+
+/**
+ * Checks a vote sent by the client. An empty vote clears it; a reason is
+ * only kept with a downvote.
+ * @returns The cleaned vote, or the first problem found.
+ */
+export function validateVoteInput(input: { vote: unknown; reason: unknown }): { vote?: VoteInput; error?: string } {
+  const vote = input.vote === 'up' || input.vote === 'down' ? input.vote : null;
+  if (input.vote && !vote) return { error: 'Vote must be "up" or "down".' };
+
+  const reason = typeof input.reason === 'string' ? input.reason.trim() : '';
+  if (reason.length > REASON_MAX_LENGTH) return { error: `Reason must be at most ${REASON_MAX_LENGTH} characters.` };
+
+  return { vote: { vote, reason: vote === 'down' && reason ? reason : null } };
+}
+
+/**
+ * Loads an assistant message in one of the user's chats, the only kind of message that can be rated.
+ * @returns The message, or null when it doesn't exist, isn't a reply or belongs to someone else.
+ */
+export async function findVotableMessage(
+  supabase: SupabaseClient,
+  messageId: string,
+  userId: string
+): Promise<{ message: { id: string; chat_id: string } | null; error?: string }> {
+  const { data, error } = await supabase
+    .from('messages')
+    .select('id, chat_id')
+    .eq('id', messageId)
+    .eq('user_id', userId)
+    .eq('role', 'assistant')
+    .maybeSingle();
+
+  if (error) {
+    return { message: null, error: error.message };
+  }
+  return { message: data };
+}
+
+/**
+ * Records the user's vote on a message, replacing any earlier one, or removes it when `vote` is null.
+ */
+export async function setVote(
+  supabase: SupabaseClient,
+  messageId: string,
+  userId: string,
+  { vote, reason }: VoteInput
+): Promise<{ vote: Pick<Vote, 'vote' | 'reason'> | null; error?: string }> {
+  if (!vote) {
+    const { error } = await supabase
+      .from('votes')
+      .delete()
+      .eq('message_id', messageId)
+      .eq('user_id', userId);
+    return error ? { vote: null, error: error.message } : { vote: null };
+  }
+
+  const { data, error } = await supabase
+    .from('votes')
+    .upsert({ message_id: messageId, user_id: userId, vote, reason }, { onConflict: 'message_id,user_id' })
+    .select('vote, reason')
+    .single();
+
+  if (error) {
+    return { vote: null, error: error.message };
+  }
+  return { vote: data };
+}
+
+/**
+ * Whether the user may see everyone's feedback. The role is kept in
+ * `app_metadata`, which only the service role can change.
+ */
+export function isAdmin(user: Pick<User, 'app_metadata'>): boolean {
+  return user.app_metadata?.role === 'admin';
+}
+
+/**
+ * Votes of all users per model. The database function only answers admins
+ * (see `isAdmin`) and the service role.
+ */
+export async function getModelFeedbackReport(
+  supabase: SupabaseClient
+): Promise<{ report: ModelFeedback[]; error?: string }> {
+  const { data, error } = await supabase.rpc('model_feedback_report');
+
+  if (error) {
+    return { report: [], error: error.message };
+  }
+  return { report: (data as ModelFeedback[]) || [] };
+}
@@ -0,0 +1,189 @@
+import ExcelJS from 'exceljs';
+import JSZip from 'jszip';
+import mammoth from 'mammoth';
+import { extractText as extractPdfText, getDocumentProxy } from 'unpdf';
+import WordExtractor from 'word-extractor';
+import { getDocumentFormat, type DocumentFormat } from '~/lib/ai/attachments';
+
+// Extracted text beyond this is cut off; prompts get a smaller share (see context.ts)
+const MAX_EXTRACTED_CHARS = 400_000;
+// Limits for the zip container of .docx, .pptx and .xlsx files; the size counts the bytes actually inflated
+const MAX_ZIP_ENTRIES = 10_000;
+const MAX_ZIP_UNCOMPRESSED_BYTES = 256 * 1024 * 1024;
+
+/**
+ * One page, slide or sheet of a document.
+ */
+export interface DocumentSection {
+  label: string; // e.g. "Page 3", "Slide 2", "Sheet: Q1"
+  page?: number; // PDF page number
+  text: string;
+}
+
+export interface ExtractedDocument {
+  format: DocumentFormat;
+  sections: DocumentSection[];
+  truncated: boolean;
+}
+
+async function extractPdf(bytes: Buffer): Promise<DocumentSection[]> {
+  const pdf = await getDocumentProxy(new Uint8Array(bytes));
+  const { text } = await extractPdfText(pdf, { mergePages: false });
+  return text.map((pageText, index) => ({ label: `Page ${index + 1}`, page: index + 1, text: pageText }));
+}
+
+/**
+ * Unpacks the zip container of an Office file into a new, uncompressed
+ * archive. The sizes in the zip directory can't be trusted, so the inflated
+ * bytes are counted as they come out and a zip bomb is stopped at the limit.
+ * @throws When the archive is over the limits.
+ */
+async function unpackZipArchive(bytes: Buffer): Promise<JSZip> {
+  const zip = await JSZip.loadAsync(bytes);
+  const entries = Object.values(zip.files);
+  if (entries.length > MAX_ZIP_ENTRIES) {
+    throw new Error(`The file has more than ${MAX_ZIP_ENTRIES} parts and can't be read.`);
+  }
+
+  const unpacked = new JSZip();
+  let unpackedBytes = 0;
+  for (const entry of entries.filter(entry => !entry.dir)) {
+    const content = await new Promise<Buffer>((resolve, reject) => {
+      const chunks: Buffer[] = [];
+      const stream = entry.nodeStream('nodebuffer');
+      stream
+        .on('data', (chunk: Buffer) => {
+          unpackedBytes += chunk.length;
+          if (unpackedBytes > MAX_ZIP_UNCOMPRESSED_BYTES) {
+            stream.pause();
+            reject(new Error(`The file unpacks to more than ${MAX_ZIP_UNCOMPRESSED_BYTES / 1024 / 1024} MB and can't be read.`));
+            return;
+          }
+          chunks.push(chunk);
+        })
+        .on('error', reject)
+        .on('end', () => resolve(Buffer.concat(chunks)));
+    });
+    unpacked.file(entry.name, content);
+  }
+  return unpacked;
+}
+
+/**
+ * Unpacks an Office file and packs it again without compression, so the
+ * parsers that open it themselves only read bytes that were already counted.
+ */
+async function repackZipArchive(bytes: Buffer): Promise<Buffer> {
+  const unpacked = await unpackZipArchive(bytes);
+  return unpacked.generateAsync({ type: 'nodebuffer', compression: 'STORE' });
+}
+
+async function extractDocx(bytes: Buffer): Promise<DocumentSection[]> {
+  const repacked = await repackZipArchive(bytes);
+  // .docx has no fixed pages; the whole body is one section
+  const { value } = await mammoth.extractRawText({ buffer: repacked });
+  return [{ label: 'Document', text: value }];
+}
+
+async function extractDoc(bytes: Buffer): Promise<DocumentSection[]> {
+  const document = await new WordExtractor().extract(bytes);
+  return [{ label: 'Document', text: document.getBody() }];
+}
+
+async function extractPptx(bytes: Buffer): Promise<DocumentSection[]> {
+  const zip = await unpackZipArchive(bytes);
+  const slides = Object.keys(zip.files)
+    .map(name => ({ name, number: Number(/^ppt\/slides\/slide(\d+)\.xml$/.exec(name)?.[1]) }))
+    .filter(slide => Number.isInteger(slide.number))
+    .sort((a, b) => a.number - b.number);
+
+  return Promise.all(slides.map(async ({ name, number }) => {
+    const xml = await zip.file(name)!.async('string');
+    // Text runs live in <a:t>; each </a:p> ends a paragraph
+    const text = xml
+      .replace(/<\/a:p>/g, '\n')
+      .match(/<a:t>[^<]*<\/a:t>|\n/g)
+      ?.map(part => (part === '\n' ? '\n' : decodeXmlEntities(part.slice(5, -6))))
+      .join('') ?? '';
+    return { label: `Slide ${number}`, text };
+  }));
+}
+
+async function extractXlsx(bytes: Buffer): Promise<DocumentSection[]> {
+  const repacked = await repackZipArchive(bytes);
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.load(repacked);
+
+  return workbook.worksheets.map(sheet => {
+    const rows: string[] = [];
+    sheet.eachRow({ includeEmpty: false }, row => {
+      const cells: string[] = [];
+      row.eachCell({ includeEmpty: true }, cell => {
+        cells.push(cell.text.replace(/[\t\n]+/g, ' '));
+      });
+      rows.push(cells.join('\t'));
+    });
+    return { label: `Sheet: ${sheet.name}`, text: rows.join('\n') };
+  });
+}
+
+function decodeXmlEntities(text: string): string {
+  return text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCodePoint(Number(code)))
+    .replace(/&amp;/g, '&');
+}
+
+const EXTRACTORS: Record<DocumentFormat, (bytes: Buffer) => Promise<DocumentSection[]>> = {
+  pdf: extractPdf,
+  docx: extractDocx,
+  doc: extractDoc,
+  pptx: extractPptx,
+  xlsx: extractXlsx,
+  text: async bytes => [{ label: 'Document', text: bytes.toString('utf8') }],
+};
+
+/**
+ * Extracts the text of a document attachment, keeping page, slide and sheet
+ * boundaries. Empty sections are dropped.
+ * @throws When the format isn't supported, the file can't be parsed or it contains no text.
+ */
+export async function extractDocumentText(bytes: Buffer, fileName: string, mimeType: string): Promise<ExtractedDocument> {
+  const format = getDocumentFormat(fileName, mimeType);
+  if (!format) {
+    throw new Error(`${fileName} isn't a supported document type.`);
+  }
+
+  const sections: DocumentSection[] = [];
+  let remaining = MAX_EXTRACTED_CHARS;
+  let truncated = false;
+  for (const section of await EXTRACTORS[format](bytes)) {
+    const text = section.text.replace(/\r\n/g, '\n').replace(/\n{3,}/g, '\n\n').trim();
+    if (!text) continue;
+    if (text.length > remaining) {
+      sections.push({ ...section, text: text.slice(0, remaining) });
+      truncated = true;
+      break;
+    }
+    sections.push({ ...section, text });
+    remaining -= text.length;
+  }
+
+  if (sections.length === 0) {
+    throw new Error(`No text found in ${fileName}. Scanned documents need to be sent as images.`);
+  }
+  return { format, sections, truncated };
+}
+
+/**
+ * Renders extracted text for storage and prompts, marking each boundary.
+ */
+export function formatExtractedText(document: ExtractedDocument): string {
+  const body = document.sections.length === 1 && document.sections[0].label === 'Document'
+    ? document.sections[0].text
+    : document.sections.map(section => `--- ${section.label} ---\n${section.text}`).join('\n\n');
+  return document.truncated ? `${body}\n\n[Document truncated]` : body;
+}
@@ -0,0 +1,88 @@
+import { findLlmById } from '~/lib/ai/models.config';
+import { getActivePath } from '~/lib/db/message-tree';
+import type { Chat, Message, Vote } from '~/lib/db/schema';
+
+export const CHAT_EXPORT_FORMAT = 'sonicthinking.chat';
+export const CHAT_EXPORT_VERSION = 1;
+
+export type ChatExportFormat = 'markdown' | 'json' | 'html';
+
+export const EXPORT_FORMATS: Record<ChatExportFormat, { label: string; extension: string; mimeType: string }> = {
+  markdown: { label: 'Markdown', extension: 'md', mimeType: 'text/markdown; charset=utf-8' },
+  json: { label: 'JSON', extension: 'json', mimeType: 'application/json; charset=utf-8' },
+  html: { label: 'HTML', extension: 'html', mimeType: 'text/html; charset=utf-8' },
+};
+
+export type ExportedMessage = Pick<
+  Message,
+  'id' | 'parent_id' | 'role' | 'content' | 'created_at' | 'model_params' | 'metadata' | 'attachments'
+> & {
+  vote: Pick<Vote, 'vote' | 'reason'> | null;
+};
+
+/**
+ * A whole chat as written to the JSON export: every branch (edits and
+ * regenerations are siblings under `parent_id`), the settings and models used,
+ * and the user's votes. Attachments are references; their bytes stay in storage.
+ */
+export type ChatExport = {
+  format: typeof CHAT_EXPORT_FORMAT;
+  version: typeof CHAT_EXPORT_VERSION;
+  exported_at: string;
+  chat: Pick<Chat, 'id' | 'title' | 'model' | 'created_at' | 'updated_at' | 'settings' | 'active_leaf_id' | 'metadata'>;
+  messages: ExportedMessage[]; // Oldest first
+};
+
+/**
+ * The messages shown in the chat: the branch the user last had open.
+ */
+export function getExportedConversation(chatExport: ChatExport): ExportedMessage[] {
+  return getActivePath(chatExport.messages, chatExport.chat.active_leaf_id);
+}
+
+export function getModelName(modelId: string | undefined): string | null {
+  return modelId ? findLlmById(modelId)?.name ?? modelId : null;
+}
+
+/**
+ * A file name for the export, from the chat title.
+ */
+export function getExportFileName(title: string, format: ChatExportFormat): string {
+  const base = title.replace(/[^\w\s-]+/g, '').trim().replace(/\s+/g, '-').slice(0, 80) || 'chat';
+  return `${base}.${EXPORT_FORMATS[format].extension}`;
+}
+
+// An answer cut off mid code block would swallow everything after it in Markdown
+function closeOpenFence(content: string): string {
+  const fences = content.match(/^\s*(```|~~~)/gm) || [];
+  return fences.length % 2 === 1 ? `${content}\n${fences[fences.length - 1].trim()}` : content;
+}
+
+/**
+ * The conversation as Markdown: a heading per turn, message text as written
+ * (so code keeps its fences), files and cited sources listed under the turn.
+ */
+export function chatToMarkdown(chatExport: ChatExport): string {
+  const { chat } = chatExport;
+  const lines: string[] = [`# ${chat.title}`, '', `_Exported ${new Date(chatExport.exported_at).toUTCString()}_`, ''];
+
+  for (const message of getExportedConversation(chatExport)) {
+    const model = message.role === 'assistant' ? getModelName(message.metadata?.model) : null;
+    lines.push(message.role === 'user' ? '## User' : `## Assistant${model ? ` (${model})` : ''}`, '');
+
+    if (message.attachments?.length) {
+      lines.push(...message.attachments.map(a => `- Attachment: ${a.name}`), '');
+    }
+    if (message.content) {
+      lines.push(closeOpenFence(message.content.trim()), '');
+    }
+    if (message.metadata?.citations?.length) {
+      lines.push('**Sources**', '');
+      lines.push(...message.metadata.citations.map(c =>
+        `${c.index}. ${c.document_name}${c.label ? ` (${c.label})` : ''}`
+      ), '');
+    }
+  }
+
+  return lines.join('\n');
+}
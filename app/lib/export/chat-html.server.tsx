@@ -0,0 +1,124 @@
+import { renderToStaticMarkup } from 'react-dom/server';
+import { Markdown } from '~/components/markdown';
+import { getExportedConversation, getModelName, type ChatExport, type ExportedMessage } from './chat-export';
+
+// The app's stylesheet isn't part of the file, so the classes Markdown and CodeBlock use get plain equivalents
+const STYLES = `
+  :root { color-scheme: light dark; --fg: #1c1917; --muted: #78716c; --border: #e7e5e4; --bubble: #f5f5f4; --accent: #2563eb; }
+  @media (prefers-color-scheme: dark) { :root { --fg: #fafaf9; --muted: #a8a29e; --border: #44403c; --bubble: #292524; --accent: #60a5fa; } }
+  body { margin: 0; font-family: ui-sans-serif, system-ui, sans-serif; color: var(--fg); line-height: 1.6; }
+  main { max-width: 56rem; margin: 0 auto; padding: 2rem 1.5rem; }
+  header { border-bottom: 1px solid var(--border); margin-bottom: 2rem; }
+  header p, .meta { color: var(--muted); font-size: 0.8rem; }
+  .turn { margin-bottom: 2rem; }
+  .turn.user .content { margin-left: auto; width: fit-content; max-width: 85%; background: var(--bubble); border-radius: 1rem; padding: 0.75rem 1.25rem; white-space: pre-wrap; }
+  .turn.user .meta { text-align: right; }
+  .attachments { display: flex; flex-wrap: wrap; gap: 0.5rem; margin: 0.5rem 0; }
+  .turn.user .attachments { justify-content: flex-end; }
+  .attachments img { max-width: 20rem; max-height: 20rem; border-radius: 0.5rem; border: 1px solid var(--border); }
+  .attachments .file { border: 1px solid var(--border); border-radius: 0.5rem; padding: 0.25rem 0.75rem; font-size: 0.85rem; }
+  details { color: var(--muted); border-left: 2px solid var(--border); padding-left: 1rem; margin-bottom: 1rem; }
+  .sources { font-size: 0.85rem; color: var(--muted); }
+  .markdown-content p { margin: 0 0 1rem; }
+  .markdown-content p:last-child { margin-bottom: 0; }
+  .markdown-content ul, .markdown-content ol { padding-left: 1.5rem; margin: 0 0 1rem; }
+  .markdown-content li + li { margin-top: 0.5rem; }
+  .markdown-content a { color: var(--accent); font-weight: 500; text-decoration: none; }
+  .markdown-content a:hover { text-decoration: underline; }
+  .markdown-content blockquote { border-left: 4px solid var(--accent); padding-left: 1rem; font-style: italic; color: var(--muted); margin: 1rem 0; }
+  .markdown-content hr { border: 0; border-top: 1px solid var(--border); margin: 2rem 0; }
+  .markdown-content table { width: 100%; border-collapse: collapse; }
+  .markdown-content th, .markdown-content td { border: 1px solid var(--border); padding: 0.5rem 1rem; text-align: left; }
+  .markdown-content th { font-weight: 700; background: var(--bubble); }
+  .markdown-content .overflow-x-auto { overflow-x: auto; margin: 1rem 0; }
+  .markdown-content .bg-zinc-950 { background: #09090b; border: 1px solid #27272a; border-radius: 0.5rem; margin: 1rem 0; overflow: hidden; }
+  .markdown-content .bg-zinc-900 { display: flex; align-items: center; gap: 0.5rem; background: #18181b; border-bottom: 1px solid #27272a; padding: 0.375rem 0.75rem; color: #a1a1aa; font-size: 0.75rem; }
+  .markdown-content .bg-zinc-900 svg { width: 1rem; height: 1rem; }
+  .markdown-content .bg-zinc-900 button { display: none; }
+  .markdown-content .max-h-\\[500px\\] { max-height: 500px; overflow: auto; }
+`;
+
+function Attachments({ message, images }: { message: ExportedMessage; images: Record<string, string> }) {
+  if (!message.attachments?.length) return null;
+  return (
+    <div className="attachments">
+      {message.attachments.map(attachment =>
+        images[attachment.id] ? (
+          <img key={attachment.id} src={images[attachment.id]} alt={attachment.name} />
+        ) : (
+          <span key={attachment.id} className="file">{attachment.name}</span>
+        )
+      )}
+    </div>
+  );
+}
+
+function Turn({ message, images }: { message: ExportedMessage; images: Record<string, string> }) {
+  const time = new Date(message.created_at).toLocaleString('en-US', { timeZone: 'UTC' });
+
+  if (message.role === 'user') {
+    return (
+      <section className="turn user">
+        <p className="meta">You · {time} UTC</p>
+        <Attachments message={message} images={images} />
+        {message.content && <div className="content">{message.content}</div>}
+      </section>
+    );
+  }
+
+  const model = getModelName(message.metadata?.model);
+  const citations = message.metadata?.citations;
+  return (
+    <section className="turn assistant">
+      <p className="meta">{model ?? 'Assistant'} · {time} UTC</p>
+      {message.metadata?.reasoning && (
+        <details>
+          <summary>Reasoning</summary>
+          <Markdown content={message.metadata.reasoning} />
+        </details>
+      )}
+      <Attachments message={message} images={images} />
+      <Markdown content={message.content} />
+      {citations && citations.length > 0 && (
+        <ol className="sources">
+          {citations.map(citation => (
+            <li key={citation.index} value={citation.index}>
+              {citation.document_name}{citation.label ? ` (${citation.label})` : ''}
+            </li>
+          ))}
+        </ol>
+      )}
+    </section>
+  );
+}
+
+/**
+ * The conversation as a standalone HTML page, rendered with the app's own
+ * Markdown component. `images` maps attachment ids to data URLs, so pictures
+ * are part of the file; other attachments are listed by name.
+ */
+export function chatToHtml(chatExport: ChatExport, images: Record<string, string> = {}): string {
+  const { chat } = chatExport;
+  const page = (
+    <html lang="en">
+      <head>
+        <meta charSet="utf-8" />
+        <meta name="viewport" content="width=device-width, initial-scale=1" />
+        <title>{chat.title}</title>
+        <style dangerouslySetInnerHTML={{ __html: STYLES }} />
+      </head>
+      <body>
+        <main>
+          <header>
+            <h1>{chat.title}</h1>
+            <p>Exported {new Date(chatExport.exported_at).toUTCString()}</p>
+          </header>
+          {getExportedConversation(chatExport).map(message => (
+            <Turn key={message.id} message={message} images={images} />
+          ))}
+        </main>
+      </body>
+    </html>
+  );
+  return `<!DOCTYPE html>\n${renderToStaticMarkup(page)}`;
+}
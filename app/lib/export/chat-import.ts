@@ -0,0 +1,335 @@
+import { AVAILABLE_LLMS, findLlmById } from '~/lib/ai/models.config';
+import { fitParamsToModel, validateModelParams } from '~/lib/ai/params';
+import type { Citation, Message, MessageMetadata, ModelParams, Vote } from '~/lib/db/schema';
+import { CHAT_EXPORT_FORMAT, CHAT_EXPORT_VERSION } from './chat-export';
+
+export type ImportSource = 'chatgpt' | typeof CHAT_EXPORT_FORMAT;
+
+export type ImportedMessage = {
+  source_id: string;
+  parent_source_id: string | null; // Nearest imported ancestor; null for the first turn
+  role: Message['role'];
+  content: string;
+  created_at: string;
+  model_params?: ModelParams | null;
+  metadata?: MessageMetadata | null;
+  vote?: Pick<Vote, 'vote' | 'reason'> | null;
+};
+
+export type ImportedChat = {
+  index: number; // Position in the file
+  source: ImportSource;
+  source_id: string; // Conversation id in the source, used to skip chats imported before
+  title: string;
+  created_at: string;
+  updated_at: string;
+  model?: string | null;
+  settings?: ModelParams | null;
+  active_leaf_source_id: string | null; // Message of the branch to show, if the source says
+  messages: ImportedMessage[]; // Parents before children
+  skipped_messages: number; // Malformed messages left out
+  skipped_attachments: number; // Files can't be imported, only their messages
+};
+
+// A conversation that couldn't be imported; index is its position in the file
+export type ImportIssue = { index: number; title?: string; reason: string };
+
+export type ParsedImport = { source: ImportSource; chats: ImportedChat[]; skipped: ImportIssue[] };
+
+type TreeEntry = { parent: string | null; message: ImportedMessage | null };
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+function toIsoDate(value: unknown): string | null {
+  const date = typeof value === 'number'
+    ? new Date(value * 1000) // ChatGPT exports use seconds since the epoch
+    : typeof value === 'string' ? new Date(value) : null;
+  return date && !Number.isNaN(date.getTime()) ? date.toISOString() : null;
+}
+
+/**
+ * Checks settings from the file like the settings panel does, lowering a reply
+ * cap above the model's limit. Without a known model, max output tokens must
+ * fit some model. Settings that don't pass are left out rather than failing the chat.
+ */
+function parseModelParams(value: unknown, model: string | null): ModelParams | null {
+  if (!isObject(value)) return null;
+  const llm = (model ? findLlmById(model) : undefined) ?? {
+    name: 'any available model',
+    maxOutputTokens: Math.max(1, ...AVAILABLE_LLMS.map(available => available.maxOutputTokens)),
+  };
+  const { params, error } = validateModelParams(fitParamsToModel(value as ModelParams, llm), llm);
+  return !error && Object.keys(params).length > 0 ? params : null;
+}
+
+function parseCitation(value: unknown): Citation | null {
+  if (!isObject(value)) return null;
+  const { index, document_id: documentId, document_name: documentName, label, page, snippet } = value;
+  if (!Number.isInteger(index) || typeof documentName !== 'string' || typeof snippet !== 'string') return null;
+  return {
+    index: index as number,
+    document_id: typeof documentId === 'string' && UUID_PATTERN.test(documentId) ? documentId : null,
+    document_name: documentName,
+    label: typeof label === 'string' ? label : null,
+    page: Number.isInteger(page) && (page as number) > 0 ? (page as number) : null,
+    snippet,
+  };
+}
+
+/**
+ * Keeps the message metadata the app shows, each field checked; the rest of
+ * what the file holds is dropped.
+ */
+function parseMetadata(value: unknown): MessageMetadata | null {
+  if (!isObject(value)) return null;
+  const metadata: MessageMetadata = {};
+  if (typeof value.model === 'string') metadata.model = value.model;
+  if (typeof value.reasoning === 'string') metadata.reasoning = value.reasoning;
+  if (Array.isArray(value.citations)) {
+    const citations = value.citations.map(parseCitation).filter((citation): citation is Citation => citation !== null);
+    if (citations.length > 0) metadata.citations = citations;
+  }
+  return Object.keys(metadata).length > 0 ? metadata : null;
+}
+
+/**
+ * Links every kept message to its nearest kept ancestor (dropped messages are
+ * stepped over) and orders them parents first.
+ */
+function buildMessageTree(entries: Map<string, TreeEntry>): ImportedMessage[] {
+  const resolveParent = (id: string): string | null => {
+    const seen = new Set<string>([id]);
+    let parentId = entries.get(id)?.parent ?? null;
+    while (parentId && !seen.has(parentId)) {
+      const parent = entries.get(parentId);
+      if (!parent) return null;
+      if (parent.message) return parentId;
+      seen.add(parentId);
+      parentId = parent.parent;
+    }
+    return null;
+  };
+
+  const children = new Map<string | null, ImportedMessage[]>();
+  for (const [id, entry] of entries) {
+    if (!entry.message) continue;
+    entry.message.parent_source_id = resolveParent(id);
+    const siblings = children.get(entry.message.parent_source_id) ?? [];
+    siblings.push(entry.message);
+    children.set(entry.message.parent_source_id, siblings);
+  }
+
+  const ordered: ImportedMessage[] = [];
+  const stack = [...(children.get(null) ?? [])].sort((a, b) => b.created_at.localeCompare(a.created_at));
+  while (stack.length > 0) {
+    const message = stack.pop()!;
+    ordered.push(message);
+    const next = [...(children.get(message.source_id) ?? [])].sort((a, b) => b.created_at.localeCompare(a.created_at));
+    stack.push(...next);
+  }
+  return ordered;
+}
+
+function latestCreatedAt(messages: ImportedMessage[]): string {
+  return messages.reduce((latest, m) => (m.created_at > latest ? m.created_at : latest), messages[0].created_at);
+}
+
+// The branch to show: the message itself, or its nearest imported ancestor
+function resolveLeaf(entries: Map<string, TreeEntry>, leafId: unknown): string | null {
+  const seen = new Set<string>();
+  let id = typeof leafId === 'string' ? leafId : null;
+  while (id && !seen.has(id)) {
+    const entry = entries.get(id);
+    if (!entry) return null;
+    if (entry.message) return id;
+    seen.add(id);
+    id = entry.parent;
+  }
+  return null;
+}
+
+/**
+ * Text of a ChatGPT message, or null for what isn't part of the visible
+ * conversation (system and tool messages, tool calls, hidden context).
+ */
+function readChatGptText(message: Record<string, unknown>): { text: string; attachments: number } | null {
+  const role = isObject(message.author) ? message.author.role : null;
+  if (role !== 'user' && role !== 'assistant') return null;
+  if (message.recipient !== undefined && message.recipient !== 'all') return null;
+  if (isObject(message.metadata) && message.metadata.is_visually_hidden_from_conversation) return null;
+
+  const content = isObject(message.content) ? message.content : null;
+  if (!content || (content.content_type !== 'text' && content.content_type !== 'multimodal_text')) return null;
+  if (!Array.isArray(content.parts)) return null;
+
+  const texts = content.parts.filter((part): part is string => typeof part === 'string');
+  const attachments = content.parts.length - texts.length;
+  const text = [texts.join('\n').trim(), ...Array(attachments).fill('[Attachment not imported]')]
+    .filter(Boolean)
+    .join('\n\n');
+  return text ? { text, attachments } : null;
+}
+
+function parseChatGptConversation(conversation: unknown): Omit<ImportedChat, 'index'> | string {
+  if (!isObject(conversation) || !isObject(conversation.mapping)) return 'Not a conversation (no message mapping)';
+
+  const conversationCreated = toIsoDate(conversation.create_time);
+  if (!conversationCreated) return 'Missing or invalid create_time';
+
+  const entries = new Map<string, TreeEntry>();
+  let skippedMessages = 0;
+  let skippedAttachments = 0;
+  for (const [id, node] of Object.entries(conversation.mapping)) {
+    if (!isObject(node)) {
+      skippedMessages++;
+      continue;
+    }
+    const parent = typeof node.parent === 'string' ? node.parent : null;
+    const message = isObject(node.message) ? node.message : null;
+    const read = message ? readChatGptText(message) : null;
+    if (!message || !read) {
+      entries.set(id, { parent, message: null });
+      continue;
+    }
+
+    skippedAttachments += read.attachments;
+    const model = isObject(message.metadata) && typeof message.metadata.model_slug === 'string'
+      ? message.metadata.model_slug
+      : undefined;
+    entries.set(id, {
+      parent,
+      message: {
+        source_id: id,
+        parent_source_id: null,
+        role: (message.author as { role: Message['role'] }).role,
+        content: read.text,
+        created_at: toIsoDate(message.create_time) ?? conversationCreated,
+        metadata: model ? { model } : null,
+      },
+    });
+  }
+
+  const messages = buildMessageTree(entries);
+  if (messages.length === 0) return 'No user or assistant messages';
+
+  return {
+    source: 'chatgpt',
+    source_id: String(conversation.conversation_id ?? conversation.id ?? ''),
+    title: typeof conversation.title === 'string' && conversation.title.trim() ? conversation.title.trim() : 'Imported chat',
+    created_at: conversationCreated,
+    updated_at: toIsoDate(conversation.update_time) ?? latestCreatedAt(messages),
+    active_leaf_source_id: resolveLeaf(entries, conversation.current_node),
+    messages,
+    skipped_messages: skippedMessages,
+    skipped_attachments: skippedAttachments,
+  };
+}
+
+function parseOwnExport(chatExport: Record<string, unknown>): Omit<ImportedChat, 'index'> | string {
+  if (chatExport.version !== CHAT_EXPORT_VERSION) return `Unsupported export version: ${String(chatExport.version)}`;
+  const chat = isObject(chatExport.chat) ? chatExport.chat : null;
+  if (!chat || !Array.isArray(chatExport.messages)) return 'Missing chat or messages';
+
+  const created = toIsoDate(chat.created_at);
+  if (!created) return 'Missing or invalid created_at';
+  const model = typeof chat.model === 'string' ? chat.model : null;
+
+  const entries = new Map<string, TreeEntry>();
+  let skippedMessages = 0;
+  let skippedAttachments = 0;
+  for (const message of chatExport.messages) {
+    if (!isObject(message) || typeof message.id !== 'string') {
+      skippedMessages++;
+      continue;
+    }
+    const parent = typeof message.parent_id === 'string' ? message.parent_id : null;
+    const createdAt = toIsoDate(message.created_at);
+    if ((message.role !== 'user' && message.role !== 'assistant') || typeof message.content !== 'string' || !createdAt) {
+      skippedMessages++;
+      entries.set(message.id, { parent, message: null });
+      continue;
+    }
+
+    skippedAttachments += Array.isArray(message.attachments) ? message.attachments.length : 0;
+    const rawVote = isObject(message.vote) ? message.vote : null;
+    const vote = rawVote && (rawVote.vote === 'up' || rawVote.vote === 'down')
+      ? { vote: rawVote.vote as Vote['vote'], reason: typeof rawVote.reason === 'string' ? rawVote.reason : null }
+      : null;
+    const metadata = parseMetadata(message.metadata);
+    entries.set(message.id, {
+      parent,
+      message: {
+        source_id: message.id,
+        parent_source_id: null,
+        role: message.role,
+        content: message.content,
+        created_at: createdAt,
+        model_params: parseModelParams(message.model_params, metadata?.model ?? model),
+        metadata,
+        vote,
+      },
+    });
+  }
+
+  const messages = buildMessageTree(entries);
+  if (messages.length === 0) return 'No valid messages';
+
+  return {
+    source: CHAT_EXPORT_FORMAT,
+    source_id: typeof chat.id === 'string' ? chat.id : '',
+    title: typeof chat.title === 'string' && chat.title.trim() ? chat.title.trim() : 'Imported chat',
+    created_at: created,
+    updated_at: toIsoDate(chat.updated_at) ?? latestCreatedAt(messages),
+    model,
+    settings: parseModelParams(chat.settings, model),
+    active_leaf_source_id: resolveLeaf(entries, chat.active_leaf_id),
+    messages,
+    skipped_messages: skippedMessages,
+    skipped_attachments: skippedAttachments,
+  };
+}
+
+// Title of an entry as written in the file, for the report
+function getItemTitle(item: unknown, source: ImportSource): string | undefined {
+  if (!isObject(item)) return undefined;
+  const title = source === 'chatgpt' ? item.title : isObject(item.chat) ? item.chat.title : undefined;
+  return typeof title === 'string' ? title : undefined;
+}
+
+/**
+ * Reads an import file: a ChatGPT `conversations.json` (an array of
+ * conversations) or this app's JSON export (one chat, or an array of them).
+ * Conversations that can't be read are reported in `skipped`.
+ * @returns The chats to import, or an error when the format isn't recognized.
+ */
+export function parseChatImport(data: unknown): { result?: ParsedImport; error?: string } {
+  const items = Array.isArray(data) ? data : [data];
+  const first = items.find(isObject);
+  if (!first) return { error: 'The file has no conversations.' };
+
+  const source: ImportSource | null = first.format === CHAT_EXPORT_FORMAT
+    ? CHAT_EXPORT_FORMAT
+    : isObject(first.mapping) ? 'chatgpt' : null;
+  if (!source) {
+    return { error: 'Unrecognized file. Use a ChatGPT conversations.json or a JSON export from this app.' };
+  }
+
+  const chats: ImportedChat[] = [];
+  const skipped: ImportIssue[] = [];
+  items.forEach((item, index) => {
+    const title = getItemTitle(item, source);
+    const parsed = source === 'chatgpt'
+      ? parseChatGptConversation(item)
+      : isObject(item) && item.format === CHAT_EXPORT_FORMAT ? parseOwnExport(item) : 'Not a chat export';
+    if (typeof parsed === 'string') {
+      skipped.push({ index, title, reason: parsed });
+    } else {
+      chats.push({ ...parsed, index });
+    }
+  });
+
+  return { result: { source, chats, skipped } };
+}
@@ -0,0 +1,81 @@
+import type { DocumentSection } from '~/lib/documents/extract.server';
+
+// About 500 tokens per chunk, with a short overlap so a passage cut mid-thought keeps its context
+const CHUNK_CHARS = 2000;
+const OVERLAP_CHARS = 200;
+
+export interface TextChunk {
+  content: string;
+  label: string | null;
+  page: number | null;
+}
+
+/**
+ * Splits text that doesn't fit one chunk at sentence ends, cutting
+ * overlong sentences hard.
+ */
+function splitLongText(text: string, maxChars: number): string[] {
+  const pieces: string[] = [];
+  let current = '';
+  for (const sentence of text.split(/(?<=[.!?])\s+/)) {
+    if (current && current.length + 1 + sentence.length > maxChars) {
+      pieces.push(current);
+      current = '';
+    }
+    if (sentence.length > maxChars) {
+      for (let start = 0; start < sentence.length; start += maxChars) {
+        pieces.push(sentence.slice(start, start + maxChars));
+      }
+      continue;
+    }
+    current = current ? `${current} ${sentence}` : sentence;
+  }
+  if (current) pieces.push(current);
+  return pieces;
+}
+
+// The end of a chunk, starting at a word boundary, to open the next one with
+function overlapTail(text: string, overlapChars: number): string {
+  if (text.length <= overlapChars) return '';
+  const tail = text.slice(-overlapChars);
+  const wordStart = tail.search(/\s/);
+  return wordStart >= 0 ? tail.slice(wordStart + 1) : tail;
+}
+
+/**
+ * Splits a document's sections into chunks for embedding. Chunks never span
+ * sections, so each keeps the page, slide or sheet it came from.
+ */
+export function chunkSections(
+  sections: DocumentSection[],
+  options: { chunkChars?: number; overlapChars?: number } = {}
+): TextChunk[] {
+  const chunkChars = options.chunkChars ?? CHUNK_CHARS;
+  const overlapChars = options.overlapChars ?? OVERLAP_CHARS;
+  const chunks: TextChunk[] = [];
+
+  for (const section of sections) {
+    // Single-section documents (e.g. .docx) have no meaningful label
+    const label = sections.length > 1 ? section.label : null;
+    const page = section.page ?? null;
+    const pieces = section.text
+      .split(/\n{2,}/)
+      .map(paragraph => paragraph.trim())
+      .filter(Boolean)
+      .flatMap(paragraph => (paragraph.length > chunkChars ? splitLongText(paragraph, chunkChars) : [paragraph]));
+
+    let current = '';
+    for (const piece of pieces) {
+      if (current && current.length + 2 + piece.length > chunkChars) {
+        chunks.push({ content: current, label, page });
+        const tail = overlapTail(current, overlapChars);
+        current = tail ? `${tail}\n\n${piece}` : piece;
+      } else {
+        current = current ? `${current}\n\n${piece}` : piece;
+      }
+    }
+    if (current) chunks.push({ content: current, label, page });
+  }
+
+  return chunks;
+}
@@ -0,0 +1,341 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { v4 as uuidv4 } from 'uuid';
+import { getDocumentFormat } from '~/lib/ai/attachments';
+import { estimateTokens, getInputTokenBudget, truncateToTokens } from '~/lib/ai/context';
+import { embedDocuments, embedQuery } from '~/lib/ai/embeddings.server';
+import type { LlmConfig } from '~/lib/ai/models.config';
+import type { Citation, KnowledgeDocument } from '~/lib/db/schema';
+import { extractDocumentText } from '~/lib/documents/extract.server';
+import { assertObjectInFolder, buildObjectPath, getObject, putObject, removeObjects } from '~/lib/storage/objects.server';
+import { chunkSections } from './chunking';
+
+export const KNOWLEDGE_LIMITS = {
+  maxFileBytes: 20 * 1024 * 1024,
+};
+
+const MATCH_COUNT = 5;
+const MIN_SIMILARITY = 0.5;
+// Share of the model's input budget retrieved passages may take up
+const KNOWLEDGE_BUDGET_RATIO = 0.2;
+const CHUNK_INSERT_BATCH = 100;
+const SNIPPET_CHARS = 240;
+// A document still processing after this long is taken as stuck (e.g. the server restarted mid-indexing)
+const STUCK_PROCESSING_MS = 10 * 60 * 1000;
+
+const DOCUMENT_COLUMNS = 'id, user_id, name, mime_type, size, path, status, error, chunk_count, created_at, updated_at';
+
+/**
+ * A passage returned by match_knowledge_chunks.
+ */
+export interface RetrievedChunk {
+  id: string;
+  document_id: string;
+  document_name: string;
+  label: string | null;
+  page: number | null;
+  content: string;
+  similarity: number;
+}
+
+/**
+ * Lists the user's knowledge base, newest first.
+ */
+export async function listKnowledgeDocuments(
+  supabase: SupabaseClient,
+  userId: string
+): Promise<{ documents: KnowledgeDocument[]; error?: string }> {
+  const { data, error } = await supabase
+    .from('knowledge_documents')
+    .select(DOCUMENT_COLUMNS)
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    return { documents: [], error: error.message };
+  }
+  return { documents: (data as KnowledgeDocument[]) || [] };
+}
+
+/**
+ * Loads a knowledge document owned by the given user.
+ * @returns The document, or null when it doesn't exist or belongs to someone else.
+ */
+export async function findKnowledgeDocument(
+  supabase: SupabaseClient,
+  documentId: string,
+  userId: string
+): Promise<{ document: KnowledgeDocument | null; error?: string }> {
+  const { data, error } = await supabase
+    .from('knowledge_documents')
+    .select(DOCUMENT_COLUMNS)
+    .eq('id', documentId)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    return { document: null, error: error.message };
+  }
+  return { document: data as KnowledgeDocument | null };
+}
+
+/**
+ * Checks a file before it's added to the knowledge base.
+ * @returns A message for the user, or null when the file is accepted.
+ */
+export function validateKnowledgeFile(file: { name: string; size: number; type: string }): string | null {
+  if (!getDocumentFormat(file.name, file.type)) {
+    return `${file.name} isn't a supported document type. Use PDF, Word, PowerPoint (.pptx), Excel (.xlsx) or text files.`;
+  }
+  if (file.size > KNOWLEDGE_LIMITS.maxFileBytes) {
+    return `${file.name} is larger than ${KNOWLEDGE_LIMITS.maxFileBytes / (1024 * 1024)} MB.`;
+  }
+  return null;
+}
+
+/**
+ * Extracts, chunks and embeds a stored document, then marks it ready. Passages
+ * from an earlier run are replaced. A failure marks the document failed with
+ * the reason instead of throwing.
+ */
+async function indexKnowledgeDocument(
+  supabase: SupabaseClient,
+  document: KnowledgeDocument,
+  bytes: Buffer
+): Promise<KnowledgeDocument> {
+  try {
+    const extracted = await extractDocumentText(bytes, document.name, document.mime_type);
+    const chunks = chunkSections(extracted.sections);
+    const embeddings = await embedDocuments(chunks.map(chunk => chunk.content), document.name);
+
+    const { error: clearError } = await supabase.from('knowledge_chunks').delete().eq('document_id', document.id);
+    if (clearError) throw new Error(`Failed to clear old passages: ${clearError.message}`);
+
+    for (let start = 0; start < chunks.length; start += CHUNK_INSERT_BATCH) {
+      const { error } = await supabase.from('knowledge_chunks').insert(
+        chunks.slice(start, start + CHUNK_INSERT_BATCH).map((chunk, offset) => ({
+          document_id: document.id,
+          user_id: document.user_id,
+          chunk_index: start + offset,
+          label: chunk.label,
+          page: chunk.page,
+          content: chunk.content,
+          embedding: embeddings[start + offset],
+        }))
+      );
+      if (error) throw new Error(`Failed to store passages: ${error.message}`);
+    }
+
+    const update = { status: 'ready' as const, error: null, chunk_count: chunks.length };
+    const { error } = await supabase.from('knowledge_documents').update(update).eq('id', document.id);
+    if (error) throw new Error(`Failed to update document: ${error.message}`);
+    return { ...document, ...update };
+  } catch (error) {
+    console.error(`Failed to index knowledge document ${document.id}:`, error);
+    const update = { status: 'failed' as const, error: error instanceof Error ? error.message : String(error) };
+    // Drop any passages stored before the failure so a retry starts clean
+    await supabase.from('knowledge_chunks').delete().eq('document_id', document.id);
+    const { error: updateError } = await supabase.from('knowledge_documents').update(update).eq('id', document.id);
+    if (updateError) console.error(`Failed to mark knowledge document ${document.id} as failed:`, updateError);
+    return { ...document, ...update };
+  }
+}
+
+/**
+ * Stores a file in the user's knowledge base and indexes it for retrieval.
+ * Indexing failures are recorded on the returned document (status 'failed').
+ */
+export async function addKnowledgeDocument(
+  supabase: SupabaseClient,
+  userId: string,
+  file: File
+): Promise<{ document: KnowledgeDocument | null; error?: string }> {
+  const id = uuidv4();
+  const mimeType = file.type || 'application/octet-stream';
+  const storagePath = buildObjectPath(userId, 'knowledge', id, file.name);
+  const bytes = Buffer.from(await file.arrayBuffer());
+
+  try {
+    await putObject(supabase, storagePath, bytes, mimeType);
+  } catch (error) {
+    console.error(`Failed to upload knowledge document ${file.name}:`, error);
+    return { document: null, error: 'Failed to upload file' };
+  }
+
+  const { data, error } = await supabase
+    .from('knowledge_documents')
+    .insert({ id, user_id: userId, name: file.name, mime_type: mimeType, size: file.size, path: storagePath, status: 'processing' })
+    .select(DOCUMENT_COLUMNS)
+    .single();
+
+  if (error || !data) {
+    await removeObjects(supabase, [storagePath]);
+    return { document: null, error: error?.message || 'Failed to save document' };
+  }
+  return { document: await indexKnowledgeDocument(supabase, data as KnowledgeDocument, bytes) };
+}
+
+// The row's owner can rewrite `path`, so only files in their own knowledge folder are read or removed
+function getKnowledgeFilePath(document: KnowledgeDocument): string {
+  assertObjectInFolder(document.path, `${document.user_id}/knowledge`);
+  return document.path;
+}
+
+/**
+ * Reads a knowledge document's original file.
+ * @throws When its stored path is outside the owner's knowledge folder.
+ */
+export async function readKnowledgeFile(supabase: SupabaseClient, document: KnowledgeDocument): Promise<Buffer> {
+  return getObject(supabase, getKnowledgeFilePath(document));
+}
+
+/**
+ * Re-runs indexing for a document that failed (e.g. after an embedding outage)
+ * or got stuck processing. The document is claimed first, so a repeated
+ * request doesn't index it twice.
+ * @returns The reindexed document, or null when it's ready or already being indexed.
+ */
+export async function reindexKnowledgeDocument(
+  supabase: SupabaseClient,
+  document: KnowledgeDocument
+): Promise<{ document: KnowledgeDocument | null; error?: string }> {
+  const stuckBefore = new Date(Date.now() - STUCK_PROCESSING_MS).toISOString();
+  const { data: claimed, error: claimError } = await supabase
+    .from('knowledge_documents')
+    .update({ status: 'processing', error: null })
+    .eq('id', document.id)
+    .or(`status.eq.failed,and(status.eq.processing,updated_at.lt."${stuckBefore}")`)
+    .select(DOCUMENT_COLUMNS)
+    .maybeSingle();
+
+  if (claimError) {
+    console.error(`Failed to claim knowledge document ${document.id} for reindexing:`, claimError);
+    return { document: null, error: 'Failed to update the document' };
+  }
+  if (!claimed) {
+    return { document: null };
+  }
+
+  try {
+    const bytes = await readKnowledgeFile(supabase, claimed as KnowledgeDocument);
+    return { document: await indexKnowledgeDocument(supabase, claimed as KnowledgeDocument, bytes) };
+  } catch (error) {
+    console.error(`Failed to read knowledge document ${document.id}:`, error);
+    const update = { status: 'failed' as const, error: 'The stored file could not be read.' };
+    await supabase.from('knowledge_documents').update(update).eq('id', document.id);
+    return { document: null, error: 'Failed to read the stored file' };
+  }
+}
+
+/**
+ * Removes a document, its passages and the stored file.
+ */
+export async function deleteKnowledgeDocument(
+  supabase: SupabaseClient,
+  document: KnowledgeDocument
+): Promise<{ error?: string }> {
+  const { error } = await supabase
+    .from('knowledge_documents')
+    .delete()
+    .eq('id', document.id)
+    .eq('user_id', document.user_id);
+
+  if (error) {
+    return { error: error.message };
+  }
+  try {
+    await removeObjects(supabase, [getKnowledgeFilePath(document)]);
+  } catch (removeError) {
+    console.error(`Kept the stored file of knowledge document ${document.id}:`, removeError);
+  }
+  return {};
+}
+
+/**
+ * Finds the passages of the user's knowledge base closest to a query. Skips
+ * the embedding call entirely when the user has no ready documents.
+ */
+export async function searchKnowledge(
+  supabase: SupabaseClient,
+  userId: string,
+  query: string,
+  matchCount: number = MATCH_COUNT
+): Promise<{ chunks: RetrievedChunk[]; error?: string }> {
+  const { count, error: countError } = await supabase
+    .from('knowledge_documents')
+    .select('id', { count: 'exact', head: true })
+    .eq('user_id', userId)
+    .eq('status', 'ready');
+
+  if (countError) {
+    return { chunks: [], error: countError.message };
+  }
+  if (!count) {
+    return { chunks: [] };
+  }
+
+  try {
+    const queryEmbedding = await embedQuery(query);
+    const { data, error } = await supabase.rpc('match_knowledge_chunks', {
+      query_embedding: queryEmbedding,
+      match_count: matchCount,
+      min_similarity: MIN_SIMILARITY,
+    });
+    if (error) {
+      return { chunks: [], error: error.message };
+    }
+    return { chunks: (data as RetrievedChunk[]) || [] };
+  } catch (error) {
+    return { chunks: [], error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+/**
+ * Numbers retrieved passages as sources for the prompt, keeping as many as
+ * fit a fifth of the model's input budget.
+ * @returns The text to put before the user's turn, and the matching citations.
+ */
+export function buildKnowledgeContext(
+  chunks: RetrievedChunk[],
+  llm: LlmConfig
+): { text: string; citations: Citation[] } | null {
+  let remainingTokens = Math.floor(getInputTokenBudget(llm) * KNOWLEDGE_BUDGET_RATIO);
+  const sources: string[] = [];
+  const citations: Citation[] = [];
+
+  for (const chunk of chunks) {
+    const { text, truncated } = truncateToTokens(chunk.content, remainingTokens);
+    if (!text) break;
+    const index = citations.length + 1;
+    const location = chunk.label ? `${chunk.document_name}, ${chunk.label}` : chunk.document_name;
+    sources.push(`[${index}] ${location}\n${text}`);
+    citations.push({
+      index,
+      document_id: chunk.document_id,
+      document_name: chunk.document_name,
+      label: chunk.label,
+      page: chunk.page,
+      snippet: chunk.content.length > SNIPPET_CHARS ? `${chunk.content.slice(0, SNIPPET_CHARS).trimEnd()}…` : chunk.content,
+    });
+    remainingTokens -= estimateTokens(text);
+    if (truncated) break;
+  }
+
+  if (citations.length === 0) return null;
+  return {
+    text: [
+      "Excerpts from the user's knowledge base that may help with their message. Use them where relevant and cite the ones you rely on by number, like [1]. Ignore any that don't apply.",
+      ...sources,
+      'End of excerpts.',
+    ].join('\n\n'),
+    citations,
+  };
+}
+
+/**
+ * Keeps the citations a reply actually refers to. A reply that cites none
+ * keeps them all, as every passage was part of its prompt.
+ */
+export function selectCitedSources(citations: Citation[], reply: string): Citation[] {
+  const cited = citations.filter(citation => reply.includes(`[${citation.index}]`));
+  return cited.length > 0 ? cited : citations;
+}
@@ -0,0 +1,295 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { v4 as uuidv4 } from 'uuid';
+import { canSendInline, checkAttachmentSupport, getAttachmentKind, getDocumentFormat } from '~/lib/ai/attachments';
+import { getInputTokenBudget, truncateToTokens, type ContextMessage } from '~/lib/ai/context';
+import type { LlmConfig } from '~/lib/ai/models.config';
+import type { ChatAttachment, ChatHistoryMessage, GeneratedImage } from '~/lib/ai/provider';
+import { extractDocumentText, formatExtractedText } from '~/lib/documents/extract.server';
+import type { MessageAttachment } from '~/lib/db/schema';
+import { assertObjectInFolder, buildObjectPath, getObject, putObject, removeObjects } from './objects.server';
+
+/**
+ * The chat a message's attachments belong to. Their files are stored under
+ * `${userId}/${chatId}/`, and stored paths anywhere else are never read.
+ */
+export type AttachmentFolder = { userId: string; chatId: string };
+
+// Share of the model's input budget one document's text may take up
+const DOCUMENT_BUDGET_RATIO = 0.25;
+
+// Rough token costs of files sent inline, from their size; on the high side of what the providers charge
+const IMAGE_TOKENS = 1500; // Per image, whatever its size
+const TEXT_BYTES_PER_TOKEN = 4; // Same ratio as estimateTokens
+const PDF_BYTES_PER_TOKEN = 100; // About 50 KB and 500 tokens per page
+const AUDIO_BYTES_PER_TOKEN = 500; // 128 kbps at 32 tokens a second
+const VIDEO_BYTES_PER_TOKEN = 4000; // 8 Mbps at 260 tokens a second
+
+/**
+ * Uploads a file sent with a message. Text is extracted from documents and
+ * stored next to the file; a failed extraction is recorded, not thrown.
+ * @returns The reference stored on the message row.
+ */
+export async function storeAttachment(
+  supabase: SupabaseClient,
+  userId: string,
+  chatId: string,
+  file: File
+): Promise<MessageAttachment> {
+  const id = uuidv4();
+  const mimeType = file.type || 'application/octet-stream';
+  const storagePath = buildObjectPath(userId, chatId, id, file.name);
+  const bytes = Buffer.from(await file.arrayBuffer());
+  await putObject(supabase, storagePath, bytes, mimeType);
+
+  const attachment: MessageAttachment = {
+    id,
+    name: file.name,
+    mime_type: mimeType,
+    size: file.size,
+    kind: getAttachmentKind(mimeType),
+    path: storagePath,
+  };
+
+  if (attachment.kind === 'document' && getDocumentFormat(file.name, mimeType)) {
+    try {
+      const text = formatExtractedText(await extractDocumentText(bytes, file.name, mimeType));
+      const textPath = `${storagePath}.txt`;
+      await putObject(supabase, textPath, Buffer.from(text, 'utf8'), 'text/plain; charset=utf-8');
+      attachment.text_path = textPath;
+    } catch (error) {
+      console.warn(`Could not extract text from ${file.name}:`, error);
+      attachment.extraction_error = error instanceof Error ? error.message : String(error);
+    }
+  }
+
+  return attachment;
+}
+
+/**
+ * Stores an image the model generated, as an attachment of its reply.
+ * @param index Position among the reply's images, used for the file name.
+ */
+export async function storeGeneratedImage(
+  supabase: SupabaseClient,
+  userId: string,
+  chatId: string,
+  image: GeneratedImage,
+  index: number
+): Promise<MessageAttachment> {
+  const id = uuidv4();
+  const extension = image.mimeType.split('/')[1]?.replace('jpeg', 'jpg') || 'png';
+  const name = `image-${index + 1}.${extension}`;
+  const storagePath = buildObjectPath(userId, chatId, id, name);
+  const bytes = Buffer.from(image.data, 'base64');
+  await putObject(supabase, storagePath, bytes, image.mimeType);
+
+  return { id, name, mime_type: image.mimeType, size: bytes.length, kind: 'image', path: storagePath };
+}
+
+/**
+ * Uploads every file, removing the ones already stored if any upload fails.
+ */
+export async function storeAttachments(
+  supabase: SupabaseClient,
+  userId: string,
+  chatId: string,
+  files: File[]
+): Promise<MessageAttachment[]> {
+  const stored: MessageAttachment[] = [];
+  try {
+    for (const file of files) {
+      stored.push(await storeAttachment(supabase, userId, chatId, file));
+    }
+    return stored;
+  } catch (error) {
+    await removeAttachments(supabase, stored);
+    throw error;
+  }
+}
+
+// The paths come from messages.attachments, which the message's owner can rewrite
+function assertInAttachmentFolder(attachment: MessageAttachment, folder: AttachmentFolder): void {
+  const chatFolder = `${folder.userId}/${folder.chatId}`;
+  assertObjectInFolder(attachment.path, chatFolder);
+  if (attachment.text_path) assertObjectInFolder(attachment.text_path, chatFolder);
+}
+
+/**
+ * Copies attachments of the chat `source` into a user's own chat, e.g. when
+ * they continue someone else's shared chat, so the copy keeps working if the
+ * original is unshared. Removes the copies already made if any copy fails.
+ */
+export async function copyAttachments(
+  supabase: SupabaseClient,
+  userId: string,
+  chatId: string,
+  attachments: MessageAttachment[],
+  source: AttachmentFolder
+): Promise<MessageAttachment[]> {
+  const copied: MessageAttachment[] = [];
+  try {
+    for (const attachment of attachments) {
+      assertInAttachmentFolder(attachment, source);
+      const id = uuidv4();
+      const storagePath = buildObjectPath(userId, chatId, id, attachment.name);
+      await putObject(supabase, storagePath, await getObject(supabase, attachment.path), attachment.mime_type);
+      const copy: MessageAttachment = { ...attachment, id, path: storagePath, text_path: null };
+      copied.push(copy);
+
+      if (attachment.text_path) {
+        const textPath = `${storagePath}.txt`;
+        await putObject(supabase, textPath, await getObject(supabase, attachment.text_path), 'text/plain; charset=utf-8');
+        copy.text_path = textPath;
+      }
+    }
+    return copied;
+  } catch (error) {
+    await removeAttachments(supabase, copied);
+    throw error;
+  }
+}
+
+/**
+ * Reads the bytes of an attachment of the chat `folder`.
+ * @throws When its stored path is outside that chat's folder.
+ */
+export async function readAttachment(
+  supabase: SupabaseClient,
+  attachment: MessageAttachment,
+  folder: AttachmentFolder
+): Promise<Buffer> {
+  assertInAttachmentFolder(attachment, folder);
+  return getObject(supabase, attachment.path);
+}
+
+/**
+ * Deletes stored attachments and their extracted text.
+ */
+export async function removeAttachments(supabase: SupabaseClient, attachments: MessageAttachment[]): Promise<void> {
+  await removeObjects(supabase, attachments.flatMap(a => (a.text_path ? [a.path, a.text_path] : [a.path])));
+}
+
+/**
+ * Finds an attachment the model can read neither directly nor as text,
+ * e.g. a PDF without a text layer sent to a text-only model.
+ * @returns A message for the user, or null when every attachment is usable.
+ */
+export function findUnreadableAttachment(attachments: MessageAttachment[], llm: LlmConfig): string | null {
+  for (const attachment of attachments) {
+    if (canSendInline(llm, { mimeType: attachment.mime_type })) continue;
+    if (attachment.kind === 'document' && !attachment.text_path) {
+      return attachment.extraction_error || `No text could be extracted from ${attachment.name}.`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Appends the extracted text of documents the model can't take directly to
+ * their messages, before the context window is built so the text is budgeted.
+ * Each document gets at most a quarter of the model's input budget.
+ * `historyAttachments` runs parallel to `history`, and belongs to the chat `folder`.
+ */
+export async function injectDocumentText(
+  supabase: SupabaseClient,
+  history: ContextMessage[],
+  historyAttachments: (MessageAttachment[] | null | undefined)[],
+  llm: LlmConfig,
+  folder: AttachmentFolder
+): Promise<ContextMessage[]> {
+  const maxDocumentTokens = Math.floor(getInputTokenBudget(llm) * DOCUMENT_BUDGET_RATIO);
+
+  return Promise.all(history.map(async (message, index) => {
+    const documents = (historyAttachments[index] ?? []).filter(a =>
+      a.text_path && !canSendInline(llm, { mimeType: a.mime_type })
+    );
+    if (documents.length === 0) return message;
+
+    const blocks: string[] = [];
+    for (const document of documents) {
+      try {
+        assertInAttachmentFolder(document, folder);
+        const stored = (await getObject(supabase, document.text_path!)).toString('utf8');
+        const { text, truncated } = truncateToTokens(stored, maxDocumentTokens);
+        blocks.push(
+          `[Attached document: ${document.name}]\n${text}${truncated ? '\n[Document truncated to fit the context window]' : ''}\n[End of document: ${document.name}]`
+        );
+      } catch (error) {
+        console.error(`Failed to load extracted text of attachment ${document.id}:`, error);
+        blocks.push(`[Attachment unavailable: ${document.name}]`);
+      }
+    }
+
+    return { ...message, content: [message.content, ...blocks].filter(Boolean).join('\n\n') };
+  }));
+}
+
+/**
+ * Estimates the tokens of the attachments the model takes directly, without
+ * loading them, so `buildContextWindow` can budget them (see `ContextMessage`).
+ */
+export function estimateInlineAttachmentTokens(
+  attachments: MessageAttachment[] | null | undefined,
+  llm: LlmConfig
+): number {
+  return (attachments ?? []).reduce((total, attachment) => {
+    if (!canSendInline(llm, { mimeType: attachment.mime_type })) return total;
+    switch (attachment.kind) {
+      case 'image':
+        return total + IMAGE_TOKENS;
+      case 'audio':
+        return total + Math.ceil(attachment.size / AUDIO_BYTES_PER_TOKEN);
+      case 'video':
+        return total + Math.ceil(attachment.size / VIDEO_BYTES_PER_TOKEN);
+      default:
+        return total + Math.ceil(attachment.size / (attachment.mime_type === 'application/pdf' ? PDF_BYTES_PER_TOKEN : TEXT_BYTES_PER_TOKEN));
+    }
+  }, 0);
+}
+
+/**
+ * Loads the attachments the model takes directly for the messages being sent.
+ * `sources` are the stored messages behind the tail of `history` (the context
+ * window may open with an extra summary turn, so they're aligned from the end).
+ * Documents already injected as text are skipped; anything else the model
+ * can't read is replaced by a note in the text. `sources` belong to the chat `folder`.
+ */
+export async function loadHistoryAttachments(
+  supabase: SupabaseClient,
+  history: ChatHistoryMessage[],
+  sources: { attachments?: MessageAttachment[] | null }[],
+  llm: LlmConfig,
+  folder: AttachmentFolder
+): Promise<ChatHistoryMessage[]> {
+  const offset = history.length - sources.length;
+
+  return Promise.all(history.map(async (message, index) => {
+    const attachments = index >= offset ? sources[index - offset]?.attachments : null;
+    if (!attachments?.length) return message;
+
+    const loaded: ChatAttachment[] = [];
+    const notes: string[] = [];
+    for (const attachment of attachments) {
+      if (!canSendInline(llm, { mimeType: attachment.mime_type })) {
+        if (attachment.kind === 'document' && attachment.text_path) continue; // See injectDocumentText
+        const reason = checkAttachmentSupport(llm, { name: attachment.name, mimeType: attachment.mime_type })
+          ?? attachment.extraction_error;
+        notes.push(`[Attachment not sent: ${reason || `${attachment.name} can't be read by this model`}]`);
+        continue;
+      }
+      try {
+        const bytes = await readAttachment(supabase, attachment, folder);
+        loaded.push({ kind: attachment.kind, mimeType: attachment.mime_type, name: attachment.name, data: bytes.toString('base64') });
+      } catch (error) {
+        console.error(`Failed to load attachment ${attachment.id}:`, error);
+        notes.push(`[Attachment unavailable: ${attachment.name}]`);
+      }
+    }
+
+    return {
+      ...message,
+      content: [message.content, ...notes].filter(Boolean).join('\n\n'),
+      ...(loaded.length > 0 ? { attachments: loaded } : {}),
+    };
+  }));
+}
@@ -0,0 +1,128 @@
+import { mkdir, readFile, rm, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+const DEFAULT_BUCKET = 'attachments';
+
+/**
+ * Where uploaded files are kept. Supabase Storage by default; setting
+ * ATTACHMENT_STORAGE_DIR switches to a local directory (handy without a
+ * Storage bucket, e.g. in local development).
+ */
+function getLocalStorageDir(): string | null {
+  return process.env.ATTACHMENT_STORAGE_DIR || null;
+}
+
+function getBucket(): string {
+  return process.env.ATTACHMENT_BUCKET || DEFAULT_BUCKET;
+}
+
+function resolveLocalPath(dir: string, storagePath: string): string {
+  const root = path.resolve(dir);
+  const resolved = path.resolve(root, storagePath);
+  if (!resolved.startsWith(root + path.sep)) {
+    throw new Error(`Storage path escapes the storage directory: ${storagePath}`);
+  }
+  return resolved;
+}
+
+/**
+ * Builds a storage path for a user's file. Paths start with the user's ID so
+ * Storage policies can scope access per user.
+ */
+export function buildObjectPath(userId: string, folder: string, fileId: string, fileName: string): string {
+  const safeName = fileName.replace(/[^\w.-]+/g, '_').slice(-100) || 'file';
+  return `${userId}/${folder}/${fileId}-${safeName}`;
+}
+
+/**
+ * Checks a storage path read from a database row before it is used. Owners
+ * can rewrite their rows, and the storage root holds every user's files, so
+ * the path must lie in the folder the row belongs to (e.g. `${userId}/${chatId}`).
+ * @throws When the path is outside `folder`.
+ */
+export function assertObjectInFolder(storagePath: string, folder: string): void {
+  const segments = storagePath.split('/');
+  if (!storagePath.startsWith(`${folder}/`) || segments.some(segment => !segment || segment === '.' || segment === '..')) {
+    throw new Error(`Storage path is outside ${folder}: ${storagePath}`);
+  }
+}
+
+export async function putObject(supabase: SupabaseClient, storagePath: string, bytes: Buffer, contentType: string): Promise<void> {
+  const localDir = getLocalStorageDir();
+  if (localDir) {
+    const target = resolveLocalPath(localDir, storagePath);
+    await mkdir(path.dirname(target), { recursive: true });
+    await writeFile(target, bytes);
+    return;
+  }
+
+  const { error } = await supabase.storage
+    .from(getBucket())
+    .upload(storagePath, bytes, { contentType, upsert: false });
+  if (error) throw new Error(`Failed to upload ${storagePath}: ${error.message}`);
+}
+
+export async function getObject(supabase: SupabaseClient, storagePath: string): Promise<Buffer> {
+  const localDir = getLocalStorageDir();
+  if (localDir) {
+    return readFile(resolveLocalPath(localDir, storagePath));
+  }
+
+  const { data, error } = await supabase.storage.from(getBucket()).download(storagePath);
+  if (error || !data) throw new Error(`Failed to read ${storagePath}: ${error?.message || 'no data'}`);
+  return Buffer.from(await data.arrayBuffer());
+}
+
+/**
+ * Deletes stored files. Failures are logged; a leftover file is harmless.
+ */
+export async function removeObjects(supabase: SupabaseClient, paths: string[]): Promise<void> {
+  if (paths.length === 0) return;
+  try {
+    const localDir = getLocalStorageDir();
+    if (localDir) {
+      await Promise.all(paths.map(p => rm(resolveLocalPath(localDir, p), { force: true })));
+    } else {
+      const { error } = await supabase.storage.from(getBucket()).remove(paths);
+      if (error) throw error;
+    }
+  } catch (error) {
+    console.error('Failed to remove stored files:', error);
+  }
+}
+
+// Formats a browser can show without running anything; SVG is left out since it can carry scripts
+const INLINE_MIME_TYPES = new Set([
+  'image/png',
+  'image/jpeg',
+  'image/gif',
+  'image/webp',
+  'image/avif',
+  'image/bmp',
+  'application/pdf',
+]);
+
+/**
+ * Response headers for serving a stored file from the app's origin. The MIME
+ * type comes from the uploader, so only images and PDFs are shown inline; text
+ * is shown as plain text and anything else is downloaded.
+ */
+export function getFileResponseHeaders(
+  file: { name: string; mime_type: string },
+  size: number,
+  options: { download?: boolean; cacheControl: string }
+): Record<string, string> {
+  const mimeType = file.mime_type.split(';')[0].trim().toLowerCase();
+  const isText = mimeType.startsWith('text/');
+  const inline = !options.download && (INLINE_MIME_TYPES.has(mimeType) || isText);
+  return {
+    'Content-Type': isText ? 'text/plain; charset=utf-8' : INLINE_MIME_TYPES.has(mimeType) ? mimeType : 'application/octet-stream',
+    'Content-Length': String(size),
+    'Content-Disposition': `${inline ? 'inline' : 'attachment'}; filename*=UTF-8''${encodeURIComponent(file.name)}`,
+    'X-Content-Type-Options': 'nosniff',
+    // Browsers won't open their PDF viewer in a sandboxed document, so PDFs rely on nosniff alone
+    ...(mimeType === 'application/pdf' && inline ? {} : { 'Content-Security-Policy': 'sandbox' }),
+    'Cache-Control': options.cacheControl,
+  };
+}
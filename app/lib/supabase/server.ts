@@ -1,5 +1,6 @@
 // Supabase server client
 import { createServerClient } from '@supabase/ssr';
+import { createClient } from '@supabase/supabase-js';
 import { type CookieOptions, createCookie } from '@remix-run/node';
 
 export function createServerSupabaseClient(request: Request, response: Response) {
@@ -51,3 +52,17 @@ export function createServerSupabaseClient(request: Request, response: Response)
     { cookies }
   );
 }
+
+// Session-less client for server reads that don't depend on who is asking (e.g. the model catalog)
+export function createAnonSupabaseClient() {
+  const supabaseUrl = process.env.SUPABASE_URL as string;
+  const supabaseAnonKey = process.env.SUPABASE_ANON_KEY as string;
+
+  if (!supabaseUrl || !supabaseAnonKey) {
+    throw new Error('Missing Supabase environment variables for server');
+  }
+
+  return createClient(supabaseUrl, supabaseAnonKey, {
+    auth: { persistSession: false, autoRefreshToken: false },
+  });
+}
@@ -13,6 +13,8 @@ import { PreventFlashOnWrongTheme, ThemeProvider, useTheme } from "remix-themes"
 import { useEffect, useState } from 'react';
 import { useSupabase } from './hooks/use-supabase';
 import { ensureTablesExist } from './lib/db/init-db';
+import { setAvailableLlms } from './lib/ai/models.config';
+import { loadModelCatalog } from './lib/ai/catalog.server';
 
 import "./tailwind.css";
 import { themeSessionResolver } from "./sessions.server";
@@ -37,6 +39,8 @@ export async function loader({ request }: LoaderFunctionArgs) {
   // Expose Supabase environment variables to the client
   return {
     theme: getTheme(),
+    // The ai_models catalog plus discovered models, so the client's AVAILABLE_LLMS matches the server's
+    llms: await loadModelCatalog(),
     ENV: {
       SUPABASE_URL: process.env.SUPABASE_URL,
       SUPABASE_ANON_KEY: process.env.SUPABASE_ANON_KEY,
@@ -56,6 +60,11 @@ export default function AppWithProviders() {
 
 export function App() {
   const data = useLoaderData<typeof loader>();
+  // Once, on the client, before children render so model dropdowns hydrate with the
+  // server's catalog (on the server, loadModelCatalog already set it)
+  useState(() => {
+    if (typeof document !== "undefined") setAvailableLlms(data.llms);
+  });
   const [theme] = useTheme();
   const [dbReady, setDbReady] = useState<boolean | null>(null);
   const supabase = useSupabase();
@@ -6,6 +6,8 @@ import { ChatLayout } from "./_layout";
 import { getDefaultLlm } from "~/lib/ai/models.config";
 import { useSupabase } from "~/hooks/use-supabase";
 import { MessageWithActions } from "~/components/message";
+import { AssistantPicker } from "~/components/assistant-picker";
+import type { Assistant } from "~/lib/db/schema";
 
 // No SimpleMessage needed
 
@@ -21,13 +23,14 @@ export async function loader({ request }: LoaderFunctionArgs) {
 function IndexPageContent() {
   const navigate = useNavigate();
   const supabase = useSupabase();
-  const { createNewChat, sendMessage, inputDraft, setInputDraft, selectedModel: contextModel, setSelectedModel: setContextModel, messages, isLoading } = useChat();
+  const { createNewChat, sendMessage, inputDraft, setInputDraft, selectedModel: contextModel, setSelectedModel: setContextModel, setChatSettings, messages, isLoading } = useChat();
   
   const [selectedModel, setSelectedModel] = useState(contextModel || getDefaultLlm()?.id || "gemini");
   const [input, setInput] = useState("");
   const [isStartingChat, setIsStartingChat] = useState(false);
   const [currentChatId, setCurrentChatId] = useState<string | null>(null);
   const [shouldShowMessages, setShouldShowMessages] = useState(false);
+  const [selectedAssistant, setSelectedAssistant] = useState<Assistant | null>(null);
 
   useEffect(() => {
     if (inputDraft) setInput(inputDraft);
@@ -54,14 +57,24 @@ function IndexPageContent() {
     }
   }, [currentChatId, isLoading, shouldShowMessages, messages.length, navigate]);
 
+  // An assistant brings its own model and settings; "Default" clears them
+  const handleSelectAssistant = (assistant: Assistant | null) => {
+    setSelectedAssistant(assistant);
+    setChatSettings(assistant ? { ...assistant.params, system_prompt: assistant.system_prompt } : {});
+    if (assistant?.model_id) {
+      setSelectedModel(assistant.model_id);
+      setContextModel(assistant.model_id);
+    }
+  };
+
   const handleInputChange = (value: string) => {
     setInput(value);
     setInputDraft(value);
   };
 
   // Renamed and Refactored: handleStartChatAndSendMessage
-  const handleStartChatAndSendMessage = async (userMessageContent: string) => {
-    if (!userMessageContent.trim() || isStartingChat) return;
+  const handleStartChatAndSendMessage = async (userMessageContent: string, files: File[] = []) => {
+    if ((!userMessageContent.trim() && files.length === 0) || isStartingChat) return;
 
     setIsStartingChat(true);
     const originalInput = input; // Keep original input in case of error
@@ -70,7 +83,7 @@ function IndexPageContent() {
 
     try {
       // 1. Create new chat ID
-      const newChatId = await createNewChat();
+      const newChatId = await createNewChat(selectedAssistant?.id);
       console.log(`IndexPage: New chat created with ID: ${newChatId}`);
       setCurrentChatId(newChatId);
 
@@ -79,7 +92,7 @@ function IndexPageContent() {
 
       // 3. Send the first message using the context's sendMessage
       console.log(`IndexPage: Calling sendMessage for new chat ${newChatId} with message: "${userMessageContent}"`);
-      await sendMessage(userMessageContent, true, newChatId); // (message, shouldStream, chatId)
+      await sendMessage(userMessageContent, true, newChatId, false, files); // (message, shouldStream, chatId, isContinuation, files)
       console.log(`IndexPage: sendMessage call for new chat ${newChatId} completed.`);
       
       // Navigation to chat page will happen in the useEffect after message is completed
@@ -115,6 +128,7 @@ function IndexPageContent() {
           <div className="text-center max-w-2xl px-4">
             <h1 className="text-3xl sm:text-4xl font-bold mb-4">Welcome to Sonicthinking</h1>
          </div>
+          <AssistantPicker selectedId={selectedAssistant?.id ?? null} onSelect={handleSelectAssistant} />
         </div>
       )}
     </ChatLayout>
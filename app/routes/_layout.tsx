@@ -1,6 +1,6 @@
 import { useState, useEffect, useRef, ReactNode } from "react";
 import { useSupabase } from "~/hooks/use-supabase";
-import { useNavigate, useLocation } from "@remix-run/react";
+import { useNavigate, useLocation, useParams } from "@remix-run/react";
 import { ChatProvider, useChat } from "~/context/chat-context";
 
 // UI Components
@@ -8,6 +8,9 @@ import { ModeToggle } from "~/components/mode-toggle";
 import { Login } from "~/components/login-dialog";
 import { SignUp } from "~/components/signup-dialog";
 import { LogoutDialog } from "~/components/logout-dialog";
+import { ChatSettings } from "~/components/chat-settings";
+import { ShareChat } from "~/components/share-dialog";
+import { ExportChat } from "~/components/export-menu";
 import {
   Select,
   SelectContent,
@@ -26,7 +29,7 @@ interface ChatLayoutProps {
   children?: ReactNode;
   input: string;
   onInputChange: (value: string) => void;
-  onSubmit: (message: string) => Promise<void>;
+  onSubmit: (message: string, files: File[]) => Promise<void>;
   selectedModel: string;
   setSelectedModel: (modelId: string) => void;
   isIndexPage?: boolean;
@@ -56,17 +59,18 @@ function ChatLayoutContent({
     messages
   } = useChat(); 
   const location = useLocation();
+  const params = useParams();
   const isSubmitting = useRef(false);
 
   // Simplified handleSubmit: it now directly calls the onSubmit prop from the parent.
   // The parent (_index.tsx or chat.$chatId.tsx) is responsible for the actual logic
   // (creating chat, sending message, clearing input, etc.)
-  const handleInternalSubmit = async (message: string) => {
-    if (!message.trim() || isSubmitting.current) return;
+  const handleInternalSubmit = async (message: string, files: File[] = []) => {
+    if ((!message.trim() && files.length === 0) || isSubmitting.current) return;
     
     isSubmitting.current = true;
     try {
-      await onSubmit(message); // Call the parent's onSubmit
+      await onSubmit(message, files); // Call the parent's onSubmit
     } catch (error) {
       console.error("Error during submission:", error);
       // Parent's onSubmit should handle error states and potentially restore input
@@ -124,10 +128,15 @@ function ChatLayoutContent({
             {!userLoggedIn ? (
               <><Login /><SignUp /></>
             ) : (
-              <Select value={selectedModel} onValueChange={setSelectedModel}>
-                <SelectTrigger className="w-[180px]"><SelectValue placeholder="Select Model">{AVAILABLE_LLMS.find(llm => llm.id === selectedModel)?.name || "Select Model"}</SelectValue></SelectTrigger>
-                <SelectContent>{AVAILABLE_LLMS.map((llm) => (<SelectItem key={llm.id} value={llm.id}>{llm.name}</SelectItem>))}</SelectContent>
-              </Select>
+              <div className="flex items-center gap-2">
+                <Select value={selectedModel} onValueChange={setSelectedModel}>
+                  <SelectTrigger className="w-[180px]"><SelectValue placeholder="Select Model">{AVAILABLE_LLMS.find(llm => llm.id === selectedModel)?.name || "Select Model"}</SelectValue></SelectTrigger>
+                  <SelectContent>{AVAILABLE_LLMS.map((llm) => (<SelectItem key={llm.id} value={llm.id}>{llm.name}</SelectItem>))}</SelectContent>
+                </Select>
+                <ChatSettings />
+                {params.chatId && <ExportChat chatId={params.chatId} />}
+                {params.chatId && <ShareChat chatId={params.chatId} />}
+              </div>
             )}
           </div>
         </div>
@@ -173,6 +182,10 @@ function ChatLayoutContent({
 export function ChatLayout(props: ChatLayoutProps) {
   const [currentModelId, setCurrentModelId] = useState(props.selectedModel || getDefaultLlm()?.id || '');
   const { setSelectedModel: setContextModel } = useChat();
+  // Follow model changes made by the page (e.g. picking an assistant)
+  useEffect(() => {
+    if (props.selectedModel) setCurrentModelId(props.selectedModel);
+  }, [props.selectedModel]);
   useEffect(() => {
     setContextModel(currentModelId);
   }, [currentModelId, setContextModel]);
@@ -6,20 +6,13 @@ import type { SupabaseClient, User } from "@supabase/supabase-js"; // Import Use
 // Internal modules
 import { createServerSupabaseClient } from '~/lib/supabase/server';
 import { authenticator, requireAuth } from '~/lib/auth.server';
-// Import specific AI generation functions if needed for non-streaming tasks here
-import { generateChatResponse as generateGeminiResponse } from "~/lib/ai/gemini";
-import { generateChatResponse as generateOpenAIResponse } from "~/lib/ai/openai";
-import { generateChatResponse as generateOpenRouterResponse } from "~/lib/ai/openrouter";
 import { generateBestChatTitle } from "~/lib/ai/gemini"; // Keep for title generation intent
-import { findLlmById, getDefaultLlm } from "~/lib/ai/models.config"; // Import model config
-
-// Define types for better type safety
-type MessageRole = 'user' | 'assistant';
-interface Message {
-  role: MessageRole;
-  content: string;
-  created_at?: string; // <-- Add this line
-};
+import { findLlmById } from "~/lib/ai/models.config"; // Import model config
+import { loadModelCatalog } from "~/lib/ai/catalog.server";
+import { getChatProvider } from "~/lib/ai/registry";
+import { fetchChatMessages, findOwnedChat, saveMessage, updateActiveLeaf, type StoredMessage } from "~/lib/db/messages.server";
+import { getActivePath, getPathTo } from "~/lib/db/message-tree";
+import { findOwnedAssistant } from "~/lib/db/assistants.server";
 
 // Centralized error response helper
 function errorResponse(message: string, status = 500, headers?: HeadersInit, details?: any) {
@@ -84,59 +77,31 @@ async function ensureChatExists(
   }
 }
 
-/** Saves a message to the database. */
-async function saveMessage(
+/** Fetches every message of a chat (all branches) and the branch it currently shows. */
+async function getMessageTree(
   supabase: SupabaseClient,
-  chatId: string,
   userId: string,
-  role: MessageRole,
-  content: string
-): Promise<{ messageId: string; error?: Response }> {
-  const messageId = uuidv4();
-  try {
-    const { error } = await supabase
-      .from('messages')
-      .insert([{
-        id: messageId,
-        chat_id: chatId,
-        role,
-        content,
-        created_at: new Date().toISOString(),
-        user_id: userId,
-      }]);
+  chatId: string
+): Promise<{ messages: StoredMessage[]; activePath: StoredMessage[]; error?: Response }> {
+  const { chat, error: chatError } = await findOwnedChat(supabase, chatId, userId);
+  if (chatError) {
+    return { messages: [], activePath: [], error: errorResponse('Database error checking chat.', 500, undefined, chatError) };
+  }
+  if (!chat) {
+    return { messages: [], activePath: [], error: errorResponse('Chat not found or access denied.', 404) };
+  }
 
-    if (error) {
-      console.error(`Error saving ${role} message for chat ${chatId}:`, error);
-      // Decide whether to return an error or just log. For now, log and continue.
-      // return { messageId, error: errorResponse(`Failed to save ${role} message.`, 500, undefined, error.message) };
-    }
-    return { messageId };
-  } catch (err: any) {
-    console.error(`Unexpected error saving ${role} message for chat ${chatId}:`, err);
-    // return { messageId, error: errorResponse(`Failed to save ${role} message.`, 500, undefined, err.message) };
-    return { messageId }; // Log and continue
+  const { messages, error } = await fetchChatMessages(supabase, chatId);
+  if (error) {
+    return { messages: [], activePath: [], error: errorResponse('Error fetching message history.', 500, undefined, error) };
   }
+  return { messages, activePath: getActivePath(messages, chat.active_leaf_id) };
 }
 
-/** Fetches message history for a chat. */
-async function getMessageHistory(
-  supabase: SupabaseClient,
-  chatId: string
-): Promise<{ history: Message[]; error?: Response }> {
-  try {
-    const { data, error } = await supabase
-      .from('messages')
-      .select('role, content, created_at') // <-- Add created_at here
-      .eq('chat_id', chatId)
-      .order('created_at', { ascending: true });
-
-    if (error) {
-      return { history: [], error: errorResponse('Error fetching message history.', 500, undefined, error.message) };
-    }
-    return { history: (data as Message[]) || [] };
-  } catch (err: any) {
-    return { history: [], error: errorResponse('Unexpected error fetching message history.', 500, undefined, err.message) };
-  }
+/** Makes the branch ending at `messageId` the chat's active one; failures are only logged. */
+async function setActiveLeaf(supabase: SupabaseClient, chatId: string, messageId: string) {
+  const { error } = await updateActiveLeaf(supabase, chatId, messageId);
+  if (error) console.error(`Failed to update the active branch of chat ${chatId}:`, error);
 }
 
 /** Generates and updates the chat title if needed. */
@@ -260,22 +225,6 @@ export async function action({ request }: ActionFunctionArgs) {
   }
 }
 
-// Helper to adapt message history format (similar to api.stream.ts)
-function adaptMessageHistoryForNonStreaming(messages: Message[], provider: 'google' | 'openai' | 'openrouter'): any[] {
-    if (provider === 'google') {
-        return messages.map(msg => ({
-            role: msg.role === 'user' ? 'user' : 'model',
-            parts: [{ text: msg.content || "" }]
-        }));
-    } else {
-        return messages.map(msg => ({
-            role: msg.role,
-            content: msg.content || ""
-        }));
-    }
-}
-
-
 // --- Intent Handlers ---
 
 // Handler for the chat intent (Likely less used if frontend uses /api/stream)
@@ -302,6 +251,7 @@ async function handleChatIntent(
   if (!messageContent) return errorResponse('Missing message content', 400, headers);
   if (!modelId) return errorResponse('Missing model ID for non-streaming chat', 400, headers);
 
+  await loadModelCatalog();
   const llmConfig = findLlmById(modelId);
   if (!llmConfig) return errorResponse(`Unsupported model: ${modelId}`, 400, headers);
 
@@ -309,39 +259,34 @@ async function handleChatIntent(
   const { validChatId, needsTitleGeneration, error: chatError } = await ensureChatExists(supabase, user.id, chatIdFromRequest);
   if (chatError) return chatError;
 
-  // 2. Save User Message
-  const { error: userMsgError } = await saveMessage(supabase, validChatId, user.id, 'user', messageContent);
-  if (userMsgError) console.error(`Failed to save user message for chat ${validChatId} (non-streaming).`); // Log and continue
-
-  // 3. Fetch History
-  const { history: messageHistory, error: historyError } = await getMessageHistory(supabase, validChatId);
+  // 2. Fetch History (the branch the chat shows)
+  const { activePath, error: historyError } = await getMessageTree(supabase, user.id, validChatId);
   if (historyError) return historyError;
-  if (messageHistory.length === 0) messageHistory.push({ role: 'user', content: messageContent });
+  const messageHistory = [
+    ...activePath.map(msg => ({ role: msg.role, content: msg.content })),
+    { role: 'user' as const, content: messageContent },
+  ];
+
+  // 3. Save User Message at the end of that branch
+  const previousMessageId = activePath[activePath.length - 1]?.id ?? null;
+  const { messageId: userMessageId, error: userMsgError } = await saveMessage(supabase, validChatId, user.id, 'user', messageContent, { parentId: previousMessageId });
+  if (userMsgError) console.error(`Failed to save user message for chat ${validChatId} (non-streaming).`); // Log and continue
 
   // 4. Generate Non-Streaming AI Response
   try {
-      const adaptedHistory = adaptMessageHistoryForNonStreaming(messageHistory, llmConfig.provider);
-      let assistantResponseResult: { content: string };
-
-      switch(llmConfig.provider) {
-          case 'google':
-              assistantResponseResult = await generateGeminiResponse(adaptedHistory, { model: llmConfig.modelName });
-              break;
-          case 'openai':
-              assistantResponseResult = await generateOpenAIResponse(adaptedHistory, llmConfig.modelName);
-              break;
-          case 'openrouter':
-              assistantResponseResult = await generateOpenRouterResponse(adaptedHistory, llmConfig.modelName);
-              break;
-          default:
-              throw new Error(`Unsupported provider: ${llmConfig.provider}`);
-      }
+      const assistantResponseResult = await getChatProvider(llmConfig).generate(messageHistory, llmConfig);
 
       const responseText = assistantResponseResult.content || "Sorry, I couldn't generate a response.";
 
       // 5. Save Assistant Message
-      const { messageId: assistantMessageId, error: assistantMsgError } = await saveMessage(supabase, validChatId, user.id, 'assistant', responseText);
-      if (assistantMsgError) console.error(`Failed to save assistant message for chat ${validChatId} (non-streaming).`);
+      const { messageId: assistantMessageId, error: assistantMsgError } = await saveMessage(supabase, validChatId, user.id, 'assistant', responseText, {
+        parentId: userMsgError ? previousMessageId : userMessageId,
+      });
+      if (assistantMsgError) {
+        console.error(`Failed to save assistant message for chat ${validChatId} (non-streaming).`);
+      } else {
+        await setActiveLeaf(supabase, validChatId, assistantMessageId);
+      }
 
       // 6. Generate Title if Needed
       if (needsTitleGeneration) {
@@ -357,19 +302,35 @@ async function handleChatIntent(
 
   } catch (error: any) {
     console.error(`Error generating non-streaming AI response for chat ${validChatId} (${llmConfig.name}):`, error);
-    return errorResponse('Failed to process non-streaming chat request', 500, headers, error.message);
+    const providerError = getChatProvider(llmConfig).mapError(error);
+    return errorResponse(providerError.userMessage, providerError.status, headers, providerError.message);
   }
 }
 
 
 // Handler for creating a new chat explicitly
 async function handleCreateChatIntent(
-  formData: FormData, // Keep formData in case needed later
+  formData: FormData,
   user: User,
   supabase: SupabaseClient,
   headers: HeadersInit
 ) {
   const newChatId = uuidv4();
+  const assistantId = formData.get('assistantId') as string | null; // Optional preset to start from
+
+  // The assistant's prompt, model and settings become the chat's starting point
+  let assistantFields = {};
+  if (assistantId) {
+    const { assistant, error: assistantError } = await findOwnedAssistant(supabase, assistantId, user.id);
+    if (assistantError) return errorResponse('Failed to load assistant.', 500, headers, assistantError);
+    if (!assistant) return errorResponse('Assistant not found.', 404, headers);
+    assistantFields = {
+      assistant_id: assistant.id,
+      ...(assistant.model_id ? { model: assistant.model_id } : {}),
+      settings: { ...assistant.params, system_prompt: assistant.system_prompt },
+    };
+  }
+
   try {
     const { error: insertChatError } = await supabase
       .from('chats')
@@ -380,6 +341,7 @@ async function handleCreateChatIntent(
         updated_at: new Date().toISOString(),
         user_id: user.id,
         visibility: 'private',
+        ...assistantFields,
       }]);
 
     if (insertChatError) {
@@ -417,105 +379,63 @@ async function handleEditMessageIntent(
        return errorResponse('Model ID is required for regeneration after edit', 400, headers); // Or make it required
   }
 
+  await loadModelCatalog();
   const llmConfig = findLlmById(modelId);
   if (!llmConfig) return errorResponse(`Unsupported model for regeneration: ${modelId}`, 400, headers);
 
 
-  // 1. Update the user's message
-  let editedMessageTimestamp: string | null = null;
-  try {
-    const { data, error: updateError } = await supabase
-      .from('messages')
-      .update({ content: newContent, updated_at: new Date().toISOString() })
-      .eq('id', messageId)
-      .eq('role', 'user') // Ensure only user messages
-      .eq('chat_id', chatId) // Scope to chat
-      // .eq('user_id', user.id) // Add ownership check
-      .select('created_at') // Select timestamp for deletion step
-      .single(); // Expect exactly one row
-
-    if (updateError) {
-      return errorResponse('Failed to update message.', 500, headers, updateError.message);
-    }
-    if (!data) {
-       return errorResponse('Message not found or not owned by user.', 404, headers);
-    }
-    editedMessageTimestamp = data.created_at;
-
-  } catch (err: any) {
-    return errorResponse('Failed to update message.', 500, headers, err.message);
+  // 1. Find the edited message; the rest of the chat stays as it is
+  const { messages, error: historyError } = await getMessageTree(supabase, user.id, chatId);
+  if (historyError) return historyError;
+  const editedMessage = messages.find(msg => msg.id === messageId && msg.role === 'user');
+  if (!editedMessage) {
+    return errorResponse('Message not found or not owned by user.', 404, headers);
   }
 
-  // 2. Delete subsequent messages
-  try {
-    if (!editedMessageTimestamp) {
-        throw new Error("Edited message timestamp not available for deletion.");
-    }
-    const { error: deleteError } = await supabase
-      .from('messages')
-      .delete()
-      .eq('chat_id', chatId)
-      .gt('created_at', editedMessageTimestamp); // Delete messages after the edited one
-
-    if (deleteError) {
-      console.error(`Error deleting subsequent messages for chat ${chatId} after edit:`, deleteError);
-      // Decide if this is critical. Maybe log and continue.
-    }
-  } catch (err: any) {
-    console.error(`Unexpected error deleting subsequent messages for chat ${chatId}:`, err);
+  // 2. Save the edit as a sibling of the original, which keeps its own continuation as another branch
+  const parentId = editedMessage.parent_id ?? null;
+  const { messageId: editedMessageId, error: saveError } = await saveMessage(supabase, chatId, user.id, 'user', newContent, {
+    parentId,
+    ...(editedMessage.attachments?.length ? { attachments: editedMessage.attachments } : {}),
+  });
+  if (saveError) {
+    return errorResponse('Failed to save edited message.', 500, headers, saveError);
   }
+  await setActiveLeaf(supabase, chatId, editedMessageId);
 
-  // 3. Fetch updated message history (up to the edited point)
-  const { history: messageHistory, error: historyError } = await getMessageHistory(supabase, chatId);
-   if (historyError) return historyError;
-   // Filter history to include only messages up to the edited one based on timestamp
-   const filteredHistory = messageHistory.filter(
-     msg =>
-       msg.created_at !== undefined &&
-       editedMessageTimestamp !== null &&
-       editedMessageTimestamp !== undefined &&
-       new Date(msg.created_at) <= new Date(editedMessageTimestamp)
-   );
-
+  // 3. History is the path leading to the edit
+  const messageHistory = [
+    ...(parentId ? getPathTo(messages, parentId) : []).map(msg => ({ role: msg.role, content: msg.content })),
+    { role: 'user' as const, content: newContent },
+  ];
 
   // 4. Regenerate AI response (Non-Streaming for simplicity in this handler)
   try {
-    const adaptedHistory = adaptMessageHistoryForNonStreaming(filteredHistory, llmConfig.provider); // Use filtered history
-    let assistantResponseResult: { content: string };
-
     console.log(`Regenerating response after edit using ${llmConfig.name}`);
 
-    switch(llmConfig.provider) {
-        case 'google':
-            assistantResponseResult = await generateGeminiResponse(adaptedHistory, { model: llmConfig.modelName });
-            break;
-        case 'openai':
-            assistantResponseResult = await generateOpenAIResponse(adaptedHistory, llmConfig.modelName);
-            break;
-        case 'openrouter':
-            assistantResponseResult = await generateOpenRouterResponse(adaptedHistory, llmConfig.modelName);
-            break;
-        default:
-            throw new Error(`Unsupported provider: ${llmConfig.provider}`);
-    }
+    const assistantResponseResult = await getChatProvider(llmConfig).generate(messageHistory, llmConfig);
 
     const responseText = assistantResponseResult.content || "Sorry, I couldn't regenerate a response.";
 
-    // Save the new assistant message
-    const { messageId: assistantMessageId, error: assistantMsgError } = await saveMessage(supabase, chatId, user.id, 'assistant', responseText);
+    // Save the new assistant message as the reply to the edit
+    const { messageId: assistantMessageId, error: assistantMsgError } = await saveMessage(supabase, chatId, user.id, 'assistant', responseText, { parentId: editedMessageId });
     if (assistantMsgError) {
         console.error(`Failed to save regenerated assistant message for chat ${chatId}.`);
+    } else {
+        await setActiveLeaf(supabase, chatId, assistantMessageId);
     }
 
     return json({
       response: responseText,
+      userMessageId: editedMessageId,
       assistantMessageId,
       modelUsed: llmConfig.id // Return model used
     }, { headers });
 
   } catch (error: any) {
     console.error(`Error regenerating AI response after edit for chat ${chatId} (${llmConfig.name}):`, error);
-    return errorResponse('Failed to regenerate AI response', 500, headers, error.message);
+    const providerError = getChatProvider(llmConfig).mapError(error);
+    return errorResponse(providerError.userMessage, providerError.status, headers, providerError.message);
   }
 }
 
@@ -0,0 +1,84 @@
+import { json, type ActionFunctionArgs, type LoaderFunctionArgs } from "@remix-run/node";
+import { requireAuth } from "~/lib/auth.server";
+import { loadModelCatalog } from "~/lib/ai/catalog.server";
+import {
+  createAssistant,
+  deleteAssistant,
+  listAssistants,
+  updateAssistant,
+  validateAssistantInput,
+} from "~/lib/db/assistants.server";
+
+// --- Loader: the signed-in user's assistants ---
+export async function loader({ request }: LoaderFunctionArgs) {
+  const { supabase, session } = await requireAuth(request);
+
+  const { assistants, error } = await listAssistants(supabase, session.user.id);
+  if (error) {
+    console.error("Error loading assistants:", error);
+    return json({ error: "Failed to load assistants" }, { status: 500 });
+  }
+  return json({ assistants });
+}
+
+// --- Action: create, update or delete an assistant ---
+export async function action({ request }: ActionFunctionArgs) {
+  const { supabase, session } = await requireAuth(request);
+  const userId = session.user.id;
+
+  const formData = await request.formData();
+  const intent = formData.get("intent") as string | null;
+  const assistantId = formData.get("assistantId") as string | null;
+
+  if (intent === "delete") {
+    if (!assistantId) return json({ error: "Missing assistant ID" }, { status: 400 });
+    const { error } = await deleteAssistant(supabase, assistantId, userId);
+    if (error) {
+      console.error(`Error deleting assistant ${assistantId}:`, error);
+      return json({ error: "Failed to delete assistant" }, { status: 500 });
+    }
+    return json({ success: true });
+  }
+
+  if (intent !== "create" && intent !== "update") {
+    return json({ error: "Invalid intent" }, { status: 400 });
+  }
+  if (intent === "update" && !assistantId) {
+    return json({ error: "Missing assistant ID" }, { status: 400 });
+  }
+
+  let params: unknown = null;
+  const rawParams = formData.get("params") as string | null;
+  if (rawParams) {
+    try {
+      params = JSON.parse(rawParams);
+    } catch {
+      return json({ error: "Invalid model parameters" }, { status: 400 });
+    }
+  }
+
+  await loadModelCatalog(); // The assistant's model must resolve
+  const { assistant: input, error: validationError } = validateAssistantInput({
+    name: formData.get("name"),
+    description: formData.get("description"),
+    system_prompt: formData.get("systemPrompt"),
+    model_id: formData.get("modelId"),
+    params,
+  });
+  if (!input) {
+    return json({ error: validationError }, { status: 400 });
+  }
+
+  const { assistant, error } = intent === "create"
+    ? await createAssistant(supabase, userId, input)
+    : await updateAssistant(supabase, assistantId as string, userId, input);
+
+  if (error) {
+    console.error(`Error saving assistant (${intent}):`, error);
+    return json({ error: "Failed to save assistant" }, { status: 500 });
+  }
+  if (!assistant) {
+    return json({ error: "Assistant not found" }, { status: 404 });
+  }
+  return json({ assistant });
+}
@@ -0,0 +1,48 @@
+import { type LoaderFunctionArgs } from "@remix-run/node";
+import { requireAuth } from "~/lib/auth.server";
+import type { MessageAttachment } from "~/lib/db/schema";
+import { readAttachment } from "~/lib/storage/attachments.server";
+import { getFileResponseHeaders } from "~/lib/storage/objects.server";
+
+/**
+ * Serves a file attached to one of the user's messages. Add `?download=1`
+ * to get it as a download instead of inline.
+ */
+export async function loader({ request, params }: LoaderFunctionArgs) {
+  const { supabase, session } = await requireAuth(request);
+  const { messageId, attachmentId } = params;
+  if (!messageId || !attachmentId) {
+    return new Response("Not found", { status: 404 });
+  }
+
+  // The message row is the source of truth for which files the user may read
+  const { data, error } = await supabase
+    .from("messages")
+    .select("chat_id, attachments")
+    .eq("id", messageId)
+    .eq("user_id", session.user.id)
+    .maybeSingle();
+
+  if (error) {
+    console.error(`Error loading attachments of message ${messageId}:`, error);
+    return new Response("Failed to load attachment", { status: 500 });
+  }
+  const attachment = ((data?.attachments as MessageAttachment[] | null) || []).find(a => a.id === attachmentId);
+  if (!data || !attachment) {
+    return new Response("Not found", { status: 404 });
+  }
+
+  try {
+    // Only files in the message's own chat folder, whatever path the row names
+    const bytes = await readAttachment(supabase, attachment, { userId: session.user.id, chatId: data.chat_id });
+    return new Response(bytes, {
+      headers: getFileResponseHeaders(attachment, bytes.length, {
+        download: new URL(request.url).searchParams.has("download"),
+        cacheControl: "private, max-age=3600",
+      }),
+    });
+  } catch (err) {
+    console.error(`Error reading attachment ${attachmentId}:`, err);
+    return new Response("Failed to load attachment", { status: 500 });
+  }
+}
@@ -0,0 +1,65 @@
+import { json, type LoaderFunctionArgs } from "@remix-run/node";
+import { requireAuth } from "~/lib/auth.server";
+import { loadChatExport } from "~/lib/db/export.server";
+import { chatToMarkdown, EXPORT_FORMATS, getExportedConversation, getExportFileName, type ChatExportFormat } from "~/lib/export/chat-export";
+import { chatToHtml } from "~/lib/export/chat-html.server";
+import { readAttachment } from "~/lib/storage/attachments.server";
+
+/**
+ * Downloads one of the user's chats. `?format=` is `markdown` (the branch
+ * shown, as text), `json` (everything, lossless) or `html` (the branch shown,
+ * as a standalone page with images included).
+ */
+export async function loader({ request, params }: LoaderFunctionArgs) {
+  const { supabase, session } = await requireAuth(request);
+  const chatId = params.chatId;
+  if (!chatId) return json({ error: "Chat ID is required" }, { status: 400 });
+
+  const format = new URL(request.url).searchParams.get("format") || "markdown";
+  if (!(format in EXPORT_FORMATS)) {
+    return json({ error: `Format must be one of: ${Object.keys(EXPORT_FORMATS).join(", ")}` }, { status: 400 });
+  }
+  const exportFormat = format as ChatExportFormat;
+
+  // --- 1. Load the chat, all branches ---
+  const { chatExport, error } = await loadChatExport(supabase, chatId, session.user.id);
+  if (error) {
+    console.error(`Error loading chat ${chatId} for export:`, error);
+    return json({ error: "Failed to load chat" }, { status: 500 });
+  }
+  if (!chatExport) {
+    return json({ error: "Chat not found" }, { status: 404 });
+  }
+
+  // --- 2. Write it in the requested format ---
+  let body: string;
+  if (exportFormat === "json") {
+    body = JSON.stringify(chatExport, null, 2);
+  } else if (exportFormat === "html") {
+    // Images are embedded so the page works offline; a missing one is left out
+    const images: Record<string, string> = {};
+    for (const message of getExportedConversation(chatExport)) {
+      for (const attachment of message.attachments || []) {
+        if (attachment.kind !== "image") continue;
+        try {
+          const bytes = await readAttachment(supabase, attachment, { userId: session.user.id, chatId });
+          images[attachment.id] = `data:${attachment.mime_type};base64,${bytes.toString("base64")}`;
+        } catch (err) {
+          console.error(`Error reading attachment ${attachment.id} for export:`, err);
+        }
+      }
+    }
+    body = chatToHtml(chatExport, images);
+  } else {
+    body = chatToMarkdown(chatExport);
+  }
+
+  const fileName = getExportFileName(chatExport.chat.title, exportFormat);
+  return new Response(body, {
+    headers: {
+      "Content-Type": EXPORT_FORMATS[exportFormat].mimeType,
+      "Content-Disposition": `attachment; filename*=UTF-8''${encodeURIComponent(fileName)}`,
+      "Cache-Control": "private, no-store",
+    },
+  });
+}
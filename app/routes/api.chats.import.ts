@@ -0,0 +1,69 @@
+import { json, type ActionFunctionArgs } from "@remix-run/node";
+import { requireAuth } from "~/lib/auth.server";
+import { findImportedSourceIds, saveImportedChat } from "~/lib/db/import.server";
+import { parseChatImport, type ImportIssue } from "~/lib/export/chat-import";
+
+const MAX_IMPORT_BYTES = 50 * 1024 * 1024;
+
+// --- Action: import chats from a ChatGPT conversations.json or this app's JSON export ---
+export async function action({ request }: ActionFunctionArgs) {
+  const { supabase, session } = await requireAuth(request);
+  const userId = session.user.id;
+
+  // --- 1. Read the uploaded file ---
+  const formData = await request.formData();
+  const file = formData.get("file");
+  if (!(file instanceof File) || file.size === 0) {
+    return json({ error: "Missing file" }, { status: 400 });
+  }
+  if (file.size > MAX_IMPORT_BYTES) {
+    return json({ error: `${file.name} is larger than ${MAX_IMPORT_BYTES / (1024 * 1024)} MB.` }, { status: 400 });
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(await file.text());
+  } catch {
+    return json({ error: `${file.name} isn't valid JSON.` }, { status: 400 });
+  }
+
+  // --- 2. Map conversations to chats; unreadable ones are reported, not fatal ---
+  const { result, error: parseError } = parseChatImport(data);
+  if (parseError || !result) {
+    return json({ error: parseError }, { status: 400 });
+  }
+  const skipped: ImportIssue[] = [...result.skipped];
+
+  // --- 3. Leave out conversations imported before ---
+  const { sourceIds, error: lookupError } = await findImportedSourceIds(supabase, userId, result.source);
+  if (lookupError) {
+    console.error("Error looking up imported chats:", lookupError);
+    return json({ error: "Failed to import chats" }, { status: 500 });
+  }
+
+  // --- 4. Save each chat on its own, so one failure doesn't stop the rest ---
+  const imported: { chatId: string; title: string; messages: number; skippedMessages: number; skippedAttachments: number }[] = [];
+  for (const chat of result.chats) {
+    if (chat.source_id && sourceIds.has(chat.source_id)) {
+      skipped.push({ index: chat.index, title: chat.title, reason: "Already imported" });
+      continue;
+    }
+    const { chatId, error } = await saveImportedChat(supabase, userId, chat);
+    if (error || !chatId) {
+      console.error(`Error importing conversation ${chat.source_id}:`, error);
+      skipped.push({ index: chat.index, title: chat.title, reason: "Failed to save" });
+      continue;
+    }
+    if (chat.source_id) sourceIds.add(chat.source_id);
+    imported.push({
+      chatId,
+      title: chat.title,
+      messages: chat.messages.length,
+      skippedMessages: chat.skipped_messages,
+      skippedAttachments: chat.skipped_attachments,
+    });
+  }
+
+  skipped.sort((a, b) => a.index - b.index);
+  return json({ source: result.source, imported, skipped });
+}
@@ -0,0 +1,38 @@
+import { type LoaderFunctionArgs } from "@remix-run/node";
+import { requireAuth } from "~/lib/auth.server";
+import { findKnowledgeDocument, readKnowledgeFile } from "~/lib/knowledge/knowledge.server";
+import { getFileResponseHeaders } from "~/lib/storage/objects.server";
+
+/**
+ * Serves a file from the user's knowledge base, inline so citations can open
+ * PDFs at a page (`#page=N`). Add `?download=1` to get it as a download.
+ */
+export async function loader({ request, params }: LoaderFunctionArgs) {
+  const { supabase, session } = await requireAuth(request);
+  const { documentId } = params;
+  if (!documentId) {
+    return new Response("Not found", { status: 404 });
+  }
+
+  const { document, error } = await findKnowledgeDocument(supabase, documentId, session.user.id);
+  if (error) {
+    console.error(`Error loading knowledge document ${documentId}:`, error);
+    return new Response("Failed to load document", { status: 500 });
+  }
+  if (!document) {
+    return new Response("Not found", { status: 404 });
+  }
+
+  try {
+    const bytes = await readKnowledgeFile(supabase, document);
+    return new Response(bytes, {
+      headers: getFileResponseHeaders(document, bytes.length, {
+        download: new URL(request.url).searchParams.has("download"),
+        cacheControl: "private, max-age=3600",
+      }),
+    });
+  } catch (err) {
+    console.error(`Error reading knowledge document ${documentId}:`, err);
+    return new Response("Failed to load document", { status: 500 });
+  }
+}
@@ -0,0 +1,83 @@
+import { json, type ActionFunctionArgs, type LoaderFunctionArgs } from "@remix-run/node";
+import { requireAuth } from "~/lib/auth.server";
+import {
+  addKnowledgeDocument,
+  deleteKnowledgeDocument,
+  findKnowledgeDocument,
+  listKnowledgeDocuments,
+  reindexKnowledgeDocument,
+  validateKnowledgeFile,
+} from "~/lib/knowledge/knowledge.server";
+
+// --- Loader: the signed-in user's knowledge base ---
+export async function loader({ request }: LoaderFunctionArgs) {
+  const { supabase, session } = await requireAuth(request);
+
+  const { documents, error } = await listKnowledgeDocuments(supabase, session.user.id);
+  if (error) {
+    console.error("Error loading knowledge base:", error);
+    return json({ error: "Failed to load knowledge base" }, { status: 500 });
+  }
+  return json({ documents });
+}
+
+// --- Action: upload, reindex or delete a document ---
+export async function action({ request }: ActionFunctionArgs) {
+  const { supabase, session } = await requireAuth(request);
+  const userId = session.user.id;
+
+  const formData = await request.formData();
+  const intent = formData.get("intent") as string | null;
+
+  if (intent === "upload") {
+    const file = formData.get("file");
+    if (!(file instanceof File) || file.size === 0) {
+      return json({ error: "Missing file" }, { status: 400 });
+    }
+    const validationError = validateKnowledgeFile(file);
+    if (validationError) {
+      return json({ error: validationError }, { status: 400 });
+    }
+
+    // Indexing failures come back on the document (status "failed"), not as an error
+    const { document, error } = await addKnowledgeDocument(supabase, userId, file);
+    if (error || !document) {
+      console.error(`Error adding ${file.name} to the knowledge base:`, error);
+      return json({ error: "Failed to upload document" }, { status: 500 });
+    }
+    return json({ document });
+  }
+
+  if (intent !== "reindex" && intent !== "delete") {
+    return json({ error: "Invalid intent" }, { status: 400 });
+  }
+
+  const documentId = formData.get("documentId") as string | null;
+  if (!documentId) return json({ error: "Missing document ID" }, { status: 400 });
+  const { document, error: findError } = await findKnowledgeDocument(supabase, documentId, userId);
+  if (findError) {
+    console.error(`Error loading knowledge document ${documentId}:`, findError);
+    return json({ error: "Failed to load document" }, { status: 500 });
+  }
+  if (!document) {
+    return json({ error: "Document not found" }, { status: 404 });
+  }
+
+  if (intent === "reindex") {
+    const { document: reindexed, error } = await reindexKnowledgeDocument(supabase, document);
+    if (error) {
+      return json({ error }, { status: 500 });
+    }
+    if (!reindexed) {
+      return json({ error: "This document is already indexed or being indexed" }, { status: 409 });
+    }
+    return json({ document: reindexed });
+  }
+
+  const { error } = await deleteKnowledgeDocument(supabase, document);
+  if (error) {
+    console.error(`Error deleting knowledge document ${documentId}:`, error);
+    return json({ error: "Failed to delete document" }, { status: 500 });
+  }
+  return json({ success: true });
+}
@@ -0,0 +1,23 @@
+import { json, type LoaderFunctionArgs } from "@remix-run/node";
+import { requireAuth } from "~/lib/auth.server";
+import { SEARCH_QUERY_MAX_LENGTH, SEARCH_QUERY_MIN_LENGTH, searchChats } from "~/lib/db/search.server";
+
+// --- Loader: full-text search over the signed-in user's chats (?q=) ---
+export async function loader({ request }: LoaderFunctionArgs) {
+  const { supabase } = await requireAuth(request);
+
+  const query = (new URL(request.url).searchParams.get("q") || "").trim();
+  if (query.length < SEARCH_QUERY_MIN_LENGTH) {
+    return json({ results: [] });
+  }
+  if (query.length > SEARCH_QUERY_MAX_LENGTH) {
+    return json({ error: `Search must be at most ${SEARCH_QUERY_MAX_LENGTH} characters.` }, { status: 400 });
+  }
+
+  const { results, error } = await searchChats(supabase, query);
+  if (error) {
+    console.error("Error searching chats:", error);
+    return json({ error: "Search failed" }, { status: 500 });
+  }
+  return json({ results });
+}
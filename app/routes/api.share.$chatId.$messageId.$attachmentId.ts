@@ -0,0 +1,42 @@
+import { type LoaderFunctionArgs } from "@remix-run/node";
+import { findSharedAttachment } from "~/lib/db/share.server";
+import { readAttachment } from "~/lib/storage/attachments.server";
+import { getFileResponseHeaders } from "~/lib/storage/objects.server";
+import { createAnonSupabaseClient } from "~/lib/supabase/server";
+
+/**
+ * Serves a file of a message in a shared chat to anyone with the link.
+ * Stops working as soon as the owner makes the chat private again.
+ */
+export async function loader({ request, params }: LoaderFunctionArgs) {
+  const { chatId, messageId, attachmentId } = params;
+  if (!chatId || !messageId || !attachmentId) {
+    return new Response("Not found", { status: 404 });
+  }
+
+  // No session: RLS only returns messages of public chats
+  const supabase = createAnonSupabaseClient();
+  const { attachment, ownerId, error } = await findSharedAttachment(supabase, chatId, messageId, attachmentId);
+  if (error) {
+    console.error(`Error loading shared attachment ${attachmentId}:`, error);
+    return new Response("Failed to load attachment", { status: 500 });
+  }
+  if (!attachment || !ownerId) {
+    return new Response("Not found", { status: 404 });
+  }
+
+  try {
+    // Only files in the owner's folder for this chat, whatever path the message names
+    const bytes = await readAttachment(supabase, attachment, { userId: ownerId, chatId });
+    return new Response(bytes, {
+      headers: getFileResponseHeaders(attachment, bytes.length, {
+        download: new URL(request.url).searchParams.has("download"),
+        // Kept short so revoking the link takes effect quickly
+        cacheControl: "public, max-age=300",
+      }),
+    });
+  } catch (err) {
+    console.error(`Error reading shared attachment ${attachmentId}:`, err);
+    return new Response("Failed to load attachment", { status: 500 });
+  }
+}
@@ -1,28 +1,80 @@
 import { ActionFunctionArgs } from "@remix-run/node";
-import type { ChatCompletionMessageParam } from "openai/resources/chat/completions";
-import { streamChatResponse as streamGeminiResponse } from "~/lib/ai/gemini";
-import { streamChatResponse as streamOpenAIResponse } from "~/lib/ai/openai"; // Import OpenAI stream function
-import { streamChatResponse as streamOpenRouterResponse } from "~/lib/ai/openrouter";
-import { findLlmById, getDefaultLlm } from "~/lib/ai/models.config"; // Import model config helpers
-import { v4 as uuidv4 } from "uuid";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { findLlmById } from "~/lib/ai/models.config"; // Import model config helpers
+import { loadModelCatalog } from "~/lib/ai/catalog.server";
+import { getChatProvider } from "~/lib/ai/registry";
+import { requireAuth } from "~/lib/auth.server";
+import { fetchChatMessages, findOwnedChat, saveMessage, updateActiveLeaf, updateChatSettings, updateChatSummary } from "~/lib/db/messages.server";
+import { getActivePath, getPathTo } from "~/lib/db/message-tree";
+import type { MessageAttachment, MessageMetadata, ModelParams } from "~/lib/db/schema";
+import { buildKnowledgeContext, searchKnowledge, selectCitedSources } from "~/lib/knowledge/knowledge.server";
+import { buildContextWindow, estimateTokens, type ContextMessage } from "~/lib/ai/context";
+import { fitParamsToModel, toGenerationParams, toModelParams, validateModelParams } from "~/lib/ai/params";
+import { validateAttachmentFiles } from "~/lib/ai/attachments";
+import {
+  estimateInlineAttachmentTokens,
+  findUnreadableAttachment,
+  injectDocumentText,
+  loadHistoryAttachments,
+  removeAttachments,
+  storeAttachments,
+  storeGeneratedImage,
+} from "~/lib/storage/attachments.server";
+import { resolveGenerationParams } from "~/lib/ai/provider";
+import { encodeStreamEvent, STREAM_EVENT_CONTENT_TYPE, type StreamEvent } from "~/lib/ai/stream-events";
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
 
 /**
  * API endpoint for streaming chat responses based on selected model
  */
 export async function action({ request }: ActionFunctionArgs) {
   const formData = await request.formData();
-  const message = formData.get('message') as string;
+  const message = (formData.get('message') as string | null) ?? '';
   const chatId = formData.get('chatId') as string;
   const modelId = formData.get('model') as string; // Get the model ID (e.g., 'gemini-1.5-flash')
+  const regenerateMessageId = formData.get('regenerateMessageId') as string | null; // Assistant message to answer again, if any; the new reply becomes its sibling
+  const editMessageId = formData.get('editMessageId') as string | null; // User message being edited, if any; the edit becomes its sibling
+  // Client-generated IDs so optimistic UI messages match the stored rows
+  const userMessageId = formData.get('userMessageId') as string | null;
+  const assistantMessageId = formData.get('assistantMessageId') as string | null;
+  const rawParams = formData.get('params') as string | null; // JSON ModelParams from the chat settings panel
+  // Files picked in the prompt input; only taken with a new user message
+  const files = formData.getAll('attachments').filter((value): value is File => value instanceof File && value.size > 0);
 
   // --- 1. Validate Input ---
-  if (!message || !chatId || !modelId) {
+  // A regeneration answers the stored user turn again, so it needs no message of its own
+  if ((!message && files.length === 0 && !regenerateMessageId) || !chatId || !modelId) {
     return new Response(JSON.stringify({ error: 'Missing required fields (message, chatId, model)' }), {
       status: 400, headers: { 'Content-Type': 'application/json' }
     });
   }
 
+  if ([userMessageId, assistantMessageId, regenerateMessageId, editMessageId].some(id => id && !UUID_PATTERN.test(id))) {
+    return new Response(JSON.stringify({ error: 'Invalid message ID format' }), {
+      status: 400, headers: { 'Content-Type': 'application/json' }
+    });
+  }
+
+  if (editMessageId && (regenerateMessageId || !message.trim())) {
+    return new Response(JSON.stringify({ error: 'An edit needs the new message text and cannot be combined with regeneration' }), {
+      status: 400, headers: { 'Content-Type': 'application/json' }
+    });
+  }
+
+  let requestedParams: unknown = undefined;
+  if (rawParams) {
+    try {
+      requestedParams = JSON.parse(rawParams);
+    } catch {
+      return new Response(JSON.stringify({ error: 'Invalid model parameters' }), {
+        status: 400, headers: { 'Content-Type': 'application/json' }
+      });
+    }
+  }
+
   // --- 2. Get Model Configuration ---
+  await loadModelCatalog(); // Picks up runtime-discovered (local) models
   const llmConfig = findLlmById(modelId);
   if (!llmConfig) {
     console.warn(`Unsupported model ID received: ${modelId}. Falling back to default.`);
@@ -35,15 +87,207 @@ export async function action({ request }: ActionFunctionArgs) {
      });
   }
 
+  // Attachments must fit the upload limits and be readable by this model
+  if (files.length > 0) {
+    const attachmentError = regenerateMessageId
+      ? 'Attachments cannot be added when regenerating a reply'
+      : editMessageId
+        ? 'Attachments cannot be changed when editing a message'
+        : validateAttachmentFiles(files, llmConfig);
+    if (attachmentError) {
+      return new Response(JSON.stringify({ error: attachmentError }), {
+        status: 400, headers: { 'Content-Type': 'application/json' }
+      });
+    }
+  }
+
+  // --- 3. Authenticate and Verify Chat Ownership ---
+  let supabase: SupabaseClient;
+  let userId: string;
+  try {
+    const auth = await requireAuth(request);
+    supabase = auth.supabase;
+    userId = auth.session.user.id;
+  } catch {
+    return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+      status: 401, headers: { 'Content-Type': 'application/json' }
+    });
+  }
+
+  const { chat, error: chatError } = await findOwnedChat(supabase, chatId, userId);
+  if (chatError) {
+    console.error(`Error verifying ownership of chat ${chatId}:`, chatError);
+    return new Response(JSON.stringify({ error: 'Failed to load chat' }), {
+      status: 500, headers: { 'Content-Type': 'application/json' }
+    });
+  }
+  if (!chat) {
+    return new Response(JSON.stringify({ error: 'Chat not found or access denied' }), {
+      status: 404, headers: { 'Content-Type': 'application/json' }
+    });
+  }
+
+  // Generation settings: the panel's values are checked against this model's limits.
+  // Without them, the chat's saved settings apply as far as they still fit the model.
+  // Either way a reply cap above this model's limit (e.g. set for the previous model) is lowered rather than rejected.
+  let chatParams: ModelParams = {};
+  if (rawParams) {
+    const isParamsObject = typeof requestedParams === 'object' && requestedParams !== null && !Array.isArray(requestedParams);
+    const { params, error: paramsError } = validateModelParams(
+      isParamsObject ? fitParamsToModel(requestedParams as ModelParams, llmConfig) : requestedParams,
+      llmConfig
+    );
+    if (paramsError) {
+      return new Response(JSON.stringify({ error: paramsError }), {
+        status: 400, headers: { 'Content-Type': 'application/json' }
+      });
+    }
+    chatParams = params;
+    if (JSON.stringify(chatParams) !== JSON.stringify(chat.settings ?? {})) {
+      const { error: settingsError } = await updateChatSettings(supabase, chatId, chatParams);
+      if (settingsError) console.error(`Failed to store settings for chat ${chatId}:`, settingsError);
+    }
+  } else if (chat.settings) {
+    const { params, error: paramsError } = validateModelParams(fitParamsToModel(chat.settings, llmConfig), llmConfig);
+    if (!paramsError) chatParams = params;
+  }
+
+  const provider = getChatProvider(llmConfig);
+  const systemPrompt = provider.capabilities.systemPrompt ? chatParams.system_prompt : undefined;
+  const generationParams = resolveGenerationParams(provider, llmConfig, toGenerationParams(chatParams));
+  // Effective values, recorded on the reply
+  const modelParams = toModelParams(generationParams, systemPrompt);
+
   console.log(`Streaming request for model: ${llmConfig.name} (Provider: ${llmConfig.provider}, Model: ${llmConfig.modelName})`);
 
   try {
-    // --- 3. Prepare Message History ---
-    // TODO: In a real app, fetch actual history from DB based on chatId
-    const messageHistory: ChatCompletionMessageParam[] = [{ role: 'user', content: message }];
-    const adaptedHistory = adaptMessageHistory(messageHistory, llmConfig.provider);
+    // --- 4. Prepare Message History ---
+    const { messages: storedMessages, error: historyError } = await fetchChatMessages(supabase, chatId);
+    if (historyError) {
+      console.error(`Error fetching history for chat ${chatId}:`, historyError);
+      return new Response(JSON.stringify({ error: 'Failed to load chat history' }), {
+        status: 500, headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    // Only the branch being shown counts as context. A regenerated reply goes next to the
+    // one it replaces, so its context is the full path up to the user turn they both answer.
+    let contextMessages = getActivePath(storedMessages, chat.active_leaf_id);
+    let userText = message; // The turn being answered, used for knowledge retrieval
+    if (regenerateMessageId) {
+      const regenerated = storedMessages.find(msg => msg.id === regenerateMessageId && msg.role === 'assistant');
+      const answered = regenerated?.parent_id ? storedMessages.find(msg => msg.id === regenerated.parent_id) : undefined;
+      if (!regenerated || answered?.role !== 'user') {
+        return new Response(JSON.stringify({ error: 'Message to regenerate not found' }), {
+          status: 404, headers: { 'Content-Type': 'application/json' }
+        });
+      }
+      contextMessages = getPathTo(storedMessages, answered.id);
+      userText = answered.content;
+    }
+    // An edit is saved next to the message it replaces (as with the edit-message intent),
+    // keeping that message's files; the original and its replies stay on their own branch
+    let editedAttachments: MessageAttachment[] = [];
+    if (editMessageId) {
+      const edited = storedMessages.find(msg => msg.id === editMessageId && msg.role === 'user');
+      if (!edited) {
+        return new Response(JSON.stringify({ error: 'Message to edit not found' }), {
+          status: 404, headers: { 'Content-Type': 'application/json' }
+        });
+      }
+      contextMessages = edited.parent_id ? getPathTo(storedMessages, edited.parent_id) : [];
+      editedAttachments = edited.attachments ?? [];
+    }
+    // The reply follows the last message of that path, or the user's turn saved below
+    let replyParentId: string | null = contextMessages[contextMessages.length - 1]?.id ?? null;
+
+    const fullHistory: ContextMessage[] = contextMessages.map(msg => ({ id: msg.id, role: msg.role, content: msg.content }));
+    // Attachment references per history entry; their bytes are loaded once the context window is known
+    const historyAttachments: (MessageAttachment[] | null | undefined)[] = contextMessages.map(msg => msg.attachments);
+    const lastMessage = fullHistory[fullHistory.length - 1];
+    // A regenerated reply answers the stored user turn that ends the context; anything else adds a new turn
+    if (!regenerateMessageId && (!lastMessage || lastMessage.role !== 'user' || lastMessage.content !== message || files.length > 0 || editMessageId)) {
+      let uploaded: MessageAttachment[] = [];
+      try {
+        uploaded = await storeAttachments(supabase, userId, chatId, files);
+      } catch (uploadError) {
+        console.error(`Failed to upload attachments for chat ${chatId}:`, uploadError);
+        return new Response(JSON.stringify({ error: 'Failed to upload attachments' }), {
+          status: 500, headers: { 'Content-Type': 'application/json' }
+        });
+      }
+      // Only files uploaded by this request are removed on failure; an edit's files still belong to the original
+      const attachments = editMessageId ? editedAttachments : uploaded;
+      const unreadable = findUnreadableAttachment(attachments, llmConfig);
+      if (unreadable) {
+        await removeAttachments(supabase, uploaded);
+        return new Response(JSON.stringify({ error: unreadable }), {
+          status: 400, headers: { 'Content-Type': 'application/json' }
+        });
+      }
 
-    // --- 4. Create Streaming Response ---
+      // Persist the user's turn before calling the model so it survives a failed or abandoned reply
+      const { messageId, error: saveError } = await saveMessage(supabase, chatId, userId, 'user', message, { id: userMessageId || undefined, parentId: replyParentId, attachments });
+      if (saveError) {
+        await removeAttachments(supabase, uploaded);
+        return new Response(JSON.stringify({ error: 'Failed to save message' }), {
+          status: 500, headers: { 'Content-Type': 'application/json' }
+        });
+      }
+      replyParentId = messageId;
+      const { error: leafError } = await updateActiveLeaf(supabase, chatId, messageId);
+      if (leafError) console.error(`Failed to update the active branch of chat ${chatId}:`, leafError);
+      fullHistory.push({ id: messageId, role: 'user', content: message });
+      historyAttachments.push(attachments);
+    }
+
+    // Passages from the user's knowledge base that match this turn; retrieval problems never block the reply
+    let knowledge: ReturnType<typeof buildKnowledgeContext> = null;
+    if (userText) {
+      const { chunks, error: knowledgeError } = await searchKnowledge(supabase, userId, userText);
+      if (knowledgeError) console.error(`Knowledge base search failed for chat ${chatId}:`, knowledgeError);
+      knowledge = buildKnowledgeContext(chunks, llmConfig);
+    }
+
+    // Fit the history into the model's context window, summarizing older turns if needed
+    const storedSummary = chat.summary && chat.summary_message_id
+      ? { text: chat.summary, messageId: chat.summary_message_id }
+      : null;
+    // Documents the model can't read directly go in as extracted text, counted against the budget like any other content.
+    // Files it reads directly are estimated here and only loaded for the messages that stay in the window.
+    const attachmentFolder = { userId, chatId };
+    const historyWithDocuments = (await injectDocumentText(supabase, fullHistory, historyAttachments, llmConfig, attachmentFolder))
+      .map((historyMessage, index) => ({
+        ...historyMessage,
+        attachmentTokens: estimateInlineAttachmentTokens(historyAttachments[index], llmConfig),
+      }));
+    const contextWindow = await buildContextWindow(historyWithDocuments, llmConfig, storedSummary, {
+      // Keep room for the reply, the system prompt and the retrieved passages
+      reservedTokens: (generationParams.maxOutputTokens ?? llmConfig.maxOutputTokens)
+        + (systemPrompt ? estimateTokens(systemPrompt) : 0)
+        + (knowledge ? estimateTokens(knowledge.text) : 0),
+    });
+    if (contextWindow.summaryUpdated && contextWindow.summary) {
+      const { error: summaryError } = await updateChatSummary(supabase, chatId, contextWindow.summary.text, contextWindow.summary.messageId);
+      if (summaryError) console.error(`Failed to store rolling summary for chat ${chatId}:`, summaryError);
+    }
+    if (contextWindow.droppedCount > 0) {
+      console.log(`Context for chat ${chatId}: dropped ${contextWindow.droppedCount} older messages, ~${contextWindow.estimatedTokens} tokens sent.`);
+    }
+    const messageHistory = await loadHistoryAttachments(
+      supabase,
+      contextWindow.messages,
+      historyAttachments.slice(contextWindow.droppedCount).map(attachments => ({ attachments })),
+      llmConfig,
+      attachmentFolder
+    );
+    if (knowledge) {
+      // Passages go right before the turn they answer, which works with or without a system prompt
+      const currentTurn = messageHistory[messageHistory.length - 1];
+      messageHistory[messageHistory.length - 1] = { ...currentTurn, content: `${knowledge.text}\n\n${currentTurn.content}` };
+    }
+
+    // --- 5. Create Streaming Response ---
     const encoder = new TextEncoder();
     const stream = new ReadableStream({
       async start(controller) {
@@ -55,92 +299,142 @@ export async function action({ request }: ActionFunctionArgs) {
 
         // Let's assume the signal *could* be available via the request object in some setups
         const signal = request.signal; // This might be null or undefined depending on server/setup
+        let clientConnected = true;
+        const send = (event: StreamEvent) => {
+          if (!clientConnected) return;
+          try {
+            controller.enqueue(encoder.encode(encodeStreamEvent(event)));
+          } catch {
+            // The client went away; keep consuming the model so the reply still gets saved
+            clientConnected = false;
+          }
+        };
+
+        const startedAt = new Date();
+        let firstTokenAt: number | null = null;
+        let fullResponse = '';
+        let fullReasoning = '';
+        const generatedImages: MessageAttachment[] = [];
+        let finishReason: MessageMetadata['finish_reason'] | null = null;
 
         try {
-          let responseStreamResult: { stream: AsyncIterable<{ text: () => string }> };
-
-          // --- 5. Route to Provider ---
-          // Pass the signal *if* the underlying SDK supports it
-          switch (llmConfig.provider) {
-            case 'google':
-              // Gemini's sendMessageStream accepts a signal in its options
-              responseStreamResult = await streamGeminiResponse(adaptedHistory, { model: llmConfig.modelName }, signal);
-              break;
-            case 'openai':
-              // OpenAI's SDK v4+ generally uses AbortSignal passed to the main client method
-              // The streamChatResponse function needs to accept and pass it
-               responseStreamResult = await streamOpenAIResponse(adaptedHistory, llmConfig.modelName, signal); // Modify openai.ts if needed
-              break;
-            case 'openrouter':
-              // OpenRouter uses OpenAI's SDK, so same principle applies
-               responseStreamResult = await streamOpenRouterResponse(adaptedHistory, llmConfig.modelName, signal); // Modify openrouter.ts if needed
-              break;
-            default:
-              throw new Error(`Unsupported provider configured: ${llmConfig.provider}`);
-          }
+          // --- 6. Route to Provider ---
+          // The adapter converts the history and passes the signal to its SDK
+          const responseStreamResult = await provider.stream(messageHistory, llmConfig, { signal, params: generationParams, systemPrompt });
 
-          // --- 6. Process Stream Chunks ---
-          let fullResponse = '';
+          // --- 7. Process Stream Chunks ---
           for await (const chunk of responseStreamResult.stream) {
-             // Optional: Check signal here too, though client abort handles UI
              if (signal?.aborted) {
                  console.log("Backend stream processing aborted.");
-                 // Clean up resources if possible
-                 controller.close(); // Close the stream from backend side
-                 return;
+                 break;
              }
             try {
+              // Thinking trace goes out on its own channel and never into the answer
+              const reasoning = chunk.reasoning?.();
+              if (reasoning) {
+                if (firstTokenAt === null) firstTokenAt = Date.now();
+                fullReasoning += reasoning;
+                send({ type: 'reasoning', text: reasoning });
+              }
               const text = chunk.text(); // Use the common .text() method
               if (text) {
+                if (firstTokenAt === null) firstTokenAt = Date.now();
                 fullResponse += text;
-                // Stream each character
-                for (const char of text) {
-                  controller.enqueue(encoder.encode(char));
-                  // await new Promise(resolve => setTimeout(resolve, 1)); // Optional delay
+                send({ type: 'delta', text });
+              }
+              // Generated images are stored as they arrive and become attachments of the reply
+              for (const image of chunk.images?.() ?? []) {
+                if (firstTokenAt === null) firstTokenAt = Date.now();
+                try {
+                  const attachment = await storeGeneratedImage(supabase, userId, chatId, image, generatedImages.length);
+                  generatedImages.push(attachment);
+                  send({ type: 'image', attachment, data: image.data });
+                } catch (imageError) {
+                  console.error(`Failed to store generated image for chat ${chatId}:`, imageError);
+                  // Not fatal: the rest of the reply still streams, with a note where the image was
+                  const note = '\n\n_(A generated image could not be saved.)_\n\n';
+                  fullResponse += note;
+                  send({ type: 'delta', text: note });
                 }
               }
             } catch (chunkError) {
               console.error('Error processing chunk:', chunkError);
-              // Optionally enqueue an error marker or just continue
-              // controller.enqueue(encoder.encode(`[Chunk Error]`));
               continue;
             }
           }
+          finishReason = signal?.aborted ? 'aborted' : 'stop';
+        } catch (error: any) {
+           const providerError = provider.mapError(error);
+           if (providerError.code === 'aborted') {
+               console.log("Backend AI request aborted.");
+               finishReason = 'aborted';
+           } else {
+               console.error(`Error in streaming response for model ${llmConfig.id}:`, error);
+               send({ type: 'error', message: providerError.userMessage, code: providerError.code });
+           }
+        }
+
+        // --- 8. Persist the Reply (complete, or partial when stopped) and Send Completion ---
+        // Stopped while still thinking counts too: the reasoning so far is kept with an empty reply
+        const hasOutput = !!fullResponse || !!fullReasoning || generatedImages.length > 0;
+        if (finishReason === 'stop' || (finishReason === 'aborted' && hasOutput)) {
+          const outputTokens = estimateTokens(fullResponse) + estimateTokens(fullReasoning);
+          const citations = knowledge ? selectCitedSources(knowledge.citations, fullResponse) : [];
+          const metadata: MessageMetadata = {
+            model: llmConfig.id,
+            finish_reason: finishReason,
+            timings: {
+              started_at: startedAt.toISOString(),
+              first_token_ms: firstTokenAt === null ? null : firstTokenAt - startedAt.getTime(),
+              total_ms: Date.now() - startedAt.getTime(),
+            },
+            // Providers don't report usage on every stream yet, so these are estimates
+            usage: { input_tokens: contextWindow.estimatedTokens, output_tokens: outputTokens, estimated: true },
+            ...(fullReasoning ? { reasoning: fullReasoning } : {}),
+            ...(citations.length > 0 ? { citations } : {}),
+          };
 
-          // --- 7. Send Completion Marker (only if not aborted) ---
-          if (!signal?.aborted) {
-              controller.enqueue(encoder.encode('\n\n__STREAM_COMPLETE__\n\n' + JSON.stringify({
-                id: uuidv4(), // Generate ID here or potentially get from provider if available
+          // A regenerated reply is saved as a new sibling, so the previous answer stays on its own branch
+          const saved = await saveMessage(supabase, chatId, userId, 'assistant', fullResponse, {
+            id: assistantMessageId || undefined, parentId: replyParentId, metadata, modelParams, attachments: generatedImages
+          });
+          if (saved.error) {
+            await removeAttachments(supabase, generatedImages);
+          } else {
+            const { error: leafError } = await updateActiveLeaf(supabase, chatId, saved.messageId);
+            if (leafError) console.error(`Failed to update the active branch of chat ${chatId}:`, leafError);
+          }
+
+          if (finishReason === 'stop') {
+            send({ type: 'usage', inputTokens: contextWindow.estimatedTokens, outputTokens, estimated: true });
+            send({
+              type: 'done',
+              message: {
+                id: saved.messageId,
                 chat_id: chatId,
                 role: 'assistant',
                 content: fullResponse, // Send the complete content
                 model: llmConfig.id, // Include the model ID used
-                created_at: new Date().toISOString()
-              })));
-          } else {
-              console.log("Backend aborted before sending completion marker.");
+                created_at: saved.createdAt,
+                ...(fullReasoning ? { reasoning: fullReasoning } : {}),
+                ...(citations.length > 0 ? { citations } : {}),
+                ...(generatedImages.length > 0 ? { attachments: generatedImages } : {}),
+              }
+            });
           }
-
-          controller.close();
-        } catch (error: any) {
-           if (error.name === 'AbortError') {
-               console.log("Backend AI request aborted.");
-           } else {
-               console.error(`Error in streaming response for model ${llmConfig.id}:`, error);
-               // Avoid enqueueing error if controller is already closed/closing due to abort
-               if (!signal?.aborted) {
-                  try { controller.enqueue(encoder.encode(`\nError: Failed to get response from ${llmConfig.name}.`)); } catch {}
-               }
-           }
-           try { controller.close(); } catch {} // Ensure controller is closed
+        } else {
+          // Nothing is saved, so images stored before a failure have no message to belong to
+          await removeAttachments(supabase, generatedImages);
         }
+
+        try { controller.close(); } catch {} // Ensure controller is closed
       }
     });
 
-    // --- 8. Return Stream Response ---
+    // --- 9. Return Stream Response ---
     return new Response(stream, {
       headers: {
-        'Content-Type': 'text/plain; charset=utf-8', // Use text/plain or text/event-stream
+        'Content-Type': STREAM_EVENT_CONTENT_TYPE,
         'Transfer-Encoding': 'chunked',
         'Cache-Control': 'no-cache',
         'Connection': 'keep-alive',
@@ -154,21 +448,3 @@ export async function action({ request }: ActionFunctionArgs) {
     });
   }
 }
-
-// Helper to adapt message history format
-function adaptMessageHistory(messages: ChatCompletionMessageParam[], provider: 'google' | 'openai' | 'openrouter'): any[] {
-    if (provider === 'google') {
-        // Gemini format: [{ role: 'user' | 'model', parts: [{ text: '...' }] }]
-        return messages.map(msg => ({
-            role: msg.role === 'user' ? 'user' : 'model', // Gemini uses 'model' for assistant/system
-            parts: [{ text: typeof msg.content === 'string' ? msg.content : '' }] // Simple text parts
-        }));
-    } else {
-        // OpenAI/OpenRouter format: [{ role: 'user' | 'assistant' | 'system', content: '...' }]
-        // Ensure content is string only for these providers for simplicity here
-        return messages.map(msg => ({
-            role: msg.role,
-            content: typeof msg.content === 'string' ? msg.content : ''
-        }));
-    }
-}
@@ -0,0 +1,55 @@
+import { json, type ActionFunctionArgs, type LoaderFunctionArgs } from "@remix-run/node";
+import { requireAuth } from "~/lib/auth.server";
+import { findVotableMessage, getModelFeedbackReport, isAdmin, setVote, validateVoteInput } from "~/lib/db/votes.server";
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// --- Loader: per-model feedback report of everyone's votes, for admins ---
+export async function loader({ request }: LoaderFunctionArgs) {
+  const { supabase, session } = await requireAuth(request);
+  if (!isAdmin(session.user)) {
+    return json({ error: "Only admins can see the model feedback report" }, { status: 403 });
+  }
+
+  const { report, error } = await getModelFeedbackReport(supabase);
+  if (error) {
+    console.error("Error loading feedback report:", error);
+    return json({ error: "Failed to load feedback report" }, { status: 500 });
+  }
+  return json({ report });
+}
+
+// --- Action: vote on a reply, change the vote or clear it ---
+export async function action({ request }: ActionFunctionArgs) {
+  const { supabase, session } = await requireAuth(request);
+  const userId = session.user.id;
+
+  const formData = await request.formData();
+  const messageId = formData.get("messageId") as string | null;
+  if (!messageId) return json({ error: "Missing message ID" }, { status: 400 });
+  if (!UUID_PATTERN.test(messageId)) return json({ error: "Invalid message ID" }, { status: 400 });
+
+  const { vote: input, error: validationError } = validateVoteInput({
+    vote: formData.get("vote"),
+    reason: formData.get("reason"),
+  });
+  if (validationError || !input) {
+    return json({ error: validationError }, { status: 400 });
+  }
+
+  const { message, error: findError } = await findVotableMessage(supabase, messageId, userId);
+  if (findError) {
+    console.error(`Error loading message ${messageId} for a vote:`, findError);
+    return json({ error: "Failed to load message" }, { status: 500 });
+  }
+  if (!message) {
+    return json({ error: "Message not found" }, { status: 404 });
+  }
+
+  const { vote, error } = await setVote(supabase, messageId, userId, input);
+  if (error) {
+    console.error(`Error saving vote on message ${messageId}:`, error);
+    return json({ error: "Failed to save vote" }, { status: 500 });
+  }
+  return json({ vote });
+}
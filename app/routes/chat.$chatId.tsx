@@ -41,13 +41,13 @@ function ChatPageContent() {
     return () => clearTimeout(timer);
   }, [chatId]);
 
-  const handleSend = async (message: string) => {
+  const handleSend = async (message: string, files: File[] = []) => {
     const trimmedMessage = message.trim();
-    if (!trimmedMessage || isLoading) return;
+    if ((!trimmedMessage && files.length === 0) || isLoading) return;
     setInput("");
     setInputDraft("");
     try {
-      await sendMessage(trimmedMessage, true, chatId); 
+      await sendMessage(trimmedMessage, true, chatId, false, files); 
     } catch (error) {
       console.error("Failed to send message:", error);
     }
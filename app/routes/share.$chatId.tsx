@@ -0,0 +1,162 @@
+import { json, redirect, type ActionFunctionArgs, type LoaderFunctionArgs, type MetaFunction } from "@remix-run/node";
+import { Form, Link, useActionData, useLoaderData, useNavigation } from "@remix-run/react";
+import { GitBranch } from "lucide-react";
+import { v4 as uuidv4 } from "uuid";
+import { ReadOnlyMessage, type AttachmentUrl } from "~/components/message";
+import { ModeToggle } from "~/components/mode-toggle";
+import { Button } from "~/components/ui/button";
+import { isAuthenticated, requireAuth } from "~/lib/auth.server";
+import type { MessageAttachment } from "~/lib/db/schema";
+import { loadSharedChat, saveForkedChat } from "~/lib/db/share.server";
+import { copyAttachments, removeAttachments } from "~/lib/storage/attachments.server";
+import { createAnonSupabaseClient } from "~/lib/supabase/server";
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export const meta: MetaFunction<typeof loader> = ({ data }) => [
+  { title: data?.chat ? `${data.chat.title} - Sonicthinking` : "Sonicthinking" },
+  { name: "description", content: "A conversation shared from Sonicthinking." },
+];
+
+// --- Loader: a public chat, read without a session so RLS only lets shared chats through ---
+export async function loader({ request, params }: LoaderFunctionArgs) {
+  const chatId = params.chatId;
+  if (!chatId || !UUID_PATTERN.test(chatId)) {
+    throw new Response("Not found", { status: 404 });
+  }
+
+  const { chat, messages, error } = await loadSharedChat(createAnonSupabaseClient(), chatId);
+  if (error) {
+    console.error(`Error loading shared chat ${chatId}:`, error);
+    throw new Response("Failed to load conversation", { status: 500 });
+  }
+  if (!chat) {
+    throw new Response("Not found", { status: 404 });
+  }
+  return json({ chat, messages, signedIn: await isAuthenticated(request) });
+}
+
+// --- Action: "Continue this chat" copies the conversation, up to the chosen message, into a new private chat of the viewer ---
+export async function action({ request, params }: ActionFunctionArgs) {
+  const { supabase, session } = await requireAuth(request);
+  const userId = session.user.id;
+  const chatId = params.chatId;
+  if (!chatId || !UUID_PATTERN.test(chatId)) {
+    return json({ error: "Conversation not found" }, { status: 404 });
+  }
+
+  const formData = await request.formData();
+  const messageId = formData.get("messageId") as string | null;
+
+  // --- 1. Load the conversation as any visitor sees it ---
+  const { chat, ownerId, messages, error } = await loadSharedChat(createAnonSupabaseClient(), chatId);
+  if (error) {
+    console.error(`Error loading shared chat ${chatId} to continue it:`, error);
+    return json({ error: "Failed to load conversation" }, { status: 500 });
+  }
+  if (!chat || !ownerId) {
+    return json({ error: "This conversation is no longer shared" }, { status: 404 });
+  }
+
+  // --- 2. Keep the messages up to the chosen one (all of them by default) ---
+  const lastIndex = messageId ? messages.findIndex(m => m.id === messageId) : messages.length - 1;
+  if (lastIndex < 0) {
+    return json({ error: "Message not found" }, { status: 404 });
+  }
+  const forkedMessages = messages.slice(0, lastIndex + 1);
+
+  // --- 3. Copy files into the viewer's storage, so the copy outlives the share ---
+  // Only files in the owner's folder for this chat are copied, whatever path a message names
+  const newChatId = uuidv4();
+  const copied: MessageAttachment[] = [];
+  try {
+    for (const message of forkedMessages) {
+      if (!message.attachments?.length) continue;
+      message.attachments = await copyAttachments(supabase, userId, newChatId, message.attachments, { userId: ownerId, chatId });
+      copied.push(...message.attachments);
+    }
+  } catch (err) {
+    console.error(`Error copying attachments of shared chat ${chatId}:`, err);
+    await removeAttachments(supabase, copied);
+    return json({ error: "Failed to copy the conversation's files" }, { status: 500 });
+  }
+
+  // --- 4. Save the new chat and open it ---
+  const { error: saveError } = await saveForkedChat(supabase, userId, chat, newChatId, forkedMessages);
+  if (saveError) {
+    console.error(`Error saving copy of shared chat ${chatId}:`, saveError);
+    await removeAttachments(supabase, copied);
+    return json({ error: "Failed to continue this conversation" }, { status: 500 });
+  }
+  return redirect(`/chat/${newChatId}`);
+}
+
+/**
+ * Continues the shared chat in a new chat of the viewer, with the messages up
+ * to `messageId` (or all of them). Visitors who aren't signed in are sent to sign in first.
+ */
+function ContinueChat({ signedIn, messageId, label }: { signedIn: boolean; messageId?: string; label: string }) {
+  const navigation = useNavigation();
+
+  if (!signedIn) {
+    return (
+      <Button asChild variant="outline" size="sm">
+        <Link to="/">Sign in to continue</Link>
+      </Button>
+    );
+  }
+  return (
+    <Form method="post">
+      {messageId && <input type="hidden" name="messageId" value={messageId} />}
+      <Button type="submit" variant="outline" size="sm" disabled={navigation.state !== "idle"}>
+        <GitBranch className="size-4" />
+        {label}
+      </Button>
+    </Form>
+  );
+}
+
+/**
+ * Read-only view of a chat its owner shared. Works for visitors who aren't
+ * signed in; files are served through /api/share so they don't need one either.
+ */
+export default function SharedChat() {
+  const { chat, messages, signedIn } = useLoaderData<typeof loader>();
+  const actionData = useActionData<typeof action>();
+  const attachmentUrl: AttachmentUrl = (messageId, attachmentId) =>
+    `/api/share/${chat.id}/${messageId}/${attachmentId}`;
+
+  return (
+    <div className="flex flex-col min-h-screen bg-background text-foreground">
+      <header className="flex justify-between items-center gap-4 p-3 border-b border-gray-200 dark:border-gray-800">
+        <div className="min-w-0">
+          <h1 className="text-lg font-semibold truncate">{chat.title}</h1>
+          <p className="text-xs text-muted-foreground">
+            Shared conversation · {new Date(chat.created_at).toLocaleDateString()}
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <ModeToggle />
+          {messages.length > 0 && <ContinueChat signedIn={signedIn} label="Continue this chat" />}
+        </div>
+      </header>
+
+      <main className="w-full max-w-4xl mx-auto px-6 py-8 flex flex-col gap-8">
+        {actionData?.error && <p className="text-sm text-destructive">{actionData.error}</p>}
+        {messages.map(message => (
+          <div key={message.id} className="group flex flex-col gap-2">
+            <ReadOnlyMessage message={message} attachmentUrl={attachmentUrl} />
+            {signedIn && message.role === "assistant" && (
+              <div className="flex justify-start pl-12 opacity-0 transition-opacity group-hover:opacity-100 focus-within:opacity-100">
+                <ContinueChat signedIn={signedIn} messageId={message.id} label="Continue from here" />
+              </div>
+            )}
+          </div>
+        ))}
+        {messages.length === 0 && (
+          <p className="py-12 text-center text-sm text-muted-foreground">This conversation has no messages.</p>
+        )}
+      </main>
+    </div>
+  );
+}